@@ -0,0 +1,64 @@
+/**
+ * Evalscript V3 runner for the Sentinel Hub stand-in. Executes the real scripts sent by
+ * sentinel.ts (setup + evaluatePixel) against synthetic samples, so every index, mask and
+ * color ramp is exercised exactly as Sentinel Hub would run it.
+ */
+
+export interface EvalscriptOutput {
+  id: string;
+  bands: number;
+  sampleType: string;
+}
+
+export interface CompiledEvalscript {
+  /** Band names requested by setup().input. */
+  inputBands: string[];
+  outputs: EvalscriptOutput[];
+  /** "SIMPLE" passes one sample per pixel; "ORBIT" / "TILE" pass an array, newest first. */
+  mosaicking: string;
+  /** Per-output band values for one pixel. */
+  evaluate(samples: Record<string, number> | Array<Record<string, number>>, scenes: unknown): Record<string, number[]>;
+}
+
+type SetupResult = {
+  input?: Array<string | { bands?: string[] }>;
+  output?: Partial<EvalscriptOutput> | Array<Partial<EvalscriptOutput>>;
+  mosaicking?: string;
+};
+
+export function compileEvalscript(source: string): CompiledEvalscript {
+  const factory = new Function(
+    `${source}
+;return {
+  setup: typeof setup === "function" ? setup : undefined,
+  evaluatePixel: typeof evaluatePixel === "function" ? evaluatePixel : undefined,
+};`
+  ) as () => {
+    setup?: () => SetupResult;
+    evaluatePixel?: (samples: unknown, scenes: unknown) => unknown;
+  };
+  const { setup, evaluatePixel } = factory();
+  if (!setup || !evaluatePixel) throw new Error("Evalscript must define setup() and evaluatePixel()");
+
+  const spec = setup();
+  const inputBands = (spec.input ?? []).flatMap((entry) =>
+    typeof entry === "string" ? [entry] : entry.bands ?? []
+  );
+  const rawOutputs = Array.isArray(spec.output) ? spec.output : [spec.output ?? {}];
+  const outputs = rawOutputs.map((o) => ({
+    id: o.id ?? "default",
+    bands: o.bands ?? 1,
+    sampleType: o.sampleType ?? "AUTO",
+  }));
+
+  return {
+    inputBands,
+    outputs,
+    mosaicking: spec.mosaicking ?? "SIMPLE",
+    evaluate(samples, scenes) {
+      const result = evaluatePixel(samples, scenes);
+      if (Array.isArray(result)) return { [outputs[0].id]: result as number[] };
+      return (result ?? {}) as Record<string, number[]>;
+    },
+  };
+}
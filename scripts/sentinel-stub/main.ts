@@ -0,0 +1,34 @@
+/**
+ * `npm run stub` – start the Sentinel Hub stand-in.
+ * STUB_PORT (default 4010) sets the port; SENTINEL_STUB_SCENARIO may point at a JSON file
+ * overriding parts of the default scenario (fields, clouds, noDataDates, ...).
+ */
+
+import { readFileSync } from "node:fs";
+import { createSentinelStub } from "./server";
+import type { StubScenario } from "./scene";
+
+const DEFAULT_PORT = 4010;
+
+async function main() {
+  const port = Number(process.env.STUB_PORT ?? DEFAULT_PORT);
+  const scenarioFile = process.env.SENTINEL_STUB_SCENARIO;
+  const scenario = scenarioFile
+    ? (JSON.parse(readFileSync(scenarioFile, "utf8")) as Partial<StubScenario>)
+    : undefined;
+
+  const stub = await createSentinelStub({ port, scenario });
+  console.log(`Sentinel Hub stand-in listening on ${stub.url}`);
+  console.log(`Set SENTINEL_BASE_URL=${stub.url} (any SENTINEL_CLIENT_ID / SECRET works).`);
+
+  const shutdown = () => {
+    stub.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
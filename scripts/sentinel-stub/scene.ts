@@ -0,0 +1,320 @@
+/**
+ * Deterministic synthetic Sentinel-2 L2A world for the Sentinel Hub stand-in.
+ * Acquisitions happen every `revisitDays`; each pixel's reflectances are derived from a target
+ * NDVI (background or field, with a seasonal swing), overridden by cloud patches and no-data days.
+ * Sentinel-1 GRD passes follow their own calendar (`sar`), with backscatter derived from the same
+ * NDVI and unaffected by clouds. Landsat 8/9 passes (`landsat`) see the same ground and clouds
+ * through their own band names and QA bits; HLS serves both calendars harmonised.
+ */
+
+export type BBox = [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+
+export interface StubField {
+  name?: string;
+  bbox: BBox;
+  /** Off-season NDVI; the seasonal swing is added on top. */
+  ndvi: number;
+}
+
+export interface StubCloudPatch {
+  date: string; // YYYY-MM-DD
+  center: [number, number]; // [lon, lat]
+  /** Radius in degrees. */
+  radius: number;
+}
+
+export interface StubScenario {
+  /** First acquisition (YYYY-MM-DD); further ones every `revisitDays`. */
+  firstAcquisition: string;
+  revisitDays: number;
+  /** NDVI outside every field. */
+  backgroundNdvi: number;
+  fields: StubField[];
+  /** Field NDVI rises by `amplitude` at `peakDayOfYear`, as a Gaussian of width `widthDays`. */
+  season: { peakDayOfYear: number; widthDays: number; amplitude: number };
+  /** NDVI added to every field in a year (e.g. { "2022": -0.15 } for a drought year). */
+  yearOffsets: Record<string, number>;
+  clouds: StubCloudPatch[];
+  /** Acquisitions listed in the catalog whose pixels carry no data (e.g. AOI at the swath edge). */
+  noDataDates: string[];
+  /** MGRS tiles each acquisition is split into (one catalog feature per tile). */
+  tiles: string[];
+  /** Sentinel-1 passes: first acquisition (YYYY-MM-DD), then one every `revisitDays`. */
+  sar: { firstAcquisition: string; revisitDays: number };
+  /** Landsat 8/9 passes, on their own calendar like `sar`. */
+  landsat: { firstAcquisition: string; revisitDays: number };
+}
+
+export const DEFAULT_SCENARIO: StubScenario = {
+  firstAcquisition: "2017-01-02",
+  revisitDays: 5,
+  backgroundNdvi: 0.2,
+  fields: [{ name: "Demo field", bbox: [13.4, 52.5, 13.45, 52.53], ndvi: 0.3 }],
+  season: { peakDayOfYear: 190, widthDays: 40, amplitude: 0.5 },
+  yearOffsets: {},
+  clouds: [],
+  noDataDates: [],
+  tiles: ["33UUU"],
+  sar: { firstAcquisition: "2017-01-04", revisitDays: 6 },
+  landsat: { firstAcquisition: "2013-04-11", revisitDays: 8 },
+};
+
+export function resolveScenario(overrides: Partial<StubScenario> = {}): StubScenario {
+  return {
+    ...DEFAULT_SCENARIO,
+    ...overrides,
+    season: { ...DEFAULT_SCENARIO.season, ...overrides.season },
+    sar: { ...DEFAULT_SCENARIO.sar, ...overrides.sar },
+    landsat: { ...DEFAULT_SCENARIO.landsat, ...overrides.landsat },
+  };
+}
+
+const DAY_MS = 86_400_000;
+/** Acquisition time of day for every synthetic pass. */
+export const ACQUISITION_TIME = "10:30:00Z";
+/** Time of day of every Sentinel-1 pass (descending orbit). */
+export const SAR_ACQUISITION_TIME = "05:20:00Z";
+/** Time of day of every Landsat pass. */
+export const LANDSAT_ACQUISITION_TIME = "09:55:00Z";
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function dateFromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Pass dates (YYYY-MM-DD, ascending) of a calendar whose pass time falls in [from, to]. */
+function passesBetween(
+  firstAcquisition: string,
+  revisitDays: number,
+  time: string,
+  from: string,
+  to: string
+): string[] {
+  const fromMs = Date.parse(from);
+  const toMs = Date.parse(to);
+  const first = dayNumber(firstAcquisition);
+  let day = Math.max(first, dayNumber(from.slice(0, 10)));
+  const offset = (((day - first) % revisitDays) + revisitDays) % revisitDays;
+  if (offset !== 0) day += revisitDays - offset;
+
+  const dates: string[] = [];
+  for (; ; day += revisitDays) {
+    const date = dateFromDayNumber(day);
+    const pass = Date.parse(`${date}T${time}`);
+    if (pass > toMs) break;
+    if (pass >= fromMs) dates.push(date);
+  }
+  return dates;
+}
+
+/** Acquisition dates (YYYY-MM-DD, ascending) whose pass time falls in [from, to]. */
+export function acquisitionsBetween(scenario: StubScenario, from: string, to: string): string[] {
+  return passesBetween(scenario.firstAcquisition, scenario.revisitDays, ACQUISITION_TIME, from, to);
+}
+
+/** Sentinel-1 pass dates (YYYY-MM-DD, ascending) whose pass time falls in [from, to]. */
+export function sarAcquisitionsBetween(scenario: StubScenario, from: string, to: string): string[] {
+  return passesBetween(scenario.sar.firstAcquisition, scenario.sar.revisitDays, SAR_ACQUISITION_TIME, from, to);
+}
+
+/** Landsat 8/9 pass dates (YYYY-MM-DD, ascending) whose pass time falls in [from, to]. */
+export function landsatAcquisitionsBetween(scenario: StubScenario, from: string, to: string): string[] {
+  return passesBetween(
+    scenario.landsat.firstAcquisition,
+    scenario.landsat.revisitDays,
+    LANDSAT_ACQUISITION_TIME,
+    from,
+    to
+  );
+}
+
+/** HLS dates (YYYY-MM-DD, ascending): every Sentinel-2 (S30) and Landsat (L30) pass in [from, to]. */
+export function hlsAcquisitionsBetween(scenario: StubScenario, from: string, to: string): string[] {
+  const dates = new Set([
+    ...acquisitionsBetween(scenario, from, to),
+    ...landsatAcquisitionsBetween(scenario, from, to),
+  ]);
+  return [...dates].sort();
+}
+
+/** Small deterministic hash in [0, 1) so tile cloud cover is stable across runs. */
+function hash01(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return (h >>> 0) / 4294967296;
+}
+
+/** Tile-level cloud cover (%) reported by the catalog for an acquisition. */
+export function tileCloudCover(scenario: StubScenario, date: string, tile: string): number {
+  const patches = scenario.clouds.filter((c) => c.date === date).length;
+  const base = Math.floor(hash01(`${date}/${tile}`) * 8);
+  return Math.min(100, base + patches * 25);
+}
+
+function inBBox(bbox: BBox, lon: number, lat: number): boolean {
+  return lon >= bbox[0] && lon <= bbox[2] && lat >= bbox[1] && lat <= bbox[3];
+}
+
+function dayOfYear(date: string): number {
+  return dayNumber(date) - dayNumber(`${date.slice(0, 4)}-01-01`) + 1;
+}
+
+/** Target NDVI of a clear pixel on a date. */
+export function ndviAt(scenario: StubScenario, lon: number, lat: number, date: string): number {
+  const field = scenario.fields.find((f) => inBBox(f.bbox, lon, lat));
+  if (!field) return scenario.backgroundNdvi;
+  const { peakDayOfYear, widthDays, amplitude } = scenario.season;
+  const d = dayOfYear(date) - peakDayOfYear;
+  const swing = amplitude * Math.exp(-(d * d) / (2 * widthDays * widthDays));
+  const offset = scenario.yearOffsets[date.slice(0, 4)] ?? 0;
+  return Math.max(-0.9, Math.min(0.95, field.ndvi + swing + offset));
+}
+
+const CLOUD_REFLECTANCE = 0.55;
+/** SCL classes: 4 vegetation, 5 not vegetated, 6 water, 9 cloud high probability. */
+const SCL_VEGETATION = 4;
+const SCL_NOT_VEGETATED = 5;
+const SCL_WATER = 6;
+const SCL_CLOUD_HIGH = 9;
+
+/** Band values (reflectance 0..1 plus SCL and dataMask) of one pixel on one acquisition date. */
+export function samplePixel(
+  scenario: StubScenario,
+  lon: number,
+  lat: number,
+  date: string
+): Record<string, number> {
+  if (scenario.noDataDates.includes(date)) {
+    return {
+      B01: 0, B02: 0, B03: 0, B04: 0, B05: 0, B06: 0, B07: 0, B08: 0, B8A: 0, B09: 0, B11: 0, B12: 0,
+      SCL: 0,
+      dataMask: 0,
+    };
+  }
+
+  const cloudy = scenario.clouds.some(
+    (c) => c.date === date && Math.hypot(lon - c.center[0], lat - c.center[1]) <= c.radius
+  );
+  if (cloudy) {
+    const r = CLOUD_REFLECTANCE;
+    return {
+      B01: r, B02: r, B03: r, B04: r, B05: r, B06: r, B07: r, B08: r, B8A: r, B09: r, B11: r * 0.8, B12: r * 0.7,
+      SCL: SCL_CLOUD_HIGH,
+      dataMask: 1,
+    };
+  }
+
+  const ndvi = ndviAt(scenario, lon, lat, date);
+  // Pick red reflectance, then NIR so that (NIR - red) / (NIR + red) equals the target NDVI.
+  const red = 0.12 - 0.08 * Math.max(0, ndvi);
+  const nir = (red * (1 + ndvi)) / (1 - ndvi);
+  const green = red * 1.15;
+  const blue = red * 0.8;
+  return {
+    B01: blue * 0.9,
+    B02: blue,
+    B03: green,
+    B04: red,
+    B05: red + (nir - red) * 0.35,
+    B06: red + (nir - red) * 0.7,
+    B07: red + (nir - red) * 0.9,
+    B08: nir,
+    B8A: nir * 1.02,
+    B09: nir * 0.3,
+    B11: 0.28 - 0.14 * ndvi,
+    B12: 0.2 - 0.12 * ndvi,
+    SCL: ndvi < 0 ? SCL_WATER : ndvi > 0.3 ? SCL_VEGETATION : SCL_NOT_VEGETATED,
+    dataMask: 1,
+  };
+}
+
+/** Landsat QA_PIXEL bits: 0 fill, 3 cloud, 6 clear, 7 water. */
+const LANDSAT_QA_FILL = 1;
+const LANDSAT_QA_CLOUD = 1 << 3;
+const LANDSAT_QA_CLEAR = 1 << 6;
+const LANDSAT_QA_WATER = 1 << 7;
+/** HLS Fmask bits: 1 cloud, 5 water. */
+const HLS_QA_CLOUD = 1 << 1;
+const HLS_QA_WATER = 1 << 5;
+
+/**
+ * Landsat 8/9 Collection 2 L2 bands of one pixel: the Sentinel-2 sample under Landsat band names
+ * (B05 NIR, B06 / B07 SWIR) with the SCL cloud state encoded in QA_PIXEL (BQA).
+ */
+export function landsatSamplePixel(
+  scenario: StubScenario,
+  lon: number,
+  lat: number,
+  date: string
+): Record<string, number> {
+  const s = samplePixel(scenario, lon, lat, date);
+  const qa =
+    s.dataMask === 0
+      ? LANDSAT_QA_FILL
+      : s.SCL === SCL_CLOUD_HIGH
+        ? LANDSAT_QA_CLOUD
+        : s.SCL === SCL_WATER
+          ? LANDSAT_QA_CLEAR | LANDSAT_QA_WATER
+          : LANDSAT_QA_CLEAR;
+  return {
+    B01: s.B01,
+    B02: s.B02,
+    B03: s.B03,
+    B04: s.B04,
+    B05: s.B08,
+    B06: s.B11,
+    B07: s.B12,
+    BQA: qa,
+    dataMask: s.dataMask,
+  };
+}
+
+/** HLS bands of one pixel: the Sentinel-2 sample under HLS band names, cloud state in Fmask (QA). */
+export function hlsSamplePixel(
+  scenario: StubScenario,
+  lon: number,
+  lat: number,
+  date: string
+): Record<string, number> {
+  const s = samplePixel(scenario, lon, lat, date);
+  return {
+    CoastalAerosol: s.B01,
+    Blue: s.B02,
+    Green: s.B03,
+    Red: s.B04,
+    NIR_Narrow: s.B08,
+    SWIR1: s.B11,
+    SWIR2: s.B12,
+    QA: s.SCL === SCL_CLOUD_HIGH ? HLS_QA_CLOUD : s.SCL === SCL_WATER ? HLS_QA_WATER : 0,
+    dataMask: s.dataMask,
+  };
+}
+
+/**
+ * Linear gamma0 backscatter (VV, VH) of one pixel on a Sentinel-1 pass. VV is picked from the
+ * target NDVI, then VH so that the radar vegetation index 4·VH / (VV + VH) equals
+ * sarVegetationIndex; open water scatters almost nothing.
+ */
+export function sarSamplePixel(
+  scenario: StubScenario,
+  lon: number,
+  lat: number,
+  date: string
+): Record<string, number> {
+  const ndvi = ndviAt(scenario, lon, lat, date);
+  if (ndvi < 0) return { VV: 0.005, VH: 0.0005, dataMask: 1 };
+  const rvi = sarVegetationIndex(ndvi);
+  const vv = 0.08 + 0.06 * ndvi;
+  return { VV: vv, VH: (rvi * vv) / (4 - rvi), dataMask: 1 };
+}
+
+/** Radar vegetation index of a pixel with this NDVI: about 0.2 on bare soil, 1 under full canopy. */
+export function sarVegetationIndex(ndvi: number): number {
+  return 0.2 + 0.8 * Math.max(0, Math.min(1, ndvi));
+}
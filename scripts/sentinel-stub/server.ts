@@ -0,0 +1,686 @@
+/**
+ * Local Sentinel Hub stand-in for offline development and tests.
+ * Implements the endpoints sentinel.ts uses – OAuth token, Catalog search, Process and
+ * Statistical APIs – over the synthetic world in scene.ts. Point the app at it with
+ * SENTINEL_BASE_URL=http://localhost:4010 (see `npm run stub`).
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { compileEvalscript, type CompiledEvalscript } from "./evalscript";
+import { encodeGeoTiff } from "../../src/lib/services/geotiff";
+import { encodePng } from "../../src/lib/services/png";
+import { metersToLonLat } from "../../src/lib/services/web-mercator";
+import {
+  ACQUISITION_TIME,
+  acquisitionsBetween,
+  hlsAcquisitionsBetween,
+  hlsSamplePixel,
+  LANDSAT_ACQUISITION_TIME,
+  landsatAcquisitionsBetween,
+  landsatSamplePixel,
+  resolveScenario,
+  samplePixel,
+  SAR_ACQUISITION_TIME,
+  sarAcquisitionsBetween,
+  sarSamplePixel,
+  tileCloudCover,
+  type BBox,
+  type StubScenario,
+} from "./scene";
+
+const COLLECTION_S2L2A = "sentinel-2-l2a";
+const COLLECTION_S1GRD = "sentinel-1-grd";
+const COLLECTION_LANDSAT = "landsat-ot-l2";
+const COLLECTION_HLS = "hls";
+/** WRS-2 path/row of every synthetic Landsat scene. */
+const LANDSAT_PATH_ROW = "193023";
+const MAX_CATALOG_LIMIT = 100;
+const DEFAULT_CATALOG_LIMIT = 10;
+const MAX_IMAGE_SIZE = 2500;
+/** Statistical API grids are capped per axis to keep the stand-in fast. */
+const MAX_STATS_PIXELS_PER_AXIS = 256;
+const TOKEN_TTL_SECONDS = 3600;
+
+export interface SentinelStubOptions {
+  /** 0 (default) picks a free port. */
+  port?: number;
+  host?: string;
+  scenario?: Partial<StubScenario>;
+}
+
+export interface SentinelStub {
+  /** Base URL to use as SENTINEL_BASE_URL. */
+  url: string;
+  scenario: StubScenario;
+  /** Paths of every API request served, in order (token requests included). */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+class StubHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type Geometry =
+  | { type: "Polygon"; coordinates: number[][][] }
+  | { type: "MultiPolygon"; coordinates: number[][][][] };
+
+// ---------------------------------------------------------------------------
+// Geometry helpers
+// ---------------------------------------------------------------------------
+
+function polygonsOf(geometry: Geometry): number[][][][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+function bboxOfGeometry(geometry: Geometry): BBox {
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [lon, lat] of polygon[0] ?? []) {
+      bbox[0] = Math.min(bbox[0], lon);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lon);
+      bbox[3] = Math.max(bbox[3], lat);
+    }
+  }
+  return bbox;
+}
+
+function inRing(ring: number[][], lon: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function inGeometry(geometry: Geometry, lon: number, lat: number): boolean {
+  return polygonsOf(geometry).some(
+    ([outer, ...holes]) => inRing(outer, lon, lat) && !holes.some((h) => inRing(h, lon, lat))
+  );
+}
+
+type Bounds = { bbox: BBox; geometry?: Geometry };
+
+function readBounds(input: { bounds?: { bbox?: number[]; geometry?: Geometry } } | undefined): Bounds {
+  const bounds = input?.bounds;
+  if (bounds?.geometry) {
+    // bbox and geometry together: render the bbox, clipped to the geometry.
+    const bbox = bounds.bbox?.length === 4 ? (bounds.bbox as BBox) : bboxOfGeometry(bounds.geometry);
+    return { bbox, geometry: bounds.geometry };
+  }
+  if (bounds?.bbox?.length === 4) return { bbox: bounds.bbox as BBox };
+  throw new StubHttpError(400, "input.bounds must contain bbox or geometry");
+}
+
+// ---------------------------------------------------------------------------
+// Pixel evaluation
+// ---------------------------------------------------------------------------
+
+type DataFilter = { timeRange?: { from: string; to: string }; mosaickingOrder?: string };
+/** One entry of input.data: the collection (Sentinel-2 when omitted) and its filter. */
+type DataInput = { type?: string; dataFilter?: DataFilter };
+
+/** How the stand-in serves one collection: its pass calendar and pixel sampler. */
+interface StubCollection {
+  acquisitionsBetween(scenario: StubScenario, from: string, to: string): string[];
+  sample(scenario: StubScenario, lon: number, lat: number, date: string): Record<string, number>;
+  /** Optical collections report cloud cover, so mosaicking can order their passes by it. */
+  optical: boolean;
+}
+
+const COLLECTIONS: Record<string, StubCollection> = {
+  [COLLECTION_S2L2A]: { acquisitionsBetween, sample: samplePixel, optical: true },
+  [COLLECTION_S1GRD]: { acquisitionsBetween: sarAcquisitionsBetween, sample: sarSamplePixel, optical: false },
+  [COLLECTION_LANDSAT]: {
+    acquisitionsBetween: landsatAcquisitionsBetween,
+    sample: landsatSamplePixel,
+    optical: true,
+  },
+  [COLLECTION_HLS]: { acquisitionsBetween: hlsAcquisitionsBetween, sample: hlsSamplePixel, optical: true },
+};
+
+function collectionOf(input: DataInput | undefined): StubCollection {
+  const type = input?.type ?? COLLECTION_S2L2A;
+  const collection = COLLECTIONS[type];
+  if (!collection) throw new StubHttpError(400, `Stand-in does not serve collection "${type}"`);
+  return collection;
+}
+
+/** Acquisition dates in the order mosaicking visits them; Sentinel-1 has no cloud cover to sort by. */
+function orderedAcquisitions(
+  scenario: StubScenario,
+  from: string,
+  to: string,
+  mosaickingOrder = "mostRecent",
+  collection: StubCollection = COLLECTIONS[COLLECTION_S2L2A]
+): string[] {
+  const dates = collection.acquisitionsBetween(scenario, from, to);
+  if (mosaickingOrder === "leastRecent") return dates;
+  if (mosaickingOrder === "leastCC" && collection.optical) {
+    const tile = scenario.tiles[0] ?? "";
+    return [...dates].sort(
+      (a, b) => tileCloudCover(scenario, a, tile) - tileCloudCover(scenario, b, tile) || (a < b ? 1 : -1)
+    );
+  }
+  return dates.reverse();
+}
+
+/**
+ * Evaluate one pixel: SIMPLE mosaicking takes the first date with data, ORBIT / TILE get them all.
+ * Samples come from `collection` (Sentinel-2 reflectances unless the request names another).
+ */
+function evaluateAt(
+  script: CompiledEvalscript,
+  scenario: StubScenario,
+  dates: string[],
+  lon: number,
+  lat: number,
+  collection: StubCollection = COLLECTIONS[COLLECTION_S2L2A]
+): Record<string, number[]> {
+  const sampleAt = collection.sample;
+  if (script.mosaicking === "SIMPLE") {
+    let sample = sampleAt(scenario, lon, lat, dates[0] ?? "");
+    for (const date of dates) {
+      const candidate = sampleAt(scenario, lon, lat, date);
+      if (candidate.dataMask === 1) {
+        sample = candidate;
+        break;
+      }
+    }
+    if (dates.length === 0) sample = { ...sample, dataMask: 0 };
+    return script.evaluate(sample, undefined);
+  }
+  const samples = dates.map((date) => sampleAt(scenario, lon, lat, date));
+  const scenes = {
+    orbits: dates.map((date) => ({
+      dateFrom: `${date}T00:00:00Z`,
+      dateTo: `${date}T23:59:59Z`,
+      tiles: !collection.optical
+        ? [{ date: `${date}T${SAR_ACQUISITION_TIME}` }]
+        : scenario.tiles.map((tile) => ({
+            date: `${date}T${ACQUISITION_TIME}`,
+            tileId: tile,
+            cloudCoverage: tileCloudCover(scenario, date, tile),
+          })),
+    })),
+  };
+  return script.evaluate(samples, scenes);
+}
+
+function toByte(value: number, sampleType: string): number {
+  if (!Number.isFinite(value)) return 0;
+  if (sampleType === "UINT8") return Math.max(0, Math.min(255, Math.round(value)));
+  return Math.max(0, Math.min(255, Math.round(value * 255)));
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+let issuedTokens = 0;
+
+function handleToken(body: Buffer) {
+  const params = new URLSearchParams(body.toString("utf8"));
+  if (params.get("grant_type") !== "client_credentials" || !params.get("client_id")) {
+    throw new StubHttpError(400, "grant_type=client_credentials and client_id are required");
+  }
+  issuedTokens++;
+  return { access_token: `stub-token-${issuedTokens}`, token_type: "Bearer", expires_in: TOKEN_TTL_SECONDS };
+}
+
+type CqlFilter = { op?: string; args?: unknown[] };
+
+function matchesFilter(filter: CqlFilter | undefined, properties: Record<string, unknown>): boolean {
+  if (!filter?.op) return true;
+  if (filter.op === "and") return (filter.args as CqlFilter[]).every((f) => matchesFilter(f, properties));
+  if (filter.op === "or") return (filter.args as CqlFilter[]).some((f) => matchesFilter(f, properties));
+  const [left, right] = filter.args ?? [];
+  const property = (left as { property?: string })?.property ?? "";
+  const value = properties[property] as number;
+  const target = right as number;
+  switch (filter.op) {
+    case "<": return value < target;
+    case "<=": return value <= target;
+    case ">": return value > target;
+    case ">=": return value >= target;
+    case "=": return value === target;
+    default: throw new StubHttpError(400, `Unsupported filter op "${filter.op}"`);
+  }
+}
+
+/** YYYYDDD (year and day of year) as used in HLS granule ids. */
+function julianDate(date: string): string {
+  const day = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${date.slice(0, 4)}-01-01T00:00:00Z`)) / 86_400_000 + 1;
+  return `${date.slice(0, 4)}${String(day).padStart(3, "0")}`;
+}
+
+function handleCatalog(scenario: StubScenario, body: Buffer) {
+  const payload = JSON.parse(body.toString("utf8")) as {
+    bbox?: number[];
+    datetime?: string;
+    collections?: string[];
+    limit?: number;
+    next?: number;
+    filter?: CqlFilter;
+  };
+  const [from, to] = (payload.datetime ?? "").split("/");
+  if (!from || !to) throw new StubHttpError(400, "datetime must be an interval 'from/to'");
+  const bbox = (payload.bbox ?? [-180, -90, 180, 90]) as BBox;
+  const limit = Math.min(MAX_CATALOG_LIMIT, payload.limit ?? DEFAULT_CATALOG_LIMIT);
+  const offset = payload.next ?? 0;
+
+  const all: Array<Record<string, unknown>> = [];
+  const add = (id: string, properties: Record<string, unknown>) => {
+    if (!matchesFilter(payload.filter, properties)) return;
+    all.push({ type: "Feature", stac_version: "1.0.0", id, bbox, properties });
+  };
+  const collections = payload.collections ?? [COLLECTION_S2L2A];
+  if (collections.includes(COLLECTION_S2L2A)) {
+    for (const date of acquisitionsBetween(scenario, from, to)) {
+      const ymd = date.replace(/-/g, "");
+      for (const tile of scenario.tiles) {
+        add(`S2A_MSIL2A_${ymd}T103021_N0510_R108_T${tile}_${ymd}T140000`, {
+          datetime: `${date}T${ACQUISITION_TIME}`,
+          "eo:cloud_cover": tileCloudCover(scenario, date, tile),
+          platform: "sentinel-2a",
+        });
+      }
+    }
+  }
+  if (collections.includes(COLLECTION_S1GRD)) {
+    for (const date of sarAcquisitionsBetween(scenario, from, to)) {
+      const ymd = date.replace(/-/g, "");
+      add(`S1A_IW_GRDH_1SDV_${ymd}T052012_${ymd}T052037_000000_000000_0000`, {
+        datetime: `${date}T${SAR_ACQUISITION_TIME}`,
+        platform: "sentinel-1a",
+        "sar:instrument_mode": "IW",
+        "s1:polarization": "DV",
+        "sat:orbit_state": "descending",
+      });
+    }
+  }
+  if (collections.includes(COLLECTION_LANDSAT)) {
+    for (const date of landsatAcquisitionsBetween(scenario, from, to)) {
+      const ymd = date.replace(/-/g, "");
+      add(`LC09_L2SP_${LANDSAT_PATH_ROW}_${ymd}_${ymd}_02_T1`, {
+        datetime: `${date}T${LANDSAT_ACQUISITION_TIME}`,
+        "eo:cloud_cover": tileCloudCover(scenario, date, LANDSAT_PATH_ROW),
+        platform: "landsat-9",
+      });
+    }
+  }
+  if (collections.includes(COLLECTION_HLS)) {
+    // One granule per MGRS tile and sensor: S30 on Sentinel-2 dates, L30 on Landsat dates.
+    const landsatDates = new Set(landsatAcquisitionsBetween(scenario, from, to));
+    for (const date of hlsAcquisitionsBetween(scenario, from, to)) {
+      const [product, time] = landsatDates.has(date) ? ["L30", LANDSAT_ACQUISITION_TIME] : ["S30", ACQUISITION_TIME];
+      for (const tile of scenario.tiles) {
+        add(`HLS.${product}.T${tile}.${julianDate(date)}T${time.slice(0, 8).replace(/:/g, "")}.v2.0`, {
+          datetime: `${date}T${time}`,
+          "eo:cloud_cover": tileCloudCover(scenario, date, tile),
+          platform: product === "L30" ? "landsat-9" : "sentinel-2a",
+        });
+      }
+    }
+  }
+
+  const features = all.slice(offset, offset + limit);
+  const context: Record<string, number> = { limit, returned: features.length };
+  if (offset + limit < all.length) context.next = offset + limit;
+  return { type: "FeatureCollection", features, links: [], context };
+}
+
+async function handleProcess(scenario: StubScenario, req: IncomingMessage, body: Buffer) {
+  const contentType = req.headers["content-type"] ?? "";
+  let request: Record<string, unknown>;
+  let evalscript: string;
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await new Request("http://stub/process", {
+      method: "POST",
+      headers: { "content-type": contentType },
+      body,
+    }).formData();
+    request = JSON.parse(String(form.get("request") ?? "{}"));
+    evalscript = String(form.get("evalscript") ?? "");
+  } else {
+    request = JSON.parse(body.toString("utf8"));
+    evalscript = String(request.evalscript ?? "");
+  }
+
+  const input = request.input as {
+    bounds?: { bbox?: number[]; geometry?: Geometry; properties?: { crs?: string } };
+    data?: DataInput[];
+  };
+  const output = (request.output ?? {}) as {
+    width?: number;
+    height?: number;
+    resx?: number;
+    resy?: number;
+    responses?: Array<{ identifier?: string; format?: { type?: string } }>;
+  };
+  const { bbox, geometry } = readBounds(input);
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const width = output.width ?? Math.ceil((maxLon - minLon) / (output.resx ?? 1));
+  const height = output.height ?? Math.ceil((maxLat - minLat) / (output.resy ?? 1));
+  if (!(width >= 1 && height >= 1 && width <= MAX_IMAGE_SIZE && height <= MAX_IMAGE_SIZE)) {
+    throw new StubHttpError(400, `Output size ${width}x${height} outside 1..${MAX_IMAGE_SIZE}`);
+  }
+  const response = output.responses?.[0] ?? {};
+  const format = response.format?.type ?? "image/png";
+  if (format !== "image/png" && format !== "image/tiff") {
+    throw new StubHttpError(400, `Stand-in only renders image/png and image/tiff, got ${format}`);
+  }
+
+  const script = compileEvalscript(evalscript);
+  const spec = script.outputs.find((o) => o.id === (response.identifier ?? "default")) ?? script.outputs[0];
+  const collection = collectionOf(input.data?.[0]);
+  const dataFilter = input.data?.[0]?.dataFilter ?? {};
+  const timeRange = dataFilter.timeRange;
+  if (!timeRange) throw new StubHttpError(400, "input.data[0].dataFilter.timeRange is required");
+  const dates = orderedAcquisitions(scenario, timeRange.from, timeRange.to, dataFilter.mosaickingOrder, collection);
+
+  const channels = spec.bands;
+  // TIFF keeps raw sample values (FLOAT32 exports); PNG is quantised to bytes.
+  const tiff = format === "image/tiff";
+  const pixels = tiff ? new Float32Array(width * height * channels) : new Uint8Array(width * height * channels);
+  const dx = (maxLon - minLon) / width;
+  const dy = (maxLat - minLat) / height;
+  // Web Mercator bounds (map tiles) are in metres; pixel centres are converted back to lon/lat.
+  const mercator = input.bounds?.properties?.crs?.endsWith("/3857") ?? false;
+  for (let y = 0; y < height; y++) {
+    const rowY = maxLat - (y + 0.5) * dy;
+    for (let x = 0; x < width; x++) {
+      const columnX = minLon + (x + 0.5) * dx;
+      const [lon, lat] = mercator ? metersToLonLat(columnX, rowY) : [columnX, rowY];
+      if (geometry && !inGeometry(geometry, lon, lat)) continue; // transparent / zero outside geometry
+      const values = evaluateAt(script, scenario, dates, lon, lat, collection)[spec.id] ?? [];
+      for (let b = 0; b < channels; b++) {
+        const value = values[b] ?? 0;
+        pixels[(y * width + x) * channels + b] = tiff ? value : toByte(value, spec.sampleType);
+      }
+    }
+  }
+  if (pixels instanceof Float32Array) {
+    const image = encodeGeoTiff({ width, height, bands: channels, values: pixels, bbox: [minLon, minLat, maxLon, maxLat] });
+    return { contentType: format, body: Buffer.from(image) };
+  }
+  return { contentType: format, body: encodePng(width, height, channels, pixels) };
+}
+
+/** Split [from, to] into aggregation intervals (P<n>D, P<n>W, P<n>M, P<n>Y). */
+function aggregationIntervals(
+  from: string,
+  to: string,
+  duration: string,
+  lastIntervalBehavior = "SKIP"
+): Array<{ from: string; to: string }> {
+  const match = duration.match(/^P(\d+)([DWMY])$/);
+  if (!match) throw new StubHttpError(400, `Unsupported aggregationInterval "${duration}"`);
+  const n = Number(match[1]);
+  const unit = match[2];
+  const end = Date.parse(to);
+  const intervals: Array<{ from: string; to: string }> = [];
+  let start = new Date(from);
+  while (start.getTime() < end) {
+    const next = new Date(start);
+    if (unit === "D") next.setUTCDate(next.getUTCDate() + n);
+    if (unit === "W") next.setUTCDate(next.getUTCDate() + 7 * n);
+    if (unit === "M") next.setUTCMonth(next.getUTCMonth() + n);
+    if (unit === "Y") next.setUTCFullYear(next.getUTCFullYear() + n);
+    if (next.getTime() > end) {
+      if (lastIntervalBehavior === "SHORTEN") intervals.push({ from: start.toISOString(), to: new Date(end).toISOString() });
+      else if (lastIntervalBehavior === "EXTEND") intervals.push({ from: start.toISOString(), to: next.toISOString() });
+      break;
+    }
+    intervals.push({ from: start.toISOString(), to: next.toISOString() });
+    start = next;
+  }
+  return intervals.map((i) => ({ from: i.from.replace(".000Z", "Z"), to: i.to.replace(".000Z", "Z") }));
+}
+
+type BandAccumulator = {
+  count: number;
+  sum: number;
+  sumSq: number;
+  min: number;
+  max: number;
+  noData: number;
+  /** Kept only when percentiles or a histogram were requested. */
+  values?: number[];
+};
+
+type HistogramSpec = { binWidth?: number; nBins?: number; lowEdge?: number; highEdge?: number };
+type OutputCalculation = {
+  histograms?: { default?: HistogramSpec };
+  statistics?: { default?: { percentiles?: { k?: number[] } } };
+};
+
+/** Linear-interpolated k-th percentiles of sorted values, keyed "10.0" like the real API. */
+function percentiles(sorted: number[], ks: number[]): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const k of ks) {
+    const rank = (k / 100) * (sorted.length - 1);
+    const lo = Math.floor(rank);
+    const hi = Math.min(sorted.length - 1, lo + 1);
+    result[k.toFixed(1)] = sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+  }
+  return result;
+}
+
+/** Histogram over [lowEdge, highEdge]; the top edge falls into the last bin. */
+function histogram(values: number[], spec: HistogramSpec) {
+  const lowEdge = spec.lowEdge ?? Math.min(...values);
+  const highEdge = spec.highEdge ?? Math.max(...values);
+  const nBins = spec.nBins ?? Math.max(1, Math.round((highEdge - lowEdge) / (spec.binWidth ?? 1)));
+  const width = (highEdge - lowEdge) / nBins;
+  const bins = Array.from({ length: nBins }, (_, i) => ({
+    lowEdge: lowEdge + i * width,
+    highEdge: lowEdge + (i + 1) * width,
+    count: 0,
+  }));
+  let underflowCount = 0;
+  let overflowCount = 0;
+  for (const v of values) {
+    if (v < lowEdge) underflowCount++;
+    else if (v > highEdge) overflowCount++;
+    else bins[Math.min(nBins - 1, Math.floor((v - lowEdge) / width))].count++;
+  }
+  return { bins, overflowCount, underflowCount };
+}
+
+function finishStats(acc: BandAccumulator, sampleCount: number, calculation?: OutputCalculation) {
+  if (acc.count === 0) {
+    return { min: "NaN", max: "NaN", mean: "NaN", stDev: "NaN", sampleCount, noDataCount: sampleCount };
+  }
+  const mean = acc.sum / acc.count;
+  const variance = Math.max(0, acc.sumSq / acc.count - mean * mean);
+  const ks = calculation?.statistics?.default?.percentiles?.k;
+  return {
+    min: acc.min,
+    max: acc.max,
+    mean,
+    stDev: Math.sqrt(variance),
+    sampleCount,
+    noDataCount: sampleCount - acc.count,
+    ...(ks && acc.values ? { percentiles: percentiles([...acc.values].sort((a, b) => a - b), ks) } : {}),
+  };
+}
+
+function handleStatistics(scenario: StubScenario, body: Buffer) {
+  const payload = JSON.parse(body.toString("utf8")) as {
+    input?: { bounds?: { bbox?: number[]; geometry?: Geometry }; data?: DataInput[] };
+    calculations?: Record<string, OutputCalculation>;
+    aggregation?: {
+      timeRange?: { from: string; to: string };
+      aggregationInterval?: { of?: string };
+      lastIntervalBehavior?: string;
+      evalscript?: string;
+      resx?: number;
+      resy?: number;
+      width?: number;
+      height?: number;
+    };
+  };
+  const aggregation = payload.aggregation ?? {};
+  if (!aggregation.timeRange || !aggregation.evalscript) {
+    throw new StubHttpError(400, "aggregation.timeRange and aggregation.evalscript are required");
+  }
+  const { bbox, geometry } = readBounds(payload.input);
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const clampAxis = (n: number) => Math.max(1, Math.min(MAX_STATS_PIXELS_PER_AXIS, Math.ceil(n)));
+  const width = clampAxis(aggregation.width ?? (maxLon - minLon) / (aggregation.resx ?? 1));
+  const height = clampAxis(aggregation.height ?? (maxLat - minLat) / (aggregation.resy ?? 1));
+  const script = compileEvalscript(aggregation.evalscript);
+  const statOutputs = script.outputs.filter((o) => o.id !== "dataMask");
+  const collection = collectionOf(payload.input?.data?.[0]);
+  const mosaickingOrder = payload.input?.data?.[0]?.dataFilter?.mosaickingOrder;
+  const calculationFor = (id: string) => payload.calculations?.[id] ?? payload.calculations?.default;
+  const keepsValues = (id: string) => {
+    const calculation = calculationFor(id);
+    return Boolean(calculation?.histograms?.default || calculation?.statistics?.default?.percentiles);
+  };
+
+  const data = [];
+  for (const interval of aggregationIntervals(
+    aggregation.timeRange.from,
+    aggregation.timeRange.to,
+    aggregation.aggregationInterval?.of ?? "P1D",
+    aggregation.lastIntervalBehavior
+  )) {
+    // Interval end is exclusive.
+    const dates = orderedAcquisitions(
+      scenario,
+      interval.from,
+      new Date(Date.parse(interval.to) - 1).toISOString(),
+      mosaickingOrder,
+      collection
+    );
+    if (dates.length === 0) continue;
+
+    const acc = new Map<string, BandAccumulator>();
+    let sampleCount = 0;
+    const dx = (maxLon - minLon) / width;
+    const dy = (maxLat - minLat) / height;
+    for (let y = 0; y < height; y++) {
+      const lat = maxLat - (y + 0.5) * dy;
+      for (let x = 0; x < width; x++) {
+        const lon = minLon + (x + 0.5) * dx;
+        if (geometry && !inGeometry(geometry, lon, lat)) continue;
+        sampleCount++;
+        const values = evaluateAt(script, scenario, dates, lon, lat, collection);
+        const masked = (values.dataMask?.[0] ?? 1) === 0;
+        for (const out of statOutputs) {
+          for (let b = 0; b < out.bands; b++) {
+            const key = `${out.id}/B${b}`;
+            let a = acc.get(key);
+            if (!a) {
+              a = { count: 0, sum: 0, sumSq: 0, min: Infinity, max: -Infinity, noData: 0 };
+              if (keepsValues(out.id)) a.values = [];
+              acc.set(key, a);
+            }
+            const v = values[out.id]?.[b];
+            if (masked || v === undefined || !Number.isFinite(v)) continue;
+            a.count++;
+            a.sum += v;
+            a.sumSq += v * v;
+            a.min = Math.min(a.min, v);
+            a.max = Math.max(a.max, v);
+            a.values?.push(v);
+          }
+        }
+      }
+    }
+
+    type BandResult = { stats: ReturnType<typeof finishStats>; histogram?: ReturnType<typeof histogram> };
+    const outputs: Record<string, { bands: Record<string, BandResult> }> = {};
+    for (const out of statOutputs) {
+      const bands: Record<string, BandResult> = {};
+      const calculation = calculationFor(out.id);
+      const histogramSpec = calculation?.histograms?.default;
+      for (let b = 0; b < out.bands; b++) {
+        const a = acc.get(`${out.id}/B${b}`) ?? { count: 0, sum: 0, sumSq: 0, min: 0, max: 0, noData: 0 };
+        bands[`B${b}`] = {
+          stats: finishStats(a, sampleCount, calculation),
+          ...(histogramSpec && a.values?.length ? { histogram: histogram(a.values, histogramSpec) } : {}),
+        };
+      }
+      outputs[out.id] = { bands };
+    }
+    data.push({ interval, outputs });
+  }
+  return { data, status: "OK" };
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function createSentinelStub(options: SentinelStubOptions = {}): Promise<SentinelStub> {
+  const scenario = resolveScenario(options.scenario);
+  const requests: string[] = [];
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+    requests.push(path);
+    try {
+      if (req.method !== "POST") throw new StubHttpError(405, "Only POST is supported");
+      const body = await readBody(req);
+
+      if (/^\/auth\/realms\/[^/]+\/protocol\/openid-connect\/token$/.test(path)) {
+        return sendJson(res, 200, handleToken(body));
+      }
+      if (!req.headers.authorization?.startsWith("Bearer stub-token-")) {
+        throw new StubHttpError(401, "Missing or invalid bearer token");
+      }
+      if (path === "/api/v1/catalog/1.0.0/search") {
+        return sendJson(res, 200, handleCatalog(scenario, body));
+      }
+      if (path === "/api/v1/process") {
+        const image = await handleProcess(scenario, req, body);
+        res.writeHead(200, { "Content-Type": image.contentType });
+        return res.end(image.body);
+      }
+      if (path === "/api/v1/statistics") {
+        return sendJson(res, 200, handleStatistics(scenario, body));
+      }
+      throw new StubHttpError(404, `No stand-in route for ${path}`);
+    } catch (err) {
+      const status = err instanceof StubHttpError ? err.status : 500;
+      const message = err instanceof Error ? err.message : String(err);
+      sendJson(res, status, { error: { status, reason: "Stand-in error", message } });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, options.host ?? "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host ?? "127.0.0.1"}:${port}`,
+    scenario,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
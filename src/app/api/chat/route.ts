@@ -9,13 +9,348 @@ import { google } from "@ai-sdk/google";
 import { z } from "zod";
 import { lookupLocation } from "@/lib/tools/geocoding";
 import {
+  assertCompositeCollection,
   searchSatelliteImages,
+  listAvailableDates,
   getVegetationStats,
+  getZonalStats,
+  MAX_ZONAL_FEATURES,
+  parseZoneFeatureCollection,
+  getVegetationTimeSeries,
+  compareDates,
+  DEFAULT_CHANGE_THRESHOLD,
+  getIndexAnomaly,
+  DEFAULT_ANOMALY_WINDOW_DAYS,
+  DEFAULT_BASELINE_YEARS,
+  MAX_BASELINE_YEARS,
+  generateDifferenceImage,
+  TIME_SERIES_INTERVALS,
   generateNDVIImage,
   generateTrueColorImage,
-  extractNDVIStatsForLLM,
+  listRadarDates,
+  getRadarStats,
+  generateRadarImage,
+  extractRadarStatsForLLM,
+  radarImageRamp,
+  RADAR_PRODUCTS,
+  type RadarProduct,
+  COMPOSITE_MODES,
+  compositeEndingOn,
+  getCompositeDates,
+  MAX_COMPOSITE_DAYS,
+  extractCompositeDates,
+  extractIndexStatsForLLM,
+  extractMaskedFraction,
+  estimateCompositeStatsUnits,
+  estimateDateComparisonUnits,
+  estimateDifferenceImageUnits,
+  estimateIndexAnomalyUnits,
+  estimateIndexImageUnits,
+  estimateIndexStatsUnits,
+  estimateRadarImageUnits,
+  estimateRadarStatsUnits,
+  estimateSceneSearchUnits,
+  estimateTimeSeriesUnits,
+  estimateTrueColorUnits,
+  estimateZonalStatsUnits,
+  geometryBBox,
+  IMAGE_FORMATS,
+  IMAGE_MIME_TYPES,
+  type Composite,
+  type CompositeDate,
+  type CompositeMode,
+  type GeoJsonGeometry,
+  type HistogramBin,
+  type ImageFormat,
+  type ZoneFeatureCollection,
 } from "@/lib/services/sentinel";
+import {
+  budgetPrincipal,
+  getProcessingUnitBudget,
+  type ProcessingUnitBudget,
+} from "@/lib/services/budget";
+import {
+  DEFAULT_OPTICAL_COLLECTION,
+  getOpticalCollection,
+  OPTICAL_COLLECTION_IDS,
+  type OpticalCollectionId,
+} from "@/lib/services/collections";
+import { AreaTooLargeError, describeSentinelError } from "@/lib/services/errors";
+import { SPECTRAL_INDEX_IDS, SPECTRAL_INDICES, getSpectralIndex, type SpectralIndexId } from "@/lib/services/indices";
+import {
+  changeColorRamp,
+  COLOR_RAMP_IDS,
+  colorLegend,
+  radarColorLegend,
+  resolveColorRamp,
+} from "@/lib/services/color-ramps";
+import { getCacheStatus, type CacheStatus } from "@/lib/services/result-cache";
+import {
+  coarserResolution,
+  MAX_PROCESS_PX,
+  planImage,
+  sizeImage,
+} from "@/lib/services/resolution";
 import { bboxToPolygon } from "@/lib/chat-parser";
+import {
+  extractPhenology,
+  MIN_PHENOLOGY_OBSERVATIONS,
+  observationDatePrecisionDays,
+  observationsFromTimeSeries,
+  type PhenologyPoint,
+} from "@/lib/analysis/phenology";
+
+const INDEX_GUIDE = SPECTRAL_INDEX_IDS.map(
+  (id) => `- ${id}: ${SPECTRAL_INDICES[id].description}`
+).join("\n");
+
+const indexParam = z
+  .enum(SPECTRAL_INDEX_IDS)
+  .default("NDVI")
+  .describe("Spectral index to compute (default NDVI)");
+
+const collectionParam = z
+  .enum(OPTICAL_COLLECTION_IDS)
+  .default(DEFAULT_OPTICAL_COLLECTION)
+  .describe(
+    'Optical collection of the date, as returned by searchScenes (default "sentinel-2-l2a"; "landsat-ot-l2" = Landsat 8/9, "hls" = Harmonized Landsat Sentinel-2)'
+  );
+
+/** Source label of results from a collection other than Sentinel-2, for captions and the agent. */
+function collectionSource(collection: OpticalCollectionId) {
+  return collection === DEFAULT_OPTICAL_COLLECTION ? {} : { source: getOpticalCollection(collection).name };
+}
+
+const colorRampParams = {
+  colorRamp: z
+    .enum(COLOR_RAMP_IDS)
+    .optional()
+    .describe(
+      'Color ramp: "classes" (default, the index\'s own classes), "RdYlGn" or "viridis" (continuous), "agronomic" (5 crop-condition classes for greenness indices)'
+    ),
+  breakpoints: z
+    .array(z.number())
+    .optional()
+    .describe(
+      "Custom ascending breakpoints: class limits for classed ramps (one fewer than the classes), or [min, max] / one value per stop for continuous ramps"
+    ),
+};
+
+const compositeParams = {
+  composite: z
+    .enum(COMPOSITE_MODES)
+    .optional()
+    .describe(
+      'Composite every acquisition of the compositeDays days ending on date, per pixel: "least-cloud" (least cloudy acquisition), "most-recent" (latest clear pixel), "max-ndvi" (greenest) or "median". Use when the date is cloudy or only partly covered; omit for the single date.'
+    ),
+  compositeDays: z
+    .number()
+    .int()
+    .min(2)
+    .max(MAX_COMPOSITE_DAYS)
+    .default(30)
+    .describe("Composite window in days, ending on date (default 30)"),
+};
+
+/** The composite window ending on `date` when a composite mode is requested, else the date. */
+function acquisitionFor(date: string, mode: CompositeMode | undefined, days: number): string | Composite {
+  return mode ? compositeEndingOn(date, days, mode) : date;
+}
+
+/** Composite window and the acquisitions its clear pixels came from, for tool results. */
+function compositeForLLM(composite: Composite, dates: CompositeDate[]) {
+  return {
+    mode: composite.mode,
+    from: composite.from,
+    to: composite.to,
+    dates: dates.map(({ date, pixelFraction }) => ({ date, percent: Math.round(pixelFraction * 100) })),
+  };
+}
+
+/**
+ * Contributing dates of a composite image over `geometry` (a Statistical API request, charged
+ * to the budget); ranked by `indexId`, so NDVI for true color. Refuses collections without
+ * composites before anything is spent.
+ */
+async function compositeDatesForImage(
+  budget: ProcessingUnitBudget,
+  geometry: GeoJsonGeometry,
+  composite: Composite,
+  collection: OpticalCollectionId,
+  indexId: SpectralIndexId = "NDVI"
+) {
+  assertCompositeCollection(getOpticalCollection(collection));
+  const estimate = estimateCompositeStatsUnits(geometry, composite, indexId);
+  budget.check(estimate);
+  const dates = await getCompositeDates(geometry, composite, indexId);
+  const { consumed } = chargeProcessingUnits(budget, estimate, getCacheStatus(dates));
+  return { composite: compositeForLLM(composite, dates), consumed };
+}
+
+/** Images are not coarsened below this many pixels per side to fit the PU budget. */
+const MIN_BUDGET_IMAGE_PX = 128;
+
+const resolutionParam = z
+  .union([z.literal(10), z.literal(20), z.literal(60)])
+  .optional()
+  .describe("Target ground resolution in metres (10, 20 or 60). Omit to pick automatically from the area size.");
+
+const position = z.array(z.number()).min(2);
+/** Polygon or multipolygon drawn in MapSelector, sent with each chat request. */
+const drawnGeometrySchema = z.union([
+  z.object({ type: z.literal("Polygon"), coordinates: z.array(z.array(position).min(4)).min(1) }),
+  z.object({
+    type: z.literal("MultiPolygon"),
+    coordinates: z.array(z.array(z.array(position).min(4)).min(1)).min(1),
+  }),
+]);
+
+/**
+ * The drawn geometry when `bbox` is its bounding box as echoed back by the model (within 1% of
+ * the extent, for rounding), so stats and images cover the exact field instead of the box.
+ */
+function drawnGeometryFor(
+  drawn: GeoJsonGeometry | undefined,
+  bbox: [number, number, number, number]
+): GeoJsonGeometry | undefined {
+  if (!drawn) return undefined;
+  const bounds = geometryBBox(drawn);
+  const tolerance = Math.max(1e-4, 0.01 * Math.max(bounds[2] - bounds[0], bounds[3] - bounds[1]));
+  return bbox.every((value, i) => Math.abs(value - bounds[i]) <= tolerance) ? drawn : undefined;
+}
+
+/**
+ * Settle the `estimate` PUs reserved by budget.check, charging them unless the result came from
+ * the cache, and report them for the tool result.
+ */
+function chargeProcessingUnits(
+  budget: ProcessingUnitBudget,
+  estimate: number,
+  cache?: CacheStatus
+) {
+  const consumed = cache?.hit ? 0 : estimate;
+  budget.charge(consumed, estimate);
+  const remaining = budget.remaining();
+  return { consumed, budgetRemaining: Number.isFinite(remaining) ? remaining : null };
+}
+
+const imageSizeParams = {
+  width: z
+    .number()
+    .int()
+    .min(16)
+    .max(4096)
+    .optional()
+    .describe("Image width in px. The other side follows the area's shape; with both, the image fits inside. Omit to size by resolution."),
+  height: z.number().int().min(16).max(4096).optional().describe("Image height in px (see width)."),
+  format: z.enum(IMAGE_FORMATS).default("png").describe("Image format: png (default, transparent no-data), jpeg or webp"),
+};
+
+interface ImageSizeRequest {
+  resolution?: number;
+  width?: number;
+  height?: number;
+  format: ImageFormat;
+}
+
+/**
+ * Output size from explicit width / height or the requested (or automatic) resolution, with
+ * pixels square on the ground. Coarsened until its PU estimate fits the remaining budget and, for
+ * formats that cannot be stitched, a single Process API request. Throws BudgetExceededError
+ * when even MIN_BUDGET_IMAGE_PX does not fit.
+ */
+function fitImagePlan(
+  budget: ProcessingUnitBudget,
+  bbox: [number, number, number, number],
+  { resolution, width, height, format }: ImageSizeRequest,
+  estimate: (width: number, height: number) => number
+) {
+  const requested =
+    width !== undefined || height !== undefined ? sizeImage(bbox, width, height) : planImage(bbox, resolution);
+  const remaining = budget.remaining();
+  const tooLarge = (w: number, h: number) =>
+    estimate(w, h) > remaining || (format !== "png" && Math.max(w, h) > MAX_PROCESS_PX);
+  let plan = requested;
+  while (tooLarge(plan.width, plan.height) && Math.max(plan.width, plan.height) > MIN_BUDGET_IMAGE_PX) {
+    plan = planImage(bbox, coarserResolution(plan.resolution));
+  }
+  const units = estimate(plan.width, plan.height);
+  budget.check(units);
+  return { ...plan, units, downscaled: plan.resolution !== requested.resolution };
+}
+
+/** Download link of the raw-value GeoTIFF matching a generated index image. */
+function geotiffUrl(
+  bbox: [number, number, number, number],
+  date: string,
+  index: string,
+  width: number,
+  height: number,
+  collection: OpticalCollectionId = DEFAULT_OPTICAL_COLLECTION
+) {
+  const params = new URLSearchParams({
+    action: "geotiff",
+    bbox: bbox.join(","),
+    date,
+    index,
+    width: String(width),
+    height: String(height),
+  });
+  if (collection !== DEFAULT_OPTICAL_COLLECTION) params.set("collection", collection);
+  return `/api/satellite?${params}`;
+}
+
+/** Phenology series are 5-day least-cloudy mosaics, about one per Sentinel-2 revisit. */
+const PHENOLOGY_INTERVAL = "P5D";
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/** A phenology date and value, rounded for the model. */
+function phenologyPointForLLM(point: PhenologyPoint | undefined) {
+  return point ? { date: point.date, value: round3(point.value) } : undefined;
+}
+
+/** Observed means and the smoothed curve (every fifth day plus each observation) for TimeSeriesChart. */
+function phenologyChartPoints(observations: PhenologyPoint[], smoothed: PhenologyPoint[]) {
+  const observed = new Map(observations.map((o) => [o.date, o.value]));
+  return smoothed
+    .filter((p, i) => i % 5 === 0 || i === smoothed.length - 1 || observed.has(p.date))
+    .map((p) => ({ date: p.date, mean: observed.get(p.date), smoothed: round3(p.value) }));
+}
+
+/** Source label on every radar result, so the agent never passes it off as optical imagery. */
+const RADAR_SOURCE = "Sentinel-1 SAR (radar-derived)";
+
+const RADAR_PRODUCT_TITLES: Record<RadarProduct, string> = {
+  VV: "VV backscatter (dB)",
+  VH: "VH backscatter (dB)",
+  RVI: "RVI (radar vegetation index)",
+  "false-color": "Radar false color (VV, VH, VV/VH)",
+};
+
+/** Plain-language reading of an anomaly z-score, for the agent's wording. */
+function anomalyLevel(zScore: number | undefined) {
+  if (zScore === undefined) return undefined;
+  if (zScore <= -2) return "far below normal";
+  if (zScore <= -1) return "below normal";
+  if (zScore < 1) return "normal";
+  return zScore < 2 ? "above normal" : "far above normal";
+}
+
+/** Histogram bins as value ranges with hectares, plus the cumulative area below each bin's top. */
+function histogramForLLM(bins: HistogramBin[] | undefined) {
+  let below = 0;
+  return bins?.map((bin) => {
+    below += bin.areaHa;
+    return { range: `${bin.lowEdge} – ${bin.highEdge}`, areaHa: bin.areaHa, areaBelowHa: Math.round(below * 100) / 100 };
+  });
+}
+
+/** Tool error result; oversized AOIs also carry a zoomed-in bbox the agent can offer. */
+function toolError(err: unknown, fallback: string) {
+  const error = describeSentinelError(err, fallback);
+  return err instanceof AreaTooLargeError ? { error, suggestedBbox: err.suggestedBbox } : { error };
+}
 
 function getSystemPrompt(): string {
   const today = new Date().toISOString().split("T")[0];
@@ -25,20 +360,60 @@ You are interacting with strict, production-grade tools. You MUST:
 - Call tools with EXACT parameter names and types as defined in their schemas. Never invent, rename, or pluralize parameters (e.g. always use "from" and "to" inside "dateRange", never "from1" or other variations).
 - Only use dates in ISO format YYYY-MM-DD.
 
-CRITICAL: Satellites do not fly every day. NEVER guess a date for getVegetationStats or generateNDVI. You MUST ALWAYS call searchScenes first with a broad dateRange (for example, the last 30 days) to find a valid image. Extract the EXACT timestamp (YYYY-MM-DD) from the searchScenes result and use ONLY that date for subsequent getVegetationStats or generateNDVI tool calls. If searchScenes finds no image, explain this to the user and DO NOT call getVegetationStats or generateNDVI.
+CRITICAL: Satellites do not fly every day. NEVER guess a date for getVegetationStats or generateNDVI. You MUST ALWAYS call searchScenes first with a broad dateRange (for example, the last 30 days) to find a valid image. Extract the EXACT timestamp (YYYY-MM-DD) and collection from the searchScenes result and use ONLY that date and collection for subsequent getVegetationStats or generateNDVI tool calls. If searchScenes finds no image, DO NOT call getVegetationStats or generateNDVI; see the radar fallback below.
+
+If the user asks which dates or acquisitions are available, call searchScenes with mode "list" and summarize the dates and their cloud cover.
+
+Sentinel-2 L2A ("sentinel-2-l2a", the default) starts in 2017 and passes about every 5 days. For dates before 2017, or when Sentinel-2 leaves a gap the user cares about, pass collections ["sentinel-2-l2a", "landsat-ot-l2", "hls"] to searchScenes (Landsat 8/9 and Harmonized Landsat Sentinel-2 reach back to 2013). It merges the sensors and each result names its collection: pass that collection on to getVegetationStats, generateNDVI, generateTrueColor and getVegetationTimeSeries, and name the sensor in your answer. Landsat and HLS have no red-edge bands, so NDRE is Sentinel-2 only, and composites, compareDates, getZonalStats, getPhenology and getIndexAnomaly use Sentinel-2 only.
 
 When the user mentions a place name (e.g. "Iowa", "Berlin"), use the lookupLocation tool first to get coordinates (bbox). Then always use searchScenes to check image availability, and only then call getVegetationStats or generateNDVI as needed.
 
+getVegetationStats and generateNDVI accept an "index" parameter. Pick the index that answers the question (default NDVI):
+${INDEX_GUIDE}
+Use NDMI or NDWI for moisture / irrigation questions, NDRE or GNDVI for chlorophyll / nitrogen questions, SAVI or MSAVI2 for early-season or sparse crops, and NBR for burn damage.
+
+getVegetationStats also returns percentiles (p10 to p90), the clear area in hectares, hectares per vegetation class for greenness indices, and a histogram whose areaBelowHa gives the area below each value. Use them to describe how the field is distributed, not just its mean: e.g. "18 ha of the field is below 0.3" or "a quarter of the field is under 0.45". A mean close to the median with a narrow p10–p90 range means a uniform field; a wide range or a low p10 points to problem patches.
+
+For questions about trends, seasons, green-up or decline (e.g. "how did the field develop this season?"), use getVegetationTimeSeries over the whole date range instead of single-date stats; it does not need a searchScenes date. Describe the curve: when the index rose, peaked and declined.
+
+For crop-calendar questions (when did the field emerge, green up, peak, senesce or get harvested; how long was the season), call getPhenology with a date range covering the whole season, from before sowing to after harvest (or today for the current season). Report start of season, peak date and value, end of season and season length, giving the dates as ± datePrecisionDays (each observation is a mosaic of several days, so the exact acquisition day is unknown); when startOfSeason or endOfSeason is missing, the range cut the season off or no clear season was found, so say so and suggest a wider range. To compare seasons (e.g. this year's peak against last year's), call getPhenology once per season with the same bbox and index and compare peak value, peak date and integratedIndex.
+
+When the user asks about several fields at once (comparing, ranking or monitoring them), call getZonalStats once with all fields instead of getVegetationStats per field, and present its rows as a table. If the user drew several polygons on the map, set useDrawnFields. Fields with an error row had no usable data; say so rather than dropping them.
+
+When the requested date is cloudy or only partly covered (high cloudMaskedPercent, a half-empty image) or the user asks for the best view of a period, pass composite to getVegetationStats, generateNDVI or generateTrueColor: each pixel then comes from one clear acquisition of the compositeDays days ending on date ("least-cloud" or "most-recent" for a current view, "max-ndvi" for peak greenness, "median" for a typical value). Results carry composite.dates, the acquisitions used with their share of pixels; name them and say the result is a composite, not a single-day snapshot.
+
+A value alone does not show stress: NDVI 0.45 is poor in July for maize but normal for that field in April. Before you call a field stressed, poor, behind or unusually good, call getIndexAnomaly with the same bbox, date and index. It compares the window ending on date with the same calendar window in previous years (median composites, so clouds do not count as low values). Only describe the field as stressed when relativeToNormal is "below normal" or "far below normal" (z-score at or below -1, a low percentile); otherwise say the value is within its normal range for the time of year. Quote the z-score or percentile and the number of baseline years, and mention missingYears or a baseline of only two or three years as a limitation.
+
+For "what changed" questions between two dates (harvest, damage, growth, before and after an event), call searchScenes for each period to find two clear acquisition dates, then call compareDates with both. The user sees before / after maps and a difference map. Report the change in mean and median and the hectares of significant gain and loss; the comparison only covers pixels clear on both dates.
+
+Clouds hide the ground from Sentinel-2. When searchScenes finds no optical image and returns radarFallback, tell the user no cloud-free optical image exists, then call getRadarStats (and generateRadarImage if they want a map) with radarFallback.date instead of giving up. Sentinel-1 radar sees through clouds. Label every such answer as radar-derived, e.g. "From Sentinel-1 radar (no cloud-free optical image): RVI 0.62", and never call RVI "NDVI" or compare the two directly: RVI reflects canopy structure and biomass (about 0.2 bare soil to 0.8–1 dense crop). VV and VH backscatter in dB rise with rougher surfaces and more biomass; very low values (below about -20 dB in VV) point to water or flooding. Without radarFallback, explain that no image was found.
+
 If the user asks to see a real photo, normal image, or true color view of the field, use the generateTrueColor tool (after resolving location and checking searchScenes for a valid date).
 
-Do not dump raw JSON stats. Interpret results for the user: e.g. "NDVI is 0.2, indicating potential drought stress" or "Mean NDVI 0.65 suggests healthy vegetation." Be concise and actionable.`;
+Statistics exclude cloud, cloud shadow and snow pixels (scene classification mask). When cloudMaskedPercent is above roughly 10, tell the user (e.g. "32% of the field was cloud-covered, so the mean reflects the clear part only"); above roughly 60, recommend another date. In generated index maps, grey pixels are masked clouds/shadows/snow and transparent pixels have no data.
+
+Tool results report processingUnits (consumed, budgetRemaining). If a tool refuses because the processing-unit budget is exhausted, tell the user plainly and suggest a smaller area, a shorter date range or waiting for the budget to reset; do not retry the same request. If an image was downscaled to fit the budget, mention it.
+
+When the user selected an area on the map, their message contains the bounding box of the polygon they drew. Pass that bbox unchanged: stats, time series and images then use the exact drawn polygon (results carry drawnArea: true, and images are clipped to it), so neighbouring fields and roads are excluded.
+
+Images are rendered at a ground resolution (10, 20 or 60 m per pixel, coarser for large regions) chosen from the area size; pass "resolution" only when the user asks for a specific detail level, and width / height / format only when the user asks for a specific size or file type (the other side always follows the area's shape). Very large areas (e.g. a whole state) are refused: when a tool returns suggestedBbox, explain the limit and offer to analyze that zoomed-in area or a specific field instead.
+
+Index maps use the index's own color classes by default. Pass colorRamp "RdYlGn" or "viridis" when the user wants a continuous scale, "agronomic" for a simple crop-condition map, and breakpoints when they name class limits (e.g. "mark everything under 0.3 as stressed"). The tool returns the legend, which the chat shows under the image; refer to its colors when describing the map.
+
+Every index map comes with a "Download GeoTIFF" link of the raw index values for GIS software; point users to it when they ask for the data, a file or an export.
+
+Do not dump raw JSON stats. Interpret results for the user, naming the index used: e.g. "NDVI is 0.2, in the 5th percentile of the last five Julys, indicating drought stress" or "Mean NDVI 0.65 suggests healthy vegetation." Be concise and actionable.`;
 }
 
 export const maxDuration = 60;
 
 export async function POST(req: Request) {
-  const { messages: rawMessages } = await req.json();
+  const { messages: rawMessages, drawnArea } = await req.json();
   const messages = await convertToModelMessages(rawMessages);
+  const drawn = drawnGeometrySchema.safeParse(drawnArea?.geometry);
+  const drawnGeometry: GeoJsonGeometry | undefined = drawn.success ? drawn.data : undefined;
+  // Each tool call gets its own view of the budget and releases what it reserved but never charged.
+  const principal = budgetPrincipal(req.headers);
 
   const activeProvider = process.env.ACTIVE_AI_PROVIDER?.toLowerCase();
   const model =
@@ -75,7 +450,7 @@ export async function POST(req: Request) {
       }),
       searchScenes: tool({
         description:
-          "Search the satellite catalog for Sentinel-2 L2A imagery in a bounding box and date range. Use to verify image availability before generating stats or NDVI.",
+          "Search the satellite catalog for optical imagery (Sentinel-2 L2A by default; Landsat 8/9 and HLS via collections, merged into one result) in a bounding box and date range. mode \"best\" (default) picks the clearest, most recent date by measuring cloud cover inside the bounding box itself; mode \"list\" returns every available acquisition date with tile cloud cover and tile ids. Every result names its collection. Use to verify image availability before generating stats or NDVI. When mode \"best\" finds no clear optical scene, it returns radarFallback with Sentinel-1 radar dates.",
         inputSchema: z.object({
           bbox: z
             .array(z.number())
@@ -85,90 +460,681 @@ export async function POST(req: Request) {
             from: z.string().describe("Start date YYYY-MM-DD"),
             to: z.string().describe("End date YYYY-MM-DD"),
           }),
+          maxCloudCover: z
+            .number()
+            .min(0)
+            .max(100)
+            .default(10)
+            .describe("Maximum cloud cover (%) inside the bounding box (default 10). Raise it if nothing is found and the user accepts partial cloud."),
+          mode: z
+            .enum(["best", "list"])
+            .default("best")
+            .describe("best = single clearest recent scene; list = all available dates (when the user asks which dates exist)"),
+          collections: z
+            .array(z.enum(OPTICAL_COLLECTION_IDS))
+            .min(1)
+            .default([DEFAULT_OPTICAL_COLLECTION])
+            .describe(
+              'Optical collections to search and merge (default ["sentinel-2-l2a"]). Add "landsat-ot-l2" and "hls" for dates before 2017 or to fill Sentinel-2 gaps.'
+            ),
         }),
-        execute: async ({ bbox, dateRange }) => {
+        execute: async ({ bbox, dateRange, maxCloudCover, mode, collections }) => {
+          const budget = getProcessingUnitBudget(principal);
           try {
+            if (mode === "list") {
+              // Catalog searches are free; only "best" measures AOI cloud with the Statistical API.
+              const dates = await listAvailableDates(
+                bbox as [number, number, number, number],
+                { from: dateRange.from, to: dateRange.to },
+                collections
+              );
+              return {
+                found: dates.length > 0,
+                availableDates: dates.map((d) => ({
+                  date: d.date,
+                  collection: d.collection,
+                  cloudCover: d.cloudCover,
+                  tileIds: d.tileIds,
+                  ...(collections.length > 1 ? { source: getOpticalCollection(d.collection).name } : {}),
+                })),
+                processingUnits: chargeProcessingUnits(budget, 0),
+              };
+            }
+
+            const estimate = estimateSceneSearchUnits(
+              bbox as [number, number, number, number],
+              dateRange,
+              collections
+            );
+            budget.check(estimate);
             const scene = await searchSatelliteImages(
               bbox as [number, number, number, number],
-              { from: dateRange.from, to: dateRange.to }
+              { from: dateRange.from, to: dateRange.to },
+              { maxCloudCover, collections }
             );
-            if (!scene)
+            const processingUnits = chargeProcessingUnits(budget, estimate, scene ? getCacheStatus(scene) : undefined);
+            if (!scene) {
+              // Radar sees through clouds: offer Sentinel-1 dates instead (catalog searches are free).
+              const radarDates = await listRadarDates(bbox as [number, number, number, number], dateRange);
+              const latest = radarDates[0];
               return {
                 found: false,
-                message: "No suitable image found for this area and date range (e.g. cloud cover too high).",
+                message: latest
+                  ? `No optical image with at most ${maxCloudCover}% cloud cover over this area in the date range. Sentinel-1 radar covers it on ${radarDates.length} date(s), latest ${latest.date}: use getRadarStats or generateRadarImage with that date and say the result is radar-derived.`
+                  : `No image with at most ${maxCloudCover}% cloud cover over this area in the date range, and no Sentinel-1 radar acquisition either.`,
+                ...(latest
+                  ? {
+                      radarFallback: {
+                        source: RADAR_SOURCE,
+                        date: latest.date,
+                        timestamp: latest.timestamp,
+                        orbitState: latest.orbitState,
+                        availableDates: radarDates.map((d) => d.date),
+                      },
+                    }
+                  : {}),
+                processingUnits,
               };
+            }
             return {
               found: true,
               id: scene.id,
               timestamp: scene.timestamp,
+              collection: scene.collection,
               cloudCover: scene.cloudCover,
+              aoiCloudCover: scene.aoiCloudCover,
+              processingUnits,
             };
           } catch (err) {
-            const msg = err instanceof Error ? err.message : "Catalog search failed.";
-            return { error: msg };
+            return toolError(err, "Catalog search failed.");
+          } finally {
+            budget.release();
           }
         },
       }),
       getVegetationStats: tool({
         description:
-          "Get NDVI statistics (mean, min, max, stDev) for a bounding box on a given date. Use after resolving location and optionally checking searchScenes.",
+          "Get spectral index statistics (mean, min, max, stDev) for a bounding box on a given date. Defaults to NDVI; set index for moisture, chlorophyll, etc. Use after resolving location and optionally checking searchScenes.",
         inputSchema: z.object({
           bbox: z
             .array(z.number())
             .length(4)
             .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
-          date: z.string().describe("Date YYYY-MM-DD"),
+          date: z.string().describe("Date YYYY-MM-DD (the last day of a composite)"),
+          index: indexParam,
+          collection: collectionParam,
+          ...compositeParams,
         }),
-        execute: async ({ bbox, date }) => {
+        execute: async ({ bbox, date, index, collection, composite, compositeDays }) => {
+          const budget = getProcessingUnitBudget(principal);
           try {
-            const polygon = bboxToPolygon(bbox as [number, number, number, number]);
-            const response = await getVegetationStats(polygon, date);
-            const stats = extractNDVIStatsForLLM(response);
-            if (!stats)
-              return { error: "No NDVI statistics returned for this area/date." };
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const geometry = drawn ?? bboxToPolygon(aoi);
+            const when = acquisitionFor(date, composite, compositeDays);
+            const estimate =
+              typeof when === "string"
+                ? estimateIndexStatsUnits(geometry, index)
+                : estimateCompositeStatsUnits(geometry, when, index);
+            budget.check(estimate);
+            const response = await getVegetationStats(geometry, when, index, collection);
+            const processingUnits = chargeProcessingUnits(budget, estimate, getCacheStatus(response));
+            const stats = extractIndexStatsForLLM(response, index);
+            if (!stats) {
+              const masked = extractMaskedFraction(response);
+              return {
+                error:
+                  masked !== null && masked > 0
+                    ? `No clear pixels: ${Math.round(masked * 100)}% of the area was cloud, shadow or snow covered ${
+                        typeof when === "string" ? `on ${date}` : `on every acquisition from ${when.from} to ${when.to}`
+                      }.`
+                    : `No ${index} statistics returned for this area/date.`,
+                processingUnits,
+              };
+            }
             return {
+              index,
+              ...collectionSource(collection),
               mean: stats.mean,
               min: stats.min,
               max: stats.max,
               stDev: stats.stDev,
               sampleCount: stats.sampleCount,
               noDataCount: stats.noDataCount,
+              cloudMaskedPercent:
+                stats.maskedFraction !== undefined ? Math.round(stats.maskedFraction * 100) : undefined,
+              percentiles: stats.percentiles,
+              clearAreaHa: stats.validAreaHa,
+              classAreas: stats.classAreas?.map(({ label, areaHa, fraction }) => ({
+                class: label,
+                areaHa,
+                percent: Math.round(fraction * 100),
+              })),
+              histogram: histogramForLLM(stats.histogram),
+              ...(typeof when !== "string" ? { composite: compositeForLLM(when, extractCompositeDates(response)) } : {}),
+              ...(drawn ? { drawnArea: true } : {}),
+              cache: getCacheStatus(response),
+              processingUnits,
             };
           } catch (err) {
-            const msg = err instanceof Error ? err.message : "Statistics request failed.";
-            return { error: msg };
+            return toolError(err, "Statistics request failed.");
+          } finally {
+            budget.release();
           }
         },
       }),
-      generateNDVI: tool({
+      getZonalStats: tool({
         description:
-          "Generate an NDVI health map image (PNG) for a bounding box on a given date. Red = low vegetation, green = high. Use when the user wants to see a map.",
+          "Get spectral index statistics for many fields on one date in a single call, returned as a table with one row per field. Use for comparing or monitoring several fields. Pass named bboxes, or set useDrawnFields to use each polygon the user drew on the map as a field.",
+        inputSchema: z.object({
+          fields: z
+            .array(
+              z.object({
+                name: z.string().describe("Field name or id, unique"),
+                bbox: z.array(z.number()).length(4).describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+              })
+            )
+            .max(MAX_ZONAL_FEATURES)
+            .optional()
+            .describe("Fields by bounding box"),
+          useDrawnFields: z
+            .boolean()
+            .optional()
+            .describe("Use the polygons drawn on the map (Field 1, Field 2, …) instead of bboxes"),
+          date: z.string().describe("Date YYYY-MM-DD"),
+          index: indexParam,
+        }),
+        execute: async ({ fields, useDrawnFields, date, index }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            let collection: ZoneFeatureCollection;
+            if (useDrawnFields) {
+              if (!drawnGeometry) return { error: "No area was drawn on the map; ask the user to draw the fields." };
+              const polygons =
+                drawnGeometry.type === "Polygon" ? [drawnGeometry.coordinates] : drawnGeometry.coordinates;
+              collection = parseZoneFeatureCollection({
+                type: "FeatureCollection",
+                features: polygons.map((coordinates, i) => ({
+                  type: "Feature",
+                  properties: { name: `Field ${i + 1}` },
+                  geometry: { type: "Polygon", coordinates },
+                })),
+              });
+            } else {
+              if (!fields?.length) return { error: "Pass fields (name and bbox) or set useDrawnFields." };
+              collection = parseZoneFeatureCollection({
+                type: "FeatureCollection",
+                features: fields.map((field) => ({
+                  type: "Feature",
+                  properties: { name: field.name },
+                  geometry: bboxToPolygon(field.bbox as [number, number, number, number]),
+                })),
+              });
+            }
+            const estimate = estimateZonalStatsUnits(collection, index);
+            budget.check(estimate);
+            const rows = await getZonalStats(collection, date, index);
+            const processingUnits = chargeProcessingUnits(budget, estimate, getCacheStatus(rows));
+            return {
+              index,
+              date,
+              rows: rows.map(({ id, stats, maskedFraction, error }) => ({
+                field: id,
+                mean: stats?.mean,
+                min: stats?.min,
+                max: stats?.max,
+                stDev: stats?.stDev,
+                median: stats?.percentiles?.p50,
+                cloudMaskedPercent: maskedFraction !== undefined ? Math.round(maskedFraction * 100) : undefined,
+                ...(error ? { error } : !stats ? { error: "No clear pixels on this date." } : {}),
+              })),
+              cache: getCacheStatus(rows),
+              processingUnits,
+            };
+          } catch (err) {
+            return toolError(err, "Zonal statistics request failed.");
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      getVegetationTimeSeries: tool({
+        description:
+          "Get a spectral index time series (one stats row per acquisition or interval) for a bounding box across a date range, e.g. a growing season. The chat UI renders it as a line chart.",
         inputSchema: z.object({
           bbox: z
             .array(z.number())
             .length(4)
             .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
-          date: z.string().describe("Date YYYY-MM-DD"),
+          dateRange: z.object({
+            from: z.string().describe("Start date YYYY-MM-DD"),
+            to: z.string().describe("End date YYYY-MM-DD"),
+          }),
+          interval: z
+            .enum(TIME_SERIES_INTERVALS)
+            .default("P1D")
+            .describe("Aggregation interval: P1D = every acquisition, P5D / P10D = 5 / 10-day, P1M = monthly"),
+          index: indexParam,
+          collection: collectionParam,
+        }),
+        execute: async ({ bbox, dateRange, interval, index, collection }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const geometry = drawn ?? bboxToPolygon(aoi);
+            const estimate = estimateTimeSeriesUnits(geometry, dateRange.from, dateRange.to, interval, index);
+            budget.check(estimate);
+            const points = await getVegetationTimeSeries(
+              geometry,
+              dateRange.from,
+              dateRange.to,
+              interval,
+              index,
+              collection
+            );
+            const processingUnits = chargeProcessingUnits(budget, estimate, getCacheStatus(points));
+            if (points.length === 0)
+              return {
+                error: `No valid ${index} observations in this date range (clouds or no overpasses).`,
+                processingUnits,
+              };
+            return {
+              index,
+              interval,
+              ...collectionSource(collection),
+              timeSeries: points.map((p) => ({
+                date: p.date,
+                mean: p.mean,
+                min: p.min,
+                max: p.max,
+                stDev: p.stDev,
+                cloudMaskedPercent:
+                  p.maskedFraction !== undefined ? Math.round(p.maskedFraction * 100) : undefined,
+              })),
+              ...(drawn ? { drawnArea: true } : {}),
+              cache: getCacheStatus(points),
+              processingUnits,
+            };
+          } catch (err) {
+            return toolError(err, "Time series request failed.");
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      getPhenology: tool({
+        description:
+          "Extract crop phenology for a bounding box over a season from a smoothed index time series: start of season (emergence / green-up), peak date and value, end of season (senescence / harvest), season length and integrated index. Use for questions like \"when did this field emerge?\"; call once per season to compare seasons. The chat renders the observed and smoothed curve.",
+        inputSchema: z.object({
+          bbox: z
+            .array(z.number())
+            .length(4)
+            .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+          dateRange: z.object({
+            from: z.string().describe("Start date YYYY-MM-DD, before the season (e.g. early spring)"),
+            to: z.string().describe("End date YYYY-MM-DD, after the season (or today for the current one)"),
+          }),
+          index: indexParam,
+        }),
+        execute: async ({ bbox, dateRange, index }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const geometry = drawn ?? bboxToPolygon(aoi);
+            const estimate = estimateTimeSeriesUnits(geometry, dateRange.from, dateRange.to, PHENOLOGY_INTERVAL, index);
+            budget.check(estimate);
+            const points = await getVegetationTimeSeries(geometry, dateRange.from, dateRange.to, PHENOLOGY_INTERVAL, index);
+            const processingUnits = chargeProcessingUnits(budget, estimate, getCacheStatus(points));
+            const observations = observationsFromTimeSeries(points);
+            if (observations.length < MIN_PHENOLOGY_OBSERVATIONS) {
+              return {
+                error: `Only ${observations.length} clear ${index} observations in this date range; phenology needs at least ${MIN_PHENOLOGY_OBSERVATIONS}. Use a longer range covering the whole season.`,
+                processingUnits,
+              };
+            }
+            const metrics = extractPhenology(observations);
+            const markers = [
+              metrics.startOfSeason && { date: metrics.startOfSeason.date, label: "Start" },
+              { date: metrics.peak.date, label: "Peak" },
+              metrics.endOfSeason && { date: metrics.endOfSeason.date, label: "End" },
+            ].filter((marker) => marker !== undefined);
+            return {
+              index,
+              dateRange,
+              observations: metrics.observations,
+              startOfSeason: phenologyPointForLLM(metrics.startOfSeason),
+              peak: phenologyPointForLLM(metrics.peak),
+              endOfSeason: phenologyPointForLLM(metrics.endOfSeason),
+              seasonLengthDays: metrics.seasonLengthDays,
+              datePrecisionDays: observationDatePrecisionDays(points),
+              integratedIndex: metrics.integratedIndex !== undefined ? round3(metrics.integratedIndex) : undefined,
+              integratedAboveBase:
+                metrics.integratedAboveBase !== undefined ? round3(metrics.integratedAboveBase) : undefined,
+              amplitude: round3(metrics.amplitude),
+              timeSeries: phenologyChartPoints(observations, metrics.smoothed),
+              markers,
+              ...(drawn ? { drawnArea: true } : {}),
+              cache: getCacheStatus(points),
+              processingUnits,
+            };
+          } catch (err) {
+            return toolError(err, "Phenology extraction failed.");
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      getIndexAnomaly: tool({
+        description:
+          "Compare a spectral index for a bounding box with the same calendar window in previous years: the mean of the windowDays days ending on date against each earlier year, as a z-score and percentile. Use before calling a field stressed, poor or unusually good.",
+        inputSchema: z.object({
+          bbox: z
+            .array(z.number())
+            .length(4)
+            .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+          date: z.string().describe("Last day of the window, YYYY-MM-DD (usually the searchScenes date)"),
+          index: indexParam,
+          years: z
+            .number()
+            .int()
+            .min(2)
+            .max(MAX_BASELINE_YEARS)
+            .default(DEFAULT_BASELINE_YEARS)
+            .describe("Previous years in the baseline (default 5)"),
+          windowDays: z
+            .number()
+            .int()
+            .min(5)
+            .max(60)
+            .default(DEFAULT_ANOMALY_WINDOW_DAYS)
+            .describe("Calendar window in days, ending on date (default 15)"),
+        }),
+        execute: async ({ bbox, date, index, years, windowDays }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const geometry = drawn ?? bboxToPolygon(aoi);
+            const estimate = estimateIndexAnomalyUnits(geometry, date, index, years, windowDays);
+            budget.check(estimate);
+            const anomaly = await getIndexAnomaly(geometry, date, index, years, windowDays);
+            return {
+              index,
+              window: { from: anomaly.current.from, to: anomaly.current.to },
+              current: anomaly.current.mean,
+              baselineMean: anomaly.baselineMean,
+              baselineStDev: anomaly.baselineStDev,
+              zScore: anomaly.zScore !== undefined ? Math.round(anomaly.zScore * 100) / 100 : undefined,
+              percentile: anomaly.percentile,
+              relativeToNormal: anomalyLevel(anomaly.zScore),
+              baseline: anomaly.baseline.map(({ year, mean }) => ({ year, mean })),
+              missingYears: anomaly.missingYears,
+              cloudMaskedPercent:
+                anomaly.maskedFraction !== undefined ? Math.round(anomaly.maskedFraction * 100) : undefined,
+              ...(drawn ? { drawnArea: true } : {}),
+              cache: getCacheStatus(anomaly),
+              processingUnits: chargeProcessingUnits(budget, estimate, getCacheStatus(anomaly)),
+            };
+          } catch (err) {
+            return toolError(err, "Anomaly analysis failed.");
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      getRadarStats: tool({
+        description:
+          "Get Sentinel-1 radar statistics for a bounding box on a radar acquisition date: the radar vegetation index (RVI, mean, percentiles, histogram) and mean VV / VH backscatter in dB. Radar sees through clouds; use when searchScenes finds no clear optical image and returns radarFallback.",
+        inputSchema: z.object({
+          bbox: z
+            .array(z.number())
+            .length(4)
+            .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+          date: z.string().describe("Sentinel-1 acquisition date YYYY-MM-DD (from searchScenes radarFallback)"),
         }),
         execute: async ({ bbox, date }) => {
+          const budget = getProcessingUnitBudget(principal);
           try {
-            const width = 512;
-            const height = 512;
-            const buffer = await generateNDVIImage(
-              bbox as [number, number, number, number],
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const geometry = drawn ?? bboxToPolygon(aoi);
+            const estimate = estimateRadarStatsUnits(geometry);
+            budget.check(estimate);
+            const response = await getRadarStats(geometry, date);
+            const processingUnits = chargeProcessingUnits(budget, estimate, getCacheStatus(response));
+            const stats = extractRadarStatsForLLM(response);
+            if (!stats) return { error: `No Sentinel-1 radar data over this area on ${date}.`, processingUnits };
+            return {
+              source: RADAR_SOURCE,
+              index: "RVI",
               date,
-              width,
-              height
+              mean: stats.mean,
+              min: stats.min,
+              max: stats.max,
+              stDev: stats.stDev,
+              percentiles: stats.percentiles,
+              areaHa: stats.validAreaHa,
+              histogram: histogramForLLM(stats.histogram),
+              meanVvDb: stats.meanVvDb,
+              meanVhDb: stats.meanVhDb,
+              note: "RVI measures canopy structure and biomass from radar backscatter, not greenness: about 0.2 over bare soil to 0.8–1 under a closed canopy. Do not compare it with NDVI values.",
+              ...(drawn ? { drawnArea: true } : {}),
+              cache: getCacheStatus(response),
+              processingUnits,
+            };
+          } catch (err) {
+            return toolError(err, "Radar statistics request failed.");
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      generateRadarImage: tool({
+        description:
+          "Generate a Sentinel-1 radar image (PNG) for a bounding box on a radar acquisition date: RVI (default, radar vegetation index), VV or VH backscatter in dB, or false-color (VV, VH and their ratio). Works through clouds; use when no clear optical image exists.",
+        inputSchema: z.object({
+          bbox: z
+            .array(z.number())
+            .length(4)
+            .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+          date: z.string().describe("Sentinel-1 acquisition date YYYY-MM-DD (from searchScenes radarFallback)"),
+          product: z
+            .enum(RADAR_PRODUCTS)
+            .default("RVI")
+            .describe("RVI = vegetation structure (default); VV / VH = backscatter in dB; false-color = VV red, VH green, VV/VH blue"),
+          resolution: resolutionParam,
+          ...imageSizeParams,
+        }),
+        execute: async ({ bbox, date, product, resolution, width, height, format }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const plan = fitImagePlan(budget, aoi, { resolution, width, height, format }, estimateRadarImageUnits);
+            const buffer = await generateRadarImage(aoi, date, plan.width, plan.height, product, format, drawn);
+            const processingUnits = chargeProcessingUnits(budget, plan.units, getCacheStatus(buffer));
+            const ramp = radarImageRamp(product);
+            return {
+              success: true,
+              source: RADAR_SOURCE,
+              product,
+              imageDataUrl: `data:${IMAGE_MIME_TYPES[format]};base64,${Buffer.from(buffer).toString("base64")}`,
+              bbox: aoi,
+              ...(drawn ? { geometry: drawn } : {}),
+              date,
+              ...(ramp ? { legend: radarColorLegend(ramp, RADAR_PRODUCT_TITLES[product]) } : {}),
+              width: plan.width,
+              height: plan.height,
+              resolutionMeters: plan.resolution,
+              message: `${RADAR_PRODUCT_TITLES[product]} radar image generated at ${plan.resolution} m/px${
+                plan.downscaled ? ", downscaled to fit the processing-unit budget or the image size limit" : ""
+              }. Tell the user it is a radar image, not a photo or an optical index map.`,
+              cache: getCacheStatus(buffer),
+              processingUnits,
+            };
+          } catch (err) {
+            return toolError(err, "Radar image generation failed.");
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      generateNDVI: tool({
+        description:
+          "Generate a spectral index map image (PNG) for a bounding box on a given date. Defaults to the NDVI health map (red = low vegetation, green = high); colorRamp and breakpoints change the coloring. Returns the legend. Use when the user wants to see a map.",
+        inputSchema: z.object({
+          bbox: z
+            .array(z.number())
+            .length(4)
+            .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+          date: z.string().describe("Date YYYY-MM-DD (the last day of a composite)"),
+          index: indexParam,
+          collection: collectionParam,
+          resolution: resolutionParam,
+          ...imageSizeParams,
+          ...colorRampParams,
+          ...compositeParams,
+        }),
+        execute: async ({
+          bbox,
+          date,
+          index,
+          collection,
+          resolution,
+          width,
+          height,
+          format,
+          colorRamp,
+          breakpoints,
+          composite,
+          compositeDays,
+        }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            const aoi = bbox as [number, number, number, number];
+            const rampOptions = { ramp: colorRamp, breakpoints };
+            // Resolve first so malformed breakpoints fail before any processing units are spent.
+            const spectralIndex = getSpectralIndex(index);
+            const legend = colorLegend(spectralIndex, resolveColorRamp(spectralIndex, rampOptions));
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const when = acquisitionFor(date, composite, compositeDays);
+            const composited = typeof when === "string" ? undefined : when;
+            const sources =
+              composited && (await compositeDatesForImage(budget, drawn ?? bboxToPolygon(aoi), composited, collection, index));
+            const plan = fitImagePlan(budget, aoi, { resolution, width, height, format }, (w, h) =>
+              estimateIndexImageUnits(w, h, index, composited)
+            );
+            const buffer = await generateNDVIImage(
+              aoi,
+              when,
+              plan.width,
+              plan.height,
+              index,
+              format,
+              rampOptions,
+              drawn,
+              collection
             );
             const base64 = Buffer.from(buffer).toString("base64");
+            const processingUnits = chargeProcessingUnits(budget, plan.units, getCacheStatus(buffer));
             return {
               success: true,
-              imageDataUrl: `data:image/png;base64,${base64}`,
-              message: "NDVI image generated. Describe it to the user or suggest they view it.",
+              index,
+              ...collectionSource(collection),
+              imageDataUrl: `data:${IMAGE_MIME_TYPES[format]};base64,${base64}`,
+              bbox: aoi,
+              ...(drawn ? { geometry: drawn } : {}),
+              date,
+              ...(sources
+                ? { composite: sources.composite }
+                : { geotiffUrl: geotiffUrl(aoi, date, index, plan.width, plan.height, collection) }),
+              legend,
+              width: plan.width,
+              height: plan.height,
+              resolutionMeters: plan.resolution,
+              message: plan.downscaled
+                ? `${index} image generated at ${plan.resolution} m/px, downscaled to fit the processing-unit budget or the image size limit. Describe it to the user or suggest they view it.`
+                : `${index} image generated at ${plan.resolution} m/px. Describe it to the user or suggest they view it.`,
+              cache: getCacheStatus(buffer),
+              processingUnits: { ...processingUnits, consumed: processingUnits.consumed + (sources?.consumed ?? 0) },
             };
           } catch (err) {
-            const msg = err instanceof Error ? err.message : "NDVI image generation failed.";
-            return { error: msg };
+            return toolError(err, `${index} image generation failed.`);
+          } finally {
+            budget.release();
+          }
+        },
+      }),
+      compareDates: tool({
+        description:
+          "Compare a spectral index between two acquisition dates for a bounding box: mean and median on each date and their change, hectares of significant gain and loss, plus before / after maps and a difference map (red = loss, green = gain). Use for questions about what changed between two dates.",
+        inputSchema: z.object({
+          bbox: z
+            .array(z.number())
+            .length(4)
+            .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
+          before: z.string().describe("Earlier acquisition date YYYY-MM-DD (from searchScenes)"),
+          after: z.string().describe("Later acquisition date YYYY-MM-DD (from searchScenes)"),
+          index: indexParam,
+          threshold: z
+            .number()
+            .positive()
+            .max(1)
+            .default(DEFAULT_CHANGE_THRESHOLD)
+            .describe("Index change counted as significant gain or loss (default 0.1)"),
+          resolution: resolutionParam,
+        }),
+        execute: async ({ bbox, before, after, index, threshold, resolution }) => {
+          const budget = getProcessingUnitBudget(principal);
+          try {
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const geometry = drawn ?? bboxToPolygon(aoi);
+            const statsEstimate = estimateDateComparisonUnits(geometry, index);
+            budget.check(statsEstimate);
+            const change = await compareDates(geometry, before, after, index, threshold);
+            const statsUnits = chargeProcessingUnits(budget, statsEstimate, getCacheStatus(change));
+
+            const plan = fitImagePlan(budget, aoi, { resolution, format: "png" }, (w, h) =>
+              2 * estimateIndexImageUnits(w, h, index) + estimateDifferenceImageUnits(w, h, index)
+            );
+            const images = await Promise.all([
+              generateNDVIImage(aoi, before, plan.width, plan.height, index, "png", {}, drawn),
+              generateNDVIImage(aoi, after, plan.width, plan.height, index, "png", {}, drawn),
+              generateDifferenceImage(aoi, before, after, plan.width, plan.height, index, undefined, drawn),
+            ]);
+            const cached = images.every((image) => getCacheStatus(image)?.hit);
+            const imageUnits = chargeProcessingUnits(budget, plan.units, { hit: cached });
+            const [beforeUrl, afterUrl, differenceUrl] = images.map(
+              (image) => `data:${IMAGE_MIME_TYPES.png};base64,${Buffer.from(image).toString("base64")}`
+            );
+            const spectralIndex = getSpectralIndex(index);
+            const { maskedFraction, ...deltas } = change;
+            return {
+              ...deltas,
+              cloudMaskedPercent: maskedFraction !== undefined ? Math.round(maskedFraction * 100) : undefined,
+              images: {
+                before: { date: before, imageUrl: beforeUrl },
+                after: { date: after, imageUrl: afterUrl },
+                difference: { imageUrl: differenceUrl },
+              },
+              legend: colorLegend(spectralIndex, resolveColorRamp(spectralIndex)),
+              changeLegend: colorLegend(spectralIndex, changeColorRamp(), `${index} change`),
+              bbox: aoi,
+              ...(drawn ? { drawnArea: true } : {}),
+              message: `Before, after and difference maps of ${index} are shown to the user at ${plan.resolution} m/px. Summarize the change and where it happened.`,
+              cache: { hit: Boolean(getCacheStatus(change)?.hit) && cached },
+              processingUnits: {
+                consumed: statsUnits.consumed + imageUnits.consumed,
+                budgetRemaining: imageUnits.budgetRemaining,
+              },
+            };
+          } catch (err) {
+            return toolError(err, "Date comparison failed.");
+          } finally {
+            budget.release();
           }
         },
       }),
@@ -180,27 +1146,48 @@ export async function POST(req: Request) {
             .array(z.number())
             .length(4)
             .describe("Bounding box [minLon, minLat, maxLon, maxLat]"),
-          date: z.string().describe("Date YYYY-MM-DD"),
+          date: z.string().describe("Date YYYY-MM-DD (the last day of a composite)"),
+          collection: collectionParam,
+          resolution: resolutionParam,
+          ...imageSizeParams,
+          ...compositeParams,
         }),
-        execute: async ({ bbox, date }) => {
+        execute: async ({ bbox, date, collection, resolution, width, height, format, composite, compositeDays }) => {
+          const budget = getProcessingUnitBudget(principal);
           try {
-            const width = 512;
-            const height = 512;
-            const buffer = await generateTrueColorImage(
-              bbox as [number, number, number, number],
-              date,
-              width,
-              height
+            const aoi = bbox as [number, number, number, number];
+            const drawn = drawnGeometryFor(drawnGeometry, aoi);
+            const when = acquisitionFor(date, composite, compositeDays);
+            const composited = typeof when === "string" ? undefined : when;
+            const sources =
+              composited && (await compositeDatesForImage(budget, drawn ?? bboxToPolygon(aoi), composited, collection));
+            const plan = fitImagePlan(budget, aoi, { resolution, width, height, format }, (w, h) =>
+              estimateTrueColorUnits(w, h, composited)
             );
+            const buffer = await generateTrueColorImage(aoi, when, plan.width, plan.height, format, drawn, collection);
             const base64 = Buffer.from(buffer).toString("base64");
+            const processingUnits = chargeProcessingUnits(budget, plan.units, getCacheStatus(buffer));
             return {
               success: true,
-              imageDataUrl: `data:image/png;base64,${base64}`,
-              message: "True color image generated.",
+              ...collectionSource(collection),
+              imageDataUrl: `data:${IMAGE_MIME_TYPES[format]};base64,${base64}`,
+              bbox: aoi,
+              ...(drawn ? { geometry: drawn } : {}),
+              date,
+              ...(sources ? { composite: sources.composite } : {}),
+              width: plan.width,
+              height: plan.height,
+              resolutionMeters: plan.resolution,
+              message: plan.downscaled
+                ? `True color image generated at ${plan.resolution} m/px, downscaled to fit the processing-unit budget or the image size limit.`
+                : `True color image generated at ${plan.resolution} m/px.`,
+              cache: getCacheStatus(buffer),
+              processingUnits: { ...processingUnits, consumed: processingUnits.consumed + (sources?.consumed ?? 0) },
             };
           } catch (err) {
-            const msg = err instanceof Error ? err.message : "True color image generation failed.";
-            return { error: msg };
+            return toolError(err, "True color image generation failed.");
+          } finally {
+            budget.release();
           }
         },
       }),
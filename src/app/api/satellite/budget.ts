@@ -0,0 +1,29 @@
+/**
+ * Processing-unit budgets of the /api/satellite routes: the same principals and limits as the chat
+ * agent (budget.ts), so calling the routes directly does not bypass them.
+ */
+
+import { budgetPrincipal, getProcessingUnitBudget } from "@/lib/services/budget";
+import { getCacheStatus } from "@/lib/services/result-cache";
+
+/**
+ * Run a Process / Statistical request of about `estimate` PUs for the caller of `request`: reserved
+ * before `run` (BudgetExceededError when it does not fit), charged unless the result came from the
+ * cache, and released if `run` fails.
+ */
+export async function withProcessingUnitBudget<T>(
+  request: Request,
+  estimate: number,
+  run: () => Promise<T>
+): Promise<T> {
+  const budget = getProcessingUnitBudget(budgetPrincipal(request.headers));
+  budget.check(estimate);
+  try {
+    const result = await run();
+    const cached = typeof result === "object" && result !== null && getCacheStatus(result)?.hit;
+    budget.charge(cached ? 0 : estimate, estimate);
+    return result;
+  } finally {
+    budget.release();
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Shared responses of the /api/satellite routes: typed Sentinel Hub errors as HTTP statuses and
+ * result-cache headers.
+ */
+
+import { NextResponse } from "next/server";
+import {
+  AreaTooLargeError,
+  AuthError,
+  BudgetExceededError,
+  InvalidRequestError,
+  NoDataError,
+  QuotaExceededError,
+  RateLimitedError,
+  RequestTimeoutError,
+} from "@/lib/services/errors";
+import type { CacheStatus } from "@/lib/services/result-cache";
+
+/** X-Cache: HIT / MISS for results that went through the result cache. */
+export function cacheHeaders(status: CacheStatus | undefined): Record<string, string> {
+  return status ? { "X-Cache": status.hit ? "HIT" : "MISS" } : {};
+}
+
+/** Map typed Sentinel Hub and validation errors onto HTTP statuses; anything else is a 500. */
+export function errorResponse(err: unknown) {
+  const message = err instanceof Error ? err.message : "Unknown error";
+  if (err instanceof RateLimitedError) {
+    const headers: Record<string, string> = {};
+    if (err.retryAfterSeconds !== undefined) headers["Retry-After"] = String(Math.ceil(err.retryAfterSeconds));
+    return NextResponse.json({ error: message }, { status: 429, headers });
+  }
+  if (err instanceof QuotaExceededError) return NextResponse.json({ error: message }, { status: 402 });
+  if (err instanceof NoDataError) return NextResponse.json({ error: message }, { status: 404 });
+  if (err instanceof AuthError) return NextResponse.json({ error: message }, { status: 502 });
+  if (err instanceof RequestTimeoutError) return NextResponse.json({ error: message }, { status: 504 });
+  if (err instanceof BudgetExceededError) return NextResponse.json({ error: message }, { status: 429 });
+  if (err instanceof InvalidRequestError) return NextResponse.json({ error: message }, { status: 400 });
+  if (err instanceof AreaTooLargeError) {
+    return NextResponse.json({ error: message, suggestedBbox: err.suggestedBbox }, { status: 413 });
+  }
+  return NextResponse.json({ error: message }, { status: 500 });
+}
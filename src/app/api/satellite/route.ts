@@ -9,14 +9,121 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   searchSatelliteImages,
+  listAvailableDates,
   generateNDVIImage,
+  generateIndexGeoTiff,
   getVegetationStats,
-  extractNDVIStatsForLLM,
+  getZonalStats,
+  extractIndexStatsForLLM,
+  parseZoneFeatureCollection,
+  estimateIndexGeoTiffUnits,
+  estimateIndexImageUnits,
+  estimateIndexStatsUnits,
+  estimateSceneSearchUnits,
+  estimateZonalStatsUnits,
+  GEOTIFF_MIME_TYPE,
+  IMAGE_FORMATS,
+  IMAGE_MIME_TYPES,
   type BBox,
-  type GeoJsonPolygon,
+  type ImageFormat,
+  type GeoJsonGeometry,
+  type ZoneFeatureCollection,
 } from "@/lib/services/sentinel";
+import {
+  DEFAULT_OPTICAL_COLLECTION,
+  isOpticalCollectionId,
+  OPTICAL_COLLECTION_IDS,
+  type OpticalCollectionId,
+} from "@/lib/services/collections";
+import { COLOR_RAMP_IDS, resolveColorRamp, type ColorRampId } from "@/lib/services/color-ramps";
+import {
+  getSpectralIndex,
+  isSpectralIndexId,
+  SPECTRAL_INDEX_IDS,
+  type SpectralIndexId,
+} from "@/lib/services/indices";
+import { getCacheStatus } from "@/lib/services/result-cache";
+import {
+  fitSingleRequest,
+  planImage,
+  sizeImage,
+  TARGET_RESOLUTIONS,
+  type ImagePlan,
+} from "@/lib/services/resolution";
+import { withProcessingUnitBudget } from "./budget";
+import { cacheHeaders, errorResponse } from "./responses";
+
+/** Read the optional `index` query param (default NDVI); null when it names an unknown index. */
+function parseIndexParam(searchParams: URLSearchParams): SpectralIndexId | null {
+  const raw = (searchParams.get("index") ?? "NDVI").toUpperCase();
+  return isSpectralIndexId(raw) ? raw : null;
+}
 
-/** GET /api/satellite?action=search&bbox=minLon,minLat,maxLon,maxLat&from=YYYY-MM-DD&to=YYYY-MM-DD */
+/** Read the optional `collection` query param (default Sentinel-2 L2A); null when it is unknown. */
+function parseCollectionParam(searchParams: URLSearchParams): OpticalCollectionId | null {
+  const raw = (searchParams.get("collection") ?? DEFAULT_OPTICAL_COLLECTION).toLowerCase();
+  return isOpticalCollectionId(raw) ? raw : null;
+}
+
+/** Read the optional comma-separated `collections` of a search; null when one is unknown. */
+function parseCollectionsParam(searchParams: URLSearchParams): OpticalCollectionId[] | null {
+  const raw = (searchParams.get("collections") ?? DEFAULT_OPTICAL_COLLECTION).split(",").map((id) => id.trim().toLowerCase());
+  return raw.every(isOpticalCollectionId) ? raw : null;
+}
+
+function isImageFormat(value: string): value is ImageFormat {
+  return (IMAGE_FORMATS as readonly string[]).includes(value);
+}
+
+function isColorRampId(value: string): value is ColorRampId {
+  return (COLOR_RAMP_IDS as readonly string[]).includes(value);
+}
+
+/** Optional image side in px: undefined when absent, null when not an integer in 16..4096. */
+function parseSizeParam(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const px = Number(value);
+  return Number.isInteger(px) && px >= 16 && px <= 4096 ? px : null;
+}
+
+/**
+ * Output size from the query: width and/or height keep the bbox's ground aspect ratio; otherwise
+ * resolution (10 / 20 / 60 m, automatic when omitted) sizes the image. A 400 response when invalid.
+ */
+function parseImageSize(bbox: BBox, searchParams: URLSearchParams): ImagePlan | NextResponse {
+  const width = parseSizeParam(searchParams.get("width"));
+  const height = parseSizeParam(searchParams.get("height"));
+  if (width === null || height === null) {
+    return NextResponse.json({ error: "Invalid width or height (16-4096 px)" }, { status: 400 });
+  }
+  const resolutionStr = searchParams.get("resolution");
+  const resolution = resolutionStr !== null ? Number(resolutionStr) : undefined;
+  if (resolution !== undefined && !(TARGET_RESOLUTIONS as readonly number[]).includes(resolution)) {
+    return NextResponse.json(
+      { error: `Invalid resolution. Supported: ${TARGET_RESOLUTIONS.join(", ")} (m)` },
+      { status: 400 }
+    );
+  }
+  return width !== undefined || height !== undefined
+    ? sizeImage(bbox, width, height)
+    : planImage(bbox, resolution);
+}
+
+function invalidIndexResponse() {
+  return NextResponse.json(
+    { error: `Invalid index. Supported: ${SPECTRAL_INDEX_IDS.join(", ")}` },
+    { status: 400 }
+  );
+}
+
+function invalidCollectionResponse() {
+  return NextResponse.json(
+    { error: `Invalid collection. Supported: ${OPTICAL_COLLECTION_IDS.join(", ")}` },
+    { status: 400 }
+  );
+}
+
+/** GET /api/satellite?action=search&bbox=minLon,minLat,maxLon,maxLat&from=YYYY-MM-DD&to=YYYY-MM-DD[&maxCloud=10][&mode=list] */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const action = searchParams.get("action");
@@ -36,15 +143,27 @@ export async function GET(request: NextRequest) {
       if (bbox.length !== 4 || bbox.some(Number.isNaN)) {
         return NextResponse.json({ error: "Invalid bbox (minLon,minLat,maxLon,maxLat)" }, { status: 400 });
       }
-      const result = await searchSatelliteImages(bbox, { from, to });
+      const collections = parseCollectionsParam(searchParams);
+      if (!collections) return invalidCollectionResponse();
+      if (searchParams.get("mode") === "list") {
+        return NextResponse.json({ dates: await listAvailableDates(bbox, { from, to }, collections) });
+      }
+      const maxCloudStr = searchParams.get("maxCloud");
+      const maxCloudCover = maxCloudStr !== null ? Number(maxCloudStr) : undefined;
+      if (maxCloudCover !== undefined && (Number.isNaN(maxCloudCover) || maxCloudCover < 0 || maxCloudCover > 100)) {
+        return NextResponse.json({ error: "Invalid maxCloud (0-100)" }, { status: 400 });
+      }
+      const result = await withProcessingUnitBudget(
+        request,
+        estimateSceneSearchUnits(bbox, { from, to }, collections),
+        () => searchSatelliteImages(bbox, { from, to }, { maxCloudCover, collections })
+      );
       return NextResponse.json(result ?? { message: "No suitable image found" });
     }
 
     if (action === "ndvi-image") {
       const bboxStr = searchParams.get("bbox");
       const date = searchParams.get("date");
-      const width = Math.min(1024, Math.max(64, parseInt(searchParams.get("width") ?? "512", 10) || 512));
-      const height = Math.min(1024, Math.max(64, parseInt(searchParams.get("height") ?? "512", 10) || 512));
       if (!bboxStr || !date) {
         return NextResponse.json(
           { error: "Missing bbox or date for ndvi-image" },
@@ -55,9 +174,77 @@ export async function GET(request: NextRequest) {
       if (bbox.length !== 4 || bbox.some(Number.isNaN)) {
         return NextResponse.json({ error: "Invalid bbox" }, { status: 400 });
       }
-      const buffer = await generateNDVIImage(bbox, date, width, height);
+      const index = parseIndexParam(searchParams);
+      if (!index) return invalidIndexResponse();
+      const collection = parseCollectionParam(searchParams);
+      if (!collection) return invalidCollectionResponse();
+      const format = (searchParams.get("format") ?? "png").toLowerCase();
+      if (!isImageFormat(format)) {
+        return NextResponse.json(
+          { error: `Invalid format. Supported: ${IMAGE_FORMATS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      const ramp = searchParams.get("ramp") ?? undefined;
+      if (ramp !== undefined && !isColorRampId(ramp)) {
+        return NextResponse.json(
+          { error: `Invalid ramp. Supported: ${COLOR_RAMP_IDS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      const breakpointsStr = searchParams.get("breakpoints");
+      const colorRamp = { ramp, breakpoints: breakpointsStr ? breakpointsStr.split(",").map(Number) : undefined };
+      try {
+        resolveColorRamp(getSpectralIndex(index), colorRamp);
+      } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : "Invalid breakpoints" }, { status: 400 });
+      }
+      const size = parseImageSize(bbox, searchParams);
+      if (size instanceof NextResponse) return size;
+      const buffer = await withProcessingUnitBudget(
+        request,
+        estimateIndexImageUnits(size.width, size.height, index),
+        () => generateNDVIImage(bbox, date, size.width, size.height, index, format, colorRamp, undefined, collection)
+      );
+      return new NextResponse(buffer, {
+        headers: {
+          "Content-Type": IMAGE_MIME_TYPES[format],
+          "X-Image-Size": `${size.width}x${size.height}`,
+          ...cacheHeaders(getCacheStatus(buffer)),
+        },
+      });
+    }
+
+    if (action === "geotiff") {
+      const bboxStr = searchParams.get("bbox");
+      const date = searchParams.get("date");
+      if (!bboxStr || !date) {
+        return NextResponse.json({ error: "Missing bbox or date for geotiff" }, { status: 400 });
+      }
+      const bbox = bboxStr.split(",").map(Number) as BBox;
+      if (bbox.length !== 4 || bbox.some(Number.isNaN)) {
+        return NextResponse.json({ error: "Invalid bbox" }, { status: 400 });
+      }
+      const index = parseIndexParam(searchParams);
+      if (!index) return invalidIndexResponse();
+      const collection = parseCollectionParam(searchParams);
+      if (!collection) return invalidCollectionResponse();
+      const planned = parseImageSize(bbox, searchParams);
+      if (planned instanceof NextResponse) return planned;
+      // GeoTIFFs are not stitched: larger sizes are coarsened to one Process API request.
+      const size = fitSingleRequest(bbox, planned);
+      const buffer = await withProcessingUnitBudget(
+        request,
+        estimateIndexGeoTiffUnits(size.width, size.height, index),
+        () => generateIndexGeoTiff(bbox, date, size.width, size.height, index, collection)
+      );
       return new NextResponse(buffer, {
-        headers: { "Content-Type": "image/png" },
+        headers: {
+          "Content-Type": GEOTIFF_MIME_TYPE,
+          "Content-Disposition": `attachment; filename="${index.toLowerCase()}_${date}.tif"`,
+          "X-Image-Size": `${size.width}x${size.height}`,
+          ...cacheHeaders(getCacheStatus(buffer)),
+        },
       });
     }
 
@@ -70,22 +257,39 @@ export async function GET(request: NextRequest) {
           { status: 400 }
         );
       }
-      let geometry: GeoJsonPolygon;
+      let geometry: GeoJsonGeometry;
       try {
-        geometry = JSON.parse(geometryStr) as GeoJsonPolygon;
+        geometry = JSON.parse(geometryStr) as GeoJsonGeometry;
       } catch {
         return NextResponse.json({ error: "Invalid geometry JSON" }, { status: 400 });
       }
-      if (geometry?.type !== "Polygon" || !Array.isArray(geometry?.coordinates)) {
-        return NextResponse.json({ error: "geometry must be a GeoJSON Polygon" }, { status: 400 });
+      if (
+        (geometry?.type !== "Polygon" && geometry?.type !== "MultiPolygon") ||
+        !Array.isArray(geometry?.coordinates)
+      ) {
+        return NextResponse.json(
+          { error: "geometry must be a GeoJSON Polygon or MultiPolygon" },
+          { status: 400 }
+        );
       }
-      const response = await getVegetationStats(geometry, date);
-      const stats = extractNDVIStatsForLLM(response);
+      const index = parseIndexParam(searchParams);
+      if (!index) return invalidIndexResponse();
+      const collection = parseCollectionParam(searchParams);
+      if (!collection) return invalidCollectionResponse();
+      const response = await withProcessingUnitBudget(request, estimateIndexStatsUnits(geometry, index), () =>
+        getVegetationStats(geometry, date, index, collection)
+      );
+      const stats = extractIndexStatsForLLM(response, index);
       return NextResponse.json({
         raw: response,
+        index,
+        collection,
+        stats,
+        // Deprecated alias of `stats` for clients written before `index` existed.
         ndviStats: stats,
+        cache: getCacheStatus(response),
         forLLM: stats
-          ? `Mean NDVI: ${stats.mean.toFixed(3)}, Min: ${stats.min.toFixed(3)}, Max: ${stats.max.toFixed(3)}, StdDev: ${stats.stDev.toFixed(3)}. ${stats.mean < 0.3 ? "Low vegetation index may indicate stress or drought." : stats.mean > 0.6 ? "Healthy vegetation." : "Moderate vegetation cover."}`
+          ? `Mean ${index}: ${stats.mean.toFixed(3)}, Min: ${stats.min.toFixed(3)}, Max: ${stats.max.toFixed(3)}, StdDev: ${stats.stDev.toFixed(3)}.${stats.maskedFraction !== undefined ? ` Cloud/shadow/snow masked: ${Math.round(stats.maskedFraction * 100)}%.` : ""}${stats.percentiles ? ` Median: ${stats.percentiles.p50.toFixed(3)} (p10 ${stats.percentiles.p10.toFixed(3)}, p90 ${stats.percentiles.p90.toFixed(3)}).` : ""}${stats.classAreas ? ` ${stats.classAreas.map((c) => `${c.label}: ${c.areaHa} ha`).join(", ")}.` : ""}${index === "NDVI" ? ` ${stats.mean < 0.3 ? "Low vegetation index may indicate stress or drought." : stats.mean > 0.6 ? "Healthy vegetation." : "Moderate vegetation cover."}` : ""}`
           : null,
       });
     }
@@ -93,15 +297,56 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(
       {
         usage: {
-          search: "GET ?action=search&bbox=minLon,minLat,maxLon,maxLat&from=YYYY-MM-DD&to=YYYY-MM-DD",
-          ndviImage: "GET ?action=ndvi-image&bbox=...&date=YYYY-MM-DD&width=512&height=512",
-          stats: "GET ?action=stats&geometry=<GeoJSON Polygon string>&date=YYYY-MM-DD",
+          search: "GET ?action=search&bbox=minLon,minLat,maxLon,maxLat&from=YYYY-MM-DD&to=YYYY-MM-DD&maxCloud=10",
+          searchList: "GET ?action=search&bbox=...&from=YYYY-MM-DD&to=YYYY-MM-DD&mode=list",
+          searchAcrossSensors: `GET ?action=search&bbox=...&from=YYYY-MM-DD&to=YYYY-MM-DD&collections=${OPTICAL_COLLECTION_IDS.join(",")}`,
+          ndviImage: "GET ?action=ndvi-image&bbox=...&date=YYYY-MM-DD[&width=1024][&height=...]&index=NDVI&format=png|jpeg|webp",
+          ndviImageWithRamp: `GET ?action=ndvi-image&bbox=...&date=YYYY-MM-DD&ramp=${COLOR_RAMP_IDS.join("|")}[&breakpoints=0.2,0.4,0.6,0.8]`,
+          ndviImageAtResolution: "GET ?action=ndvi-image&bbox=...&date=YYYY-MM-DD&resolution=10|20|60&index=NDVI",
+          geotiff: "GET ?action=geotiff&bbox=...&date=YYYY-MM-DD&index=NDVI[&resolution=10|20|60] (FLOAT32, EPSG:4326)",
+          stats: "GET ?action=stats&geometry=<GeoJSON Polygon or MultiPolygon string>&date=YYYY-MM-DD&index=NDVI",
+          otherCollection: `ndvi-image, geotiff and stats accept &collection=${OPTICAL_COLLECTION_IDS.join("|")} (default ${DEFAULT_OPTICAL_COLLECTION})`,
+          zonalStats: "POST ?action=zonal-stats&date=YYYY-MM-DD&index=NDVI with a GeoJSON FeatureCollection body",
         },
       },
       { status: 200 }
     );
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(err);
+  }
+}
+
+/** POST /api/satellite?action=zonal-stats&date=YYYY-MM-DD[&index=NDVI], body: GeoJSON FeatureCollection */
+export async function POST(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const action = searchParams.get("action");
+  if (action !== "zonal-stats") {
+    return NextResponse.json(
+      { usage: { zonalStats: "POST ?action=zonal-stats&date=YYYY-MM-DD&index=NDVI with a GeoJSON FeatureCollection body" } },
+      { status: 400 }
+    );
+  }
+  const date = searchParams.get("date");
+  if (!date) return NextResponse.json({ error: "Missing date for zonal-stats" }, { status: 400 });
+  const index = parseIndexParam(searchParams);
+  if (!index) return invalidIndexResponse();
+  let collection: ZoneFeatureCollection;
+  try {
+    collection = parseZoneFeatureCollection(await request.json());
+  } catch (err) {
+    const message = err instanceof SyntaxError ? "Invalid JSON body" : err instanceof Error ? err.message : "Invalid body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const rows = await withProcessingUnitBudget(request, estimateZonalStatsUnits(collection, index), () =>
+      getZonalStats(collection, date, index)
+    );
+    return NextResponse.json(
+      { index, date, rows, cache: getCacheStatus(rows) },
+      { headers: cacheHeaders(getCacheStatus(rows)) }
+    );
+  } catch (err) {
+    return errorResponse(err);
   }
 }
@@ -0,0 +1,75 @@
+/**
+ * XYZ map tiles – GET /api/satellite/tiles/{layer}/{date}/{z}/{x}/{y}.png[?lookback=30]
+ * 256 px Web Mercator PNG tiles of a spectral index map (NDVI, NDMI, …) or the true color view
+ * (`true-color`) for Leaflet overlays. `lookback` mosaics the least cloudy acquisition in that
+ * many days up to `date`. Tiles of settled dates are cacheable for a year, recent ones briefly.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  estimateMapTileUnits,
+  generateMapTile,
+  IMAGE_MIME_TYPES,
+  MAX_MAP_TILE_LOOKBACK_DAYS,
+  TRUE_COLOR_LAYER,
+  type MapTileLayer,
+} from "@/lib/services/sentinel";
+import { isSpectralIndexId, SPECTRAL_INDEX_IDS } from "@/lib/services/indices";
+import { getCacheStatus, resultTtlMs } from "@/lib/services/result-cache";
+import { isValidMapTile, MAX_MAP_TILE_ZOOM, MIN_MAP_TILE_ZOOM } from "@/lib/services/web-mercator";
+import { withProcessingUnitBudget } from "@/app/api/satellite/budget";
+import { cacheHeaders, errorResponse } from "@/app/api/satellite/responses";
+
+type TileParams = { layer: string; date: string; z: string; x: string; y: string };
+
+function parseLayer(value: string): MapTileLayer | null {
+  const upper = value.toUpperCase();
+  if (upper === TRUE_COLOR_LAYER) return TRUE_COLOR_LAYER;
+  return isSpectralIndexId(upper) ? upper : null;
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<TileParams> }) {
+  const { layer: layerParam, date, z: zParam, x: xParam, y: yParam } = await params;
+  const layer = parseLayer(layerParam);
+  if (!layer) {
+    return NextResponse.json(
+      { error: `Invalid layer. Supported: ${["true-color", ...SPECTRAL_INDEX_IDS].join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+    return NextResponse.json({ error: "Invalid date (YYYY-MM-DD)" }, { status: 400 });
+  }
+  const match = yParam.match(/^(\d+)\.png$/);
+  const [z, x, y] = [Number(zParam), Number(xParam), match ? Number(match[1]) : NaN];
+  if (!isValidMapTile(z, x, y)) {
+    return NextResponse.json(
+      { error: `Invalid tile; zoom must be ${MIN_MAP_TILE_ZOOM}-${MAX_MAP_TILE_ZOOM} and the path end in {y}.png` },
+      { status: 400 }
+    );
+  }
+  const lookbackStr = request.nextUrl.searchParams.get("lookback");
+  const lookback = lookbackStr !== null ? Number(lookbackStr) : 1;
+  if (!(Number.isInteger(lookback) && lookback >= 1 && lookback <= MAX_MAP_TILE_LOOKBACK_DAYS)) {
+    return NextResponse.json(
+      { error: `Invalid lookback (1-${MAX_MAP_TILE_LOOKBACK_DAYS} days)` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tile = await withProcessingUnitBudget(request, estimateMapTileUnits(layer), () =>
+      generateMapTile(layer, date, z, x, y, lookback)
+    );
+    const maxAge = Math.round(resultTtlMs(`${date}T23:59:59Z`) / 1000);
+    return new NextResponse(tile, {
+      headers: {
+        "Content-Type": IMAGE_MIME_TYPES.png,
+        "Cache-Control": `public, max-age=${maxAge}`,
+        ...cacheHeaders(getCacheStatus(tile)),
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
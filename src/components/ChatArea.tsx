@@ -4,23 +4,43 @@ import { useState, useRef, useEffect } from "react";
 import dynamic from "next/dynamic";
 import { DefaultChatTransport } from "ai";
 import { useChat } from "@ai-sdk/react";
-import { ArrowUp, MapPin, X } from "lucide-react";
+import { ArrowUp, Download, Layers, MapPin, X } from "lucide-react";
 import { OrbitalPattern } from "./OrbitalPattern";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { BBox } from "./MapSelector";
+import { ColorLegendStrip, type ColorLegendStripProps } from "./ColorLegendStrip";
+import { DateComparisonView, type DateComparisonImages } from "./DateComparisonView";
+import { SceneDateList, type SceneDateListItem } from "./SceneDateList";
+import { TimeSeriesChart, type TimeSeriesChartMarker, type TimeSeriesChartPoint } from "./TimeSeriesChart";
+import type { MapImageLayer } from "./ImageMapPanel";
+import type { BBox, DrawnGeometry, MapSelection } from "./MapSelector";
 
 const MapSelector = dynamic(
   () => import("./MapSelector").then((m) => m.MapSelector),
   { ssr: false }
 );
 
+const ImageMapPanel = dynamic(
+  () => import("./ImageMapPanel").then((m) => m.ImageMapPanel),
+  { ssr: false }
+);
+
+/** Default opacity of images added to the map panel. */
+const MAP_IMAGE_OPACITY = 0.8;
+
 /** Friendly labels for tool calls (shown while agent is "thinking"). */
 const TOOL_LABELS: Record<string, (args: Record<string, unknown>) => string> = {
   lookupLocation: (args) => `📍 Locating ${String(args?.query ?? "...")}…`,
   searchScenes: () => "🛰️ Searching satellite catalog…",
-  getVegetationStats: () => "📊 Computing vegetation stats…",
-  generateNDVI: () => "🖼️ Generating NDVI image…",
+  getVegetationStats: (args) => `📊 Computing ${String(args?.index ?? "NDVI")} stats…`,
+  getZonalStats: (args) => `📊 Computing ${String(args?.index ?? "NDVI")} stats per field…`,
+  getVegetationTimeSeries: (args) => `📈 Building ${String(args?.index ?? "NDVI")} time series…`,
+  getIndexAnomaly: (args) => `📉 Comparing ${String(args?.index ?? "NDVI")} with previous years…`,
+  getPhenology: (args) => `🌱 Extracting ${String(args?.index ?? "NDVI")} season metrics…`,
+  generateNDVI: (args) => `🖼️ Generating ${String(args?.index ?? "NDVI")} image…`,
   generateTrueColor: () => "📸 Generating true color satellite photo…",
+  getRadarStats: () => "📡 Computing Sentinel-1 radar stats…",
+  generateRadarImage: (args) => `📡 Generating radar ${String(args?.product ?? "RVI")} image…`,
+  compareDates: (args) => `🔀 Comparing ${String(args?.index ?? "NDVI")} between dates…`,
 };
 
 /** Get display text from a UI message (v6 parts-based). */
@@ -64,6 +84,10 @@ export function ChatArea() {
   const [isMapSelectionMode, setIsMapSelectionMode] = useState(false);
   const [input, setInput] = useState("");
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [mapImageLayers, setMapImageLayers] = useState<MapImageLayer[]>([]);
+  const [isImageMapOpen, setIsImageMapOpen] = useState(false);
+  /** Last polygon drawn on the map; sent with each message until cleared or redrawn. */
+  const [drawnArea, setDrawnArea] = useState<MapSelection | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const blobUrlsRef = useRef<string[]>([]);
@@ -79,8 +103,9 @@ export function ChatArea() {
   const isLoading = status === "streaming" || status === "submitted";
   const activeToolStatus = getActiveToolStatus(messages);
 
-  function handleMapConfirm(bbox: BBox) {
-    setInput(bbox.join(","));
+  function handleMapConfirm(selection: MapSelection) {
+    setInput(selection.bbox.join(","));
+    setDrawnArea(selection);
     setIsMapSelectionMode(false);
   }
 
@@ -88,6 +113,16 @@ export function ChatArea() {
     setIsMapSelectionMode(false);
   }
 
+  /** Add an image result to the map panel (once) and open the panel. */
+  function showImageOnMap(layer: Omit<MapImageLayer, "visible" | "opacity">) {
+    setMapImageLayers((layers) =>
+      layers.some((l) => l.id === layer.id)
+        ? layers.map((l) => (l.id === layer.id ? { ...l, visible: true } : l))
+        : [...layers, { ...layer, visible: true, opacity: MAP_IMAGE_OPACITY }]
+    );
+    setIsImageMapOpen(true);
+  }
+
   useEffect(() => {
     return () => {
       blobUrlsRef.current.forEach(URL.revokeObjectURL);
@@ -116,7 +151,7 @@ export function ChatArea() {
     const text = input.trim();
     if (!text || isLoading) return;
     setInput("");
-    sendMessage({ text });
+    sendMessage({ text }, drawnArea ? { body: { drawnArea } } : undefined);
   }
 
   return (
@@ -154,6 +189,12 @@ export function ChatArea() {
 
       {isMapSelectionMode ? (
         <MapSelector onConfirm={handleMapConfirm} onCancel={handleMapCancel} />
+      ) : isImageMapOpen ? (
+        <ImageMapPanel
+          layers={mapImageLayers}
+          onChange={setMapImageLayers}
+          onClose={() => setIsImageMapOpen(false)}
+        />
       ) : (
         <>
           <OrbitalPattern />
@@ -210,30 +251,125 @@ export function ChatArea() {
                             if (inv.state === "output-available" && inv.output) {
                               if ((inv.output as { imageDataUrl?: string }).imageDataUrl) {
                                 const dataUrl = (inv.output as { imageDataUrl: string }).imageDataUrl;
+                                const { geotiffUrl, bbox, geometry, date, index, product, source, legend, composite } =
+                                  inv.output as {
+                                    geotiffUrl?: string;
+                                    legend?: ColorLegendStripProps;
+                                    bbox?: BBox;
+                                    geometry?: DrawnGeometry;
+                                    date?: string;
+                                    index?: string;
+                                    /** Radar images: product and source label. */
+                                    product?: string;
+                                    source?: string;
+                                    composite?: { mode: string; from: string; to: string; dates: Array<{ date: string }> };
+                                  };
                                 return (
-                                  <div
-                                    key={toolId}
-                                    className="overflow-hidden rounded-xl border border-border/50 max-w-[512px] w-fit cursor-pointer"
-                                    role="button"
-                                    tabIndex={0}
-                                    onClick={() => setSelectedImage(dataUrl)}
-                                    onKeyDown={(e) => {
-                                      if (e.key === "Enter" || e.key === " ") {
-                                        e.preventDefault();
-                                        setSelectedImage(dataUrl);
-                                      }
-                                    }}
-                                    aria-label="View NDVI map full screen"
-                                  >
-                                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                                    <img
-                                      src={dataUrl}
-                                      alt="NDVI map"
-                                      className="max-w-full h-auto block"
-                                    />
+                                  <div key={toolId} className="space-y-1.5">
+                                    <div
+                                      className="overflow-hidden rounded-xl border border-border/50 max-w-[512px] w-fit cursor-pointer"
+                                      role="button"
+                                      tabIndex={0}
+                                      onClick={() => setSelectedImage(dataUrl)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter" || e.key === " ") {
+                                          e.preventDefault();
+                                          setSelectedImage(dataUrl);
+                                        }
+                                      }}
+                                      aria-label="View NDVI map full screen"
+                                    >
+                                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                                      <img
+                                        src={dataUrl}
+                                        alt="NDVI map"
+                                        className="max-w-full h-auto block"
+                                      />
+                                    </div>
+                                    {legend ? <ColorLegendStrip {...legend} /> : null}
+                                    {source ? (
+                                      <p className="text-[11px] text-muted-foreground">
+                                        {source} · {date}
+                                      </p>
+                                    ) : null}
+                                    {composite ? (
+                                      <p className="text-[11px] text-muted-foreground">
+                                        {composite.mode} composite {composite.from} → {composite.to}
+                                        {composite.dates.length > 0
+                                          ? ` · from ${composite.dates.map((d) => d.date).join(", ")}`
+                                          : ""}
+                                      </p>
+                                    ) : null}
+                                    <div className="flex items-center gap-4">
+                                      {bbox ? (
+                                        <button
+                                          type="button"
+                                          onClick={() =>
+                                            showImageOnMap({
+                                              id: toolId,
+                                              label: index ?? (product ? `Radar ${product}` : "True color"),
+                                              date: composite ? `${composite.from} – ${composite.to}` : date,
+                                              imageUrl: dataUrl,
+                                              bbox,
+                                              outline: geometry,
+                                            })
+                                          }
+                                          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+                                        >
+                                          <Layers className="h-3.5 w-3.5" />
+                                          Show on map
+                                        </button>
+                                      ) : null}
+                                      {geotiffUrl ? (
+                                        <a
+                                          href={geotiffUrl}
+                                          download
+                                          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+                                        >
+                                          <Download className="h-3.5 w-3.5" />
+                                          Download GeoTIFF
+                                        </a>
+                                      ) : null}
+                                    </div>
                                   </div>
                                 );
                               }
+                              const { timeSeries: series, markers } = inv.output as {
+                                timeSeries?: TimeSeriesChartPoint[];
+                                markers?: TimeSeriesChartMarker[];
+                              };
+                              if (Array.isArray(series) && series.length > 0) {
+                                return (
+                                  <TimeSeriesChart
+                                    key={toolId}
+                                    index={String((inv.output as { index?: string }).index ?? "NDVI")}
+                                    points={series}
+                                    markers={markers}
+                                  />
+                                );
+                              }
+                              const comparison = inv.output as {
+                                index?: string;
+                                images?: DateComparisonImages;
+                                legend?: ColorLegendStripProps;
+                                changeLegend?: ColorLegendStripProps;
+                              };
+                              if (comparison.images?.difference) {
+                                return (
+                                  <DateComparisonView
+                                    key={toolId}
+                                    index={comparison.index ?? "NDVI"}
+                                    {...comparison.images}
+                                    legend={comparison.legend}
+                                    changeLegend={comparison.changeLegend}
+                                    onSelectImage={setSelectedImage}
+                                  />
+                                );
+                              }
+                              const availableDates = (inv.output as { availableDates?: SceneDateListItem[] }).availableDates;
+                              if (Array.isArray(availableDates) && availableDates.length > 0) {
+                                return <SceneDateList key={toolId} dates={availableDates} />;
+                              }
                             }
                             // Tool errors are not rendered; the LLM explains them in its text response.
                             return null;
@@ -257,6 +393,24 @@ export function ChatArea() {
           </ScrollArea>
 
           <div className="relative z-10 pb-6 px-4 shrink-0">
+            {drawnArea && (
+              <div className="max-w-[768px] mx-auto w-full mb-2 flex">
+                <span className="inline-flex items-center gap-1.5 rounded-full border border-border bg-background/95 px-3 py-1 text-xs text-muted-foreground">
+                  <MapPin className="h-3.5 w-3.5" />
+                  {drawnArea.geometry.type === "MultiPolygon"
+                    ? `${drawnArea.geometry.coordinates.length} drawn fields attached`
+                    : "Drawn field attached"}
+                  <button
+                    type="button"
+                    onClick={() => setDrawnArea(null)}
+                    className="hover:text-foreground"
+                    aria-label="Detach drawn area"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              </div>
+            )}
             <form
               onSubmit={handleSubmit}
               className="max-w-[768px] mx-auto w-full flex items-end gap-2 bg-background/95 border border-border rounded-2xl px-4 pt-3 pb-2 shadow-lg backdrop-blur supports-[backdrop-filter]:bg-background/80"
@@ -271,6 +425,17 @@ export function ChatArea() {
               >
                 <MapPin size={18} />
               </button>
+              {mapImageLayers.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setIsImageMapOpen(true)}
+                  className="shrink-0 flex h-9 w-9 items-center justify-center rounded-full text-muted-foreground hover:bg-muted hover:text-foreground transition-colors mb-0.5"
+                  aria-label="Open image map"
+                  title="Open image map"
+                >
+                  <Layers size={18} />
+                </button>
+              )}
               <textarea
                 ref={textareaRef}
                 rows={1}
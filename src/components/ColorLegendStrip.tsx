@@ -0,0 +1,55 @@
+"use client";
+
+export interface ColorLegendStripEntry {
+  color: string;
+  label: string;
+  value?: number;
+}
+
+export interface ColorLegendStripProps {
+  title: string;
+  kind: "classed" | "continuous";
+  /** Low to high. */
+  entries: ColorLegendStripEntry[];
+  masked?: ColorLegendStripEntry;
+}
+
+/** Titled legend under an index image: a gradient bar for continuous ramps, swatches for classes. */
+export function ColorLegendStrip({ title, kind, entries, masked }: ColorLegendStripProps) {
+  if (entries.length === 0) return null;
+  return (
+    <div className="max-w-[512px] w-full space-y-1.5">
+      <p className="text-[11px] font-medium text-foreground">{title}</p>
+      {kind === "continuous" ? (
+        <div>
+          <div
+            className="h-2.5 w-full rounded-sm"
+            style={{ background: `linear-gradient(to right, ${entries.map((e) => e.color).join(", ")})` }}
+            role="img"
+            aria-label={`Color scale from ${entries[0].label} to ${entries[entries.length - 1].label}`}
+          />
+          <div className="mt-0.5 flex justify-between text-[11px] text-muted-foreground">
+            {entries.map((e) => (
+              <span key={e.label}>{e.label}</span>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <ul className="flex flex-wrap gap-x-3 gap-y-1">
+          {entries.map((e) => (
+            <li key={e.label} className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+              <span className="h-2.5 w-2.5 shrink-0 rounded-sm" style={{ background: e.color }} />
+              {e.label}
+            </li>
+          ))}
+        </ul>
+      )}
+      {masked ? (
+        <p className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+          <span className="h-2.5 w-2.5 shrink-0 rounded-sm" style={{ background: masked.color }} />
+          {masked.label}
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { ColorLegendStrip, type ColorLegendStripProps } from "./ColorLegendStrip";
+
+export interface DateComparisonImages {
+  before: { date: string; imageUrl: string };
+  after: { date: string; imageUrl: string };
+  /** after − before on the diverging change ramp. */
+  difference: { imageUrl: string };
+}
+
+export interface DateComparisonViewProps extends DateComparisonImages {
+  index: string;
+  legend?: ColorLegendStripProps;
+  changeLegend?: ColorLegendStripProps;
+  onSelectImage: (imageUrl: string) => void;
+}
+
+function ComparisonImage({
+  imageUrl,
+  caption,
+  onSelect,
+}: {
+  imageUrl: string;
+  caption: string;
+  onSelect: (imageUrl: string) => void;
+}) {
+  return (
+    <figure className="space-y-1">
+      <button
+        type="button"
+        onClick={() => onSelect(imageUrl)}
+        className="block overflow-hidden rounded-xl border border-border/50 w-full"
+        aria-label={`View ${caption} full screen`}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={imageUrl} alt={caption} className="w-full h-auto block" />
+      </button>
+      <figcaption className="text-[11px] text-muted-foreground">{caption}</figcaption>
+    </figure>
+  );
+}
+
+/** Before / after index maps side by side, with the difference map and its legend below (compareDates). */
+export function DateComparisonView({
+  index,
+  before,
+  after,
+  difference,
+  legend,
+  changeLegend,
+  onSelectImage,
+}: DateComparisonViewProps) {
+  return (
+    <div className="max-w-[512px] w-full space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <ComparisonImage imageUrl={before.imageUrl} caption={`${index} · ${before.date}`} onSelect={onSelectImage} />
+        <ComparisonImage imageUrl={after.imageUrl} caption={`${index} · ${after.date}`} onSelect={onSelectImage} />
+      </div>
+      {legend ? <ColorLegendStrip {...legend} /> : null}
+      <ComparisonImage
+        imageUrl={difference.imageUrl}
+        caption={`${index} change ${before.date} → ${after.date}`}
+        onSelect={onSelectImage}
+      />
+      {changeLegend ? <ColorLegendStrip {...changeLegend} /> : null}
+    </div>
+  );
+}
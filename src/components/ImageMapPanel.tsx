@@ -0,0 +1,174 @@
+"use client";
+
+import { useRef, useEffect } from "react";
+import L from "leaflet";
+import { X } from "lucide-react";
+import "leaflet/dist/leaflet.css";
+import type { BBox, DrawnGeometry } from "./MapSelector";
+
+const CARTO_DARK =
+  "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png";
+const CARTO_ATTR =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> &copy; <a href="https://carto.com/attributions">CARTO</a>';
+
+const AOI_OUTLINE_STYLE: L.PolylineOptions = {
+  color: "#f8fafc",
+  weight: 2,
+  dashArray: "6 4",
+  fill: false,
+};
+
+/** A generated image placed on the map by its bbox. */
+export interface MapImageLayer {
+  /** Tool call id of the result. */
+  id: string;
+  label: string;
+  date?: string;
+  imageUrl: string;
+  bbox: BBox;
+  /** Drawn polygon the image is clipped to; outlined instead of the bbox. */
+  outline?: DrawnGeometry;
+  visible: boolean;
+  /** 0..1 */
+  opacity: number;
+}
+
+export interface ImageMapPanelProps {
+  layers: MapImageLayer[];
+  onChange: (layers: MapImageLayer[]) => void;
+  onClose: () => void;
+}
+
+function boundsOf(bbox: BBox): L.LatLngBoundsExpression {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  return [
+    [minLat, minLon],
+    [maxLat, maxLon],
+  ];
+}
+
+/**
+ * Leaflet panel showing generated images georeferenced on the basemap, each with its AOI outline.
+ * Layers stack in the order they were added; each can be toggled, faded or removed.
+ */
+export function ImageMapPanel({ layers, onChange, onClose }: ImageMapPanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const overlaysRef = useRef(new Map<string, { image: L.ImageOverlay; outline: L.Path | L.GeoJSON }>());
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const map = L.map(el).setView([52.52, 13.405], 10);
+    mapRef.current = map;
+    L.tileLayer(CARTO_DARK, { attribution: CARTO_ATTR }).addTo(map);
+    const overlays = overlaysRef.current;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      overlays.clear();
+    };
+  }, []);
+
+  // Keep Leaflet overlays in sync with `layers`; zoom to layers that were just added.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const overlays = overlaysRef.current;
+    const ids = new Set(layers.map((l) => l.id));
+    for (const [id, overlay] of overlays) {
+      if (ids.has(id)) continue;
+      overlay.image.remove();
+      overlay.outline.remove();
+      overlays.delete(id);
+    }
+    let added: MapImageLayer | undefined;
+    for (const layer of layers) {
+      let overlay = overlays.get(layer.id);
+      if (!overlay) {
+        overlay = {
+          image: L.imageOverlay(layer.imageUrl, boundsOf(layer.bbox)),
+          outline: layer.outline
+            ? L.geoJSON(layer.outline, { style: AOI_OUTLINE_STYLE })
+            : L.rectangle(boundsOf(layer.bbox), AOI_OUTLINE_STYLE),
+        };
+        overlays.set(layer.id, overlay);
+        added = layer;
+      }
+      overlay.image.setOpacity(layer.opacity);
+      if (layer.visible) {
+        overlay.image.addTo(map).bringToFront();
+        overlay.outline.addTo(map).bringToFront();
+      } else {
+        overlay.image.remove();
+        overlay.outline.remove();
+      }
+    }
+    if (added) map.fitBounds(boundsOf(added.bbox), { padding: [24, 24] });
+  }, [layers]);
+
+  function update(id: string, change: Partial<MapImageLayer>) {
+    onChange(layers.map((l) => (l.id === id ? { ...l, ...change } : l)));
+  }
+
+  return (
+    <div className="absolute inset-0 z-[500] flex flex-col bg-background">
+      <div className="relative h-full w-full">
+        <div ref={containerRef} className="h-full w-full" style={{ background: "#1a1a2e" }} />
+
+        <div className="absolute right-4 top-4 z-[1000] w-72 max-h-[70vh] overflow-y-auto rounded-xl border border-border bg-background/95 p-3 shadow-lg backdrop-blur">
+          <div className="mb-2 flex items-center justify-between">
+            <p className="text-sm font-medium text-foreground">Map layers</p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex h-7 w-7 items-center justify-center rounded-full text-muted-foreground hover:bg-muted hover:text-foreground"
+              aria-label="Close map"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {layers.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No images on the map yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {[...layers].reverse().map((layer) => (
+                <li key={layer.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={layer.visible}
+                      onChange={(e) => update(layer.id, { visible: e.target.checked })}
+                      aria-label={`Show ${layer.label}`}
+                    />
+                    <span className="flex-1 truncate text-sm text-foreground">
+                      {layer.label}
+                      {layer.date ? <span className="text-muted-foreground"> · {layer.date}</span> : null}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onChange(layers.filter((l) => l.id !== layer.id))}
+                      className="text-muted-foreground hover:text-foreground"
+                      aria-label={`Remove ${layer.label}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(layer.opacity * 100)}
+                    onChange={(e) => update(layer.id, { opacity: Number(e.target.value) / 100 })}
+                    className="w-full"
+                    aria-label={`${layer.label} opacity`}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
-import { MapContainer, TileLayer } from "react-leaflet";
+import { LayersControl, MapContainer, TileLayer } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { MAP_OVERLAYS, SATELLITE_TILE_OPTIONS, satelliteTileUrl } from "@/lib/map-overlays";
 
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -28,6 +29,13 @@ export function MapBackground() {
         attributionControl={true}
       >
         <TileLayer url={CARTO_DARK} attribution={CARTO_ATTR} />
+        <LayersControl position="topright">
+          {MAP_OVERLAYS.map((overlay) => (
+            <LayersControl.Overlay key={overlay.layer} name={overlay.label}>
+              <TileLayer url={satelliteTileUrl(overlay.layer)} {...SATELLITE_TILE_OPTIONS} />
+            </LayersControl.Overlay>
+          ))}
+        </LayersControl>
       </MapContainer>
     </div>
   );
@@ -5,6 +5,7 @@ import L from "leaflet";
 import "leaflet-draw";
 import "leaflet/dist/leaflet.css";
 import "leaflet-draw/dist/leaflet.draw.css";
+import { MAP_OVERLAYS, SATELLITE_TILE_OPTIONS, satelliteTileUrl } from "@/lib/map-overlays";
 
 // Fix default icon in Next.js/webpack
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
@@ -21,8 +22,20 @@ const CARTO_ATTR =
 
 export type BBox = [number, number, number, number]; // minLon, minLat, maxLon, maxLat
 
+type Ring = number[][];
+
+/** The drawn polygons as GeoJSON: a Polygon for one, a MultiPolygon for several. */
+export type DrawnGeometry =
+  | { type: "Polygon"; coordinates: Ring[] }
+  | { type: "MultiPolygon"; coordinates: Ring[][] };
+
+export interface MapSelection {
+  bbox: BBox;
+  geometry: DrawnGeometry;
+}
+
 export interface MapSelectorProps {
-  onConfirm: (bbox: BBox) => void;
+  onConfirm: (selection: MapSelection) => void;
   onCancel: () => void;
 }
 
@@ -40,6 +53,11 @@ function MapSelectorInner({ onConfirm, onCancel }: MapSelectorProps) {
     mapRef.current = map;
 
     L.tileLayer(CARTO_DARK, { attribution: CARTO_ATTR }).addTo(map);
+    // Satellite overlays help find field boundaries; off by default, toggled in the layer control.
+    const overlays = Object.fromEntries(
+      MAP_OVERLAYS.map((o) => [o.label, L.tileLayer(satelliteTileUrl(o.layer), SATELLITE_TILE_OPTIONS)])
+    );
+    L.control.layers(undefined, overlays, { position: "topleft" }).addTo(map);
 
     const fg = L.featureGroup().addTo(map);
     featureGroupRef.current = fg;
@@ -114,7 +132,15 @@ function MapSelectorInner({ onConfirm, onCancel }: MapSelectorProps) {
       bounds.getEast(),
       bounds.getNorth(),
     ];
-    onConfirm(bbox);
+    const polygons = layers.flatMap((layer) =>
+      layer instanceof L.Polygon ? [layer.toGeoJSON().geometry.coordinates as Ring[]] : []
+    );
+    if (polygons.length === 0) return;
+    const geometry: DrawnGeometry =
+      polygons.length === 1
+        ? { type: "Polygon", coordinates: polygons[0] }
+        : { type: "MultiPolygon", coordinates: polygons };
+    onConfirm({ bbox, geometry });
   }, [onConfirm]);
 
   return (
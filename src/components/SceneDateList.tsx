@@ -0,0 +1,42 @@
+"use client";
+
+export interface SceneDateListItem {
+  date: string;
+  cloudCover?: number;
+  tileIds?: string[];
+  /** Sensor name, set when the list merges several collections. */
+  source?: string;
+}
+
+export interface SceneDateListProps {
+  dates: SceneDateListItem[];
+}
+
+/**
+ * Compact list of available acquisition dates with tile cloud cover (searchScenes list mode),
+ * naming the sensor of each date when several collections were searched.
+ */
+export function SceneDateList({ dates }: SceneDateListProps) {
+  return (
+    <div className="rounded-xl border border-border/50 p-3 max-w-[512px] w-full">
+      <p className="text-xs text-muted-foreground mb-2">
+        {dates.length} available acquisition{dates.length === 1 ? "" : "s"}
+      </p>
+      <ul className="flex flex-wrap gap-1.5">
+        {dates.map((d) => (
+          <li
+            key={`${d.date}/${d.source ?? ""}`}
+            className="rounded-md bg-muted px-2 py-1 text-xs text-foreground"
+            title={d.tileIds?.length ? `Tiles: ${d.tileIds.join(", ")}` : undefined}
+          >
+            {d.date}
+            {d.source && <span className="ml-1 text-muted-foreground">· {d.source}</span>}
+            {d.cloudCover !== undefined && (
+              <span className="ml-1 text-muted-foreground">☁ {Math.round(d.cloudCover)}%</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
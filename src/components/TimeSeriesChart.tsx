@@ -0,0 +1,94 @@
+"use client";
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+export interface TimeSeriesChartPoint {
+  date: string;
+  /** Observed mean; days with only a smoothed value leave it out. */
+  mean?: number;
+  min?: number;
+  max?: number;
+  /** Smoothed curve (phenology). */
+  smoothed?: number;
+}
+
+/** A dated event drawn as a vertical line, e.g. start of season. */
+export interface TimeSeriesChartMarker {
+  date: string;
+  label: string;
+}
+
+export interface TimeSeriesChartProps {
+  index: string;
+  points: TimeSeriesChartPoint[];
+  markers?: TimeSeriesChartMarker[];
+}
+
+/**
+ * Line chart of a vegetation index time series (mean per interval, with min/max as faint guides),
+ * plus the smoothed curve and season markers of a phenology result.
+ */
+export function TimeSeriesChart({ index, points, markers = [] }: TimeSeriesChartProps) {
+  const config: ChartConfig = {
+    mean: { label: `Mean ${index}`, color: "hsl(var(--primary))" },
+    min: { label: "Min", color: "hsl(var(--muted-foreground))" },
+    max: { label: "Max", color: "hsl(var(--muted-foreground))" },
+    smoothed: { label: "Smoothed", color: "hsl(142 60% 38%)" },
+  };
+  const smoothed = points.some((p) => p.smoothed !== undefined);
+
+  return (
+    <div className="rounded-xl border border-border/50 p-3 max-w-[512px] w-full">
+      <p className="text-xs text-muted-foreground mb-2">
+        {index} time series · {points[0]?.date} – {points[points.length - 1]?.date}
+      </p>
+      <ChartContainer config={config} className="w-full">
+        <LineChart data={points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+            tickFormatter={(d: string) => d.slice(5)}
+          />
+          <YAxis
+            width={36}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(v: number) => v.toFixed(1)}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line dataKey="max" type="monotone" stroke="var(--color-max)" strokeOpacity={0.4} strokeDasharray="3 3" dot={false} />
+          <Line dataKey="min" type="monotone" stroke="var(--color-min)" strokeOpacity={0.4} strokeDasharray="3 3" dot={false} />
+          {smoothed ? (
+            <Line dataKey="smoothed" type="monotone" stroke="var(--color-smoothed)" strokeWidth={2} dot={false} />
+          ) : null}
+          <Line
+            dataKey="mean"
+            type="monotone"
+            stroke="var(--color-mean)"
+            strokeWidth={smoothed ? 0 : 2}
+            dot={{ r: 2 }}
+            connectNulls
+          />
+          {markers.map((marker) => (
+            <ReferenceLine
+              key={`${marker.label}-${marker.date}`}
+              x={marker.date}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="2 2"
+              label={{ value: marker.label, position: "insideTop", fontSize: 10 }}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * Phenology metrics from a vegetation index time series (getVegetationTimeSeries): the
+ * observations are gap-filled to a daily grid and smoothed with a Savitzky–Golay filter, then
+ * start of season, peak, end of season, season length and the integrated index are read off the
+ * curve with the amplitude-threshold method (as in TIMESAT). One season per series: the one
+ * around the highest smoothed value.
+ */
+
+import type { VegetationTimeSeriesPoint } from "@/lib/services/sentinel";
+
+const DAY_MS = 86_400_000;
+
+/** Fewest observations a season is extracted from. */
+export const MIN_PHENOLOGY_OBSERVATIONS = 5;
+/** Default Savitzky–Golay half-window in days (a 31-day window). */
+export const DEFAULT_SMOOTHING_HALF_WINDOW_DAYS = 15;
+/** Savitzky–Golay polynomial order: quadratic keeps the peak's height. */
+const SMOOTHING_ORDER = 2;
+/** Default share of the amplitude above each side's base that starts and ends the season. */
+export const DEFAULT_SEASON_THRESHOLD = 0.2;
+/** Smallest rise or fall (index units) counted as a season rather than noise. */
+export const MIN_SEASON_AMPLITUDE = 0.1;
+/** Time-series rows more cloud-masked than this are left out as unreliable. */
+export const MAX_OBSERVATION_MASKED_FRACTION = 0.5;
+
+/** One index value on a date (YYYY-MM-DD). */
+export interface PhenologyPoint {
+  date: string;
+  value: number;
+}
+
+export interface PhenologyOptions {
+  halfWindowDays?: number;
+  /** Share (0..1) of the amplitude; see DEFAULT_SEASON_THRESHOLD. */
+  threshold?: number;
+}
+
+export interface PhenologyMetrics {
+  /** Gap-filled, smoothed daily series from the first to the last observation. */
+  smoothed: PhenologyPoint[];
+  /** Observations used (after averaging same-day values). */
+  observations: number;
+  peak: PhenologyPoint;
+  /** Lowest smoothed value before and after the peak. */
+  baseBefore: number;
+  baseAfter: number;
+  /** Peak minus the mean of the two bases. */
+  amplitude: number;
+  /**
+   * First day at or above the threshold on the rise. Undefined when the series starts above it
+   * (the season began earlier) or the rise is below MIN_SEASON_AMPLITUDE.
+   */
+  startOfSeason?: PhenologyPoint;
+  /** Last day at or above the threshold on the decline; undefined like startOfSeason. */
+  endOfSeason?: PhenologyPoint;
+  seasonLengthDays?: number;
+  /** Sum of daily smoothed values from start to end of season (index × days). */
+  integratedIndex?: number;
+  /** The same above the base line joining baseBefore and baseAfter. */
+  integratedAboveBase?: number;
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function dateOf(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Whole days an aggregation interval covers, e.g. 5 for a P5D interval. */
+function intervalDays(interval: { from: string; to: string }): number {
+  return Math.max(1, Math.ceil((Date.parse(interval.to) - Date.parse(interval.from)) / DAY_MS));
+}
+
+/**
+ * Time-series rows usable as observations: a finite mean, at most `maxMaskedFraction` masked.
+ * A row is a mosaic of its whole interval, so it is dated at the interval's middle day.
+ */
+export function observationsFromTimeSeries(
+  points: VegetationTimeSeriesPoint[],
+  maxMaskedFraction = MAX_OBSERVATION_MASKED_FRACTION
+): PhenologyPoint[] {
+  return points
+    .filter((p) => Number.isFinite(p.mean) && (p.maskedFraction ?? 0) <= maxMaskedFraction)
+    .map((p) => ({
+      date: p.interval ? dateOf(dayNumber(p.date) + Math.floor((intervalDays(p.interval) - 1) / 2)) : p.date,
+      value: p.mean,
+    }));
+}
+
+/**
+ * Days either side within which the acquisitions behind the observations lie: the Statistical API
+ * does not say which day of an interval its least-cloudy mosaic came from, so season dates derived
+ * from `observationsFromTimeSeries` are only this precise (2 for P5D intervals, 0 for P1D).
+ */
+export function observationDatePrecisionDays(points: VegetationTimeSeriesPoint[]): number {
+  const longest = Math.max(1, ...points.map((p) => (p.interval ? intervalDays(p.interval) : 1)));
+  return Math.ceil((longest - 1) / 2);
+}
+
+/** Observations averaged per day and linearly interpolated onto every day between the first and last. */
+export function gapFillDaily(observations: PhenologyPoint[]): PhenologyPoint[] {
+  const byDay = new Map<number, { sum: number; count: number }>();
+  for (const { date, value } of observations) {
+    if (!Number.isFinite(value)) continue;
+    const day = dayNumber(date);
+    const entry = byDay.get(day) ?? { sum: 0, count: 0 };
+    entry.sum += value;
+    entry.count++;
+    byDay.set(day, entry);
+  }
+  const known = [...byDay.entries()]
+    .map(([day, { sum, count }]) => ({ day, value: sum / count }))
+    .sort((a, b) => a.day - b.day);
+  const daily: PhenologyPoint[] = [];
+  for (let k = 0; k < known.length; k++) {
+    const { day, value } = known[k];
+    daily.push({ date: dateOf(day), value });
+    const next = known[k + 1];
+    if (!next) break;
+    for (let d = day + 1; d < next.day; d++) {
+      daily.push({ date: dateOf(d), value: value + ((next.value - value) * (d - day)) / (next.day - day) });
+    }
+  }
+  return daily;
+}
+
+/** Solve the small dense system `a · x = b` by Gaussian elimination with partial pivoting. */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Savitzky–Golay smoothing of a daily series: each value is replaced by a least-squares
+ * polynomial fitted to the `halfWindowDays` days on either side. Near the ends the window is cut
+ * off rather than padded, so the fit there is one-sided.
+ */
+export function savitzkyGolay(
+  values: number[],
+  halfWindowDays = DEFAULT_SMOOTHING_HALF_WINDOW_DAYS,
+  order = SMOOTHING_ORDER
+): number[] {
+  return values.map((_, i) => {
+    const lo = Math.max(0, i - halfWindowDays);
+    const hi = Math.min(values.length - 1, i + halfWindowDays);
+    const terms = Math.min(order, hi - lo) + 1;
+    // Normal equations in offsets scaled to [-1, 1] for conditioning.
+    const ata = Array.from({ length: terms }, () => new Array<number>(terms).fill(0));
+    const aty = new Array<number>(terms).fill(0);
+    for (let j = lo; j <= hi; j++) {
+      const u = (j - i) / Math.max(1, halfWindowDays);
+      const powers = Array.from({ length: terms }, (_, k) => u ** k);
+      for (let r = 0; r < terms; r++) {
+        aty[r] += powers[r] * values[j];
+        for (let c = 0; c < terms; c++) ata[r][c] += powers[r] * powers[c];
+      }
+    }
+    return solve(ata, aty)[0];
+  });
+}
+
+/**
+ * Season metrics of an index series. Throws when fewer than MIN_PHENOLOGY_OBSERVATIONS dates
+ * have a value.
+ */
+export function extractPhenology(observations: PhenologyPoint[], options: PhenologyOptions = {}): PhenologyMetrics {
+  const { halfWindowDays = DEFAULT_SMOOTHING_HALF_WINDOW_DAYS, threshold = DEFAULT_SEASON_THRESHOLD } = options;
+  if (!(threshold > 0 && threshold < 1)) throw new Error("The season threshold must be between 0 and 1.");
+  const observed = new Set(observations.filter((o) => Number.isFinite(o.value)).map((o) => o.date.slice(0, 10))).size;
+  if (observed < MIN_PHENOLOGY_OBSERVATIONS) {
+    throw new Error(
+      `Phenology needs at least ${MIN_PHENOLOGY_OBSERVATIONS} clear observations; only ${observed} found. Use a longer date range.`
+    );
+  }
+
+  const daily = gapFillDaily(observations);
+  const values = savitzkyGolay(daily.map((p) => p.value), halfWindowDays);
+  const smoothed = daily.map((p, i) => ({ date: p.date, value: values[i] }));
+
+  let peakIndex = 0;
+  values.forEach((value, i) => {
+    if (value > values[peakIndex]) peakIndex = i;
+  });
+  const peak = smoothed[peakIndex];
+  const baseBefore = Math.min(...values.slice(0, peakIndex + 1));
+  const baseAfter = Math.min(...values.slice(peakIndex));
+  const metrics: PhenologyMetrics = {
+    smoothed,
+    observations: observed,
+    peak,
+    baseBefore,
+    baseAfter,
+    amplitude: peak.value - (baseBefore + baseAfter) / 2,
+  };
+
+  // A base on the first or last day may be a series cut off mid-season, so that side's threshold
+  // then comes from the lower of the two bases: a series starting after green-up has no start.
+  const lowerBase = Math.min(baseBefore, baseAfter);
+  const riseBase = values.indexOf(baseBefore) === 0 ? lowerBase : baseBefore;
+  const fallBase = values.lastIndexOf(baseAfter) === values.length - 1 ? lowerBase : baseAfter;
+  // Start: the day after the last one below the rising threshold; end: the day before the first one below the falling threshold.
+  let start: number | undefined;
+  if (peak.value - riseBase >= MIN_SEASON_AMPLITUDE) {
+    const level = riseBase + threshold * (peak.value - riseBase);
+    for (let i = peakIndex; i > 0 && start === undefined; i--) if (values[i - 1] < level) start = i;
+  }
+  let end: number | undefined;
+  if (peak.value - fallBase >= MIN_SEASON_AMPLITUDE) {
+    const level = fallBase + threshold * (peak.value - fallBase);
+    for (let i = peakIndex; i < values.length - 1 && end === undefined; i++) if (values[i + 1] < level) end = i;
+  }
+  if (start !== undefined) metrics.startOfSeason = smoothed[start];
+  if (end !== undefined) metrics.endOfSeason = smoothed[end];
+  if (start !== undefined && end !== undefined) {
+    const season = values.slice(start, end + 1);
+    const days = season.length;
+    metrics.seasonLengthDays = days - 1;
+    metrics.integratedIndex = season.reduce((sum, value) => sum + value, 0);
+    metrics.integratedAboveBase = season.reduce(
+      (sum, value, k) => sum + value - (baseBefore + ((baseAfter - baseBefore) * k) / Math.max(1, days - 1)),
+      0
+    );
+  }
+  return metrics;
+}
@@ -0,0 +1,31 @@
+/**
+ * Satellite overlays for the Leaflet maps, served by /api/satellite/tiles as XYZ tiles.
+ * Each overlay shows the least cloudy acquisition of the last MAP_OVERLAY_LOOKBACK_DAYS.
+ */
+
+import { MAX_NATIVE_TILE_ZOOM, MIN_MAP_TILE_ZOOM } from "@/lib/services/web-mercator";
+
+export const MAP_OVERLAY_LOOKBACK_DAYS = 30;
+
+export const MAP_OVERLAYS = [
+  { layer: "true-color", label: "True color (Sentinel-2)" },
+  { layer: "NDVI", label: "NDVI (vegetation)" },
+  { layer: "NDMI", label: "NDMI (moisture)" },
+] as const;
+
+/** Leaflet URL template of an overlay's tiles, ending on `date` (default today, UTC). */
+export function satelliteTileUrl(
+  layer: string,
+  date = new Date().toISOString().slice(0, 10),
+  lookbackDays = MAP_OVERLAY_LOOKBACK_DAYS
+): string {
+  return `/api/satellite/tiles/${layer}/${date}/{z}/{x}/{y}.png?lookback=${lookbackDays}`;
+}
+
+/** Tile layer options: no requests below the served zoom, upscaling beyond Sentinel-2's 10 m. */
+export const SATELLITE_TILE_OPTIONS = {
+  minZoom: MIN_MAP_TILE_ZOOM,
+  maxNativeZoom: MAX_NATIVE_TILE_ZOOM,
+  opacity: 0.85,
+  attribution: "Contains modified Copernicus Sentinel data",
+};
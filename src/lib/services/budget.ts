@@ -0,0 +1,180 @@
+/**
+ * TerraVision AI – per-user and per-workspace processing-unit budgets.
+ * Daily and monthly limits come from PU_BUDGET_* env vars (unset = unlimited). Usage is kept
+ * in memory per server instance and resets at 00:00 UTC (daily) and on the 1st (monthly).
+ * check() reserves its estimate until charge() settles it, so concurrent requests (parallel tool
+ * calls of one step) cannot all pass the check and overshoot together.
+ */
+
+import { BudgetExceededError } from "./errors";
+
+export const BUDGET_SCOPES = ["user", "workspace"] as const;
+export type BudgetScope = (typeof BUDGET_SCOPES)[number];
+export type BudgetPeriod = "daily" | "monthly";
+
+/** Who a request is billed to. */
+export interface BudgetPrincipal {
+  userId: string;
+  workspaceId: string;
+}
+
+const DEFAULT_WORKSPACE = "default";
+/** Billed user when no trusted header identifies the client. */
+const UNKNOWN_CLIENT = "ip:unknown";
+
+function isEnabled(name: string): boolean {
+  return process.env[name]?.trim().toLowerCase() === "true";
+}
+
+/**
+ * Who a request is billed to, in the "default" workspace unless an auth proxy says otherwise.
+ * Headers are only believed when a proxy in front of the app is declared to overwrite them:
+ * X-User-Id / X-Workspace-Id with PU_BUDGET_TRUST_IDENTITY_HEADERS=true, the client IP (X-Real-IP,
+ * else the last X-Forwarded-For hop) with PU_BUDGET_TRUSTED_PROXY=true. Otherwise every client
+ * shares one budget, so sending a fresh id or IP never yields a fresh budget.
+ */
+export function budgetPrincipal(headers: Headers): BudgetPrincipal {
+  if (isEnabled("PU_BUDGET_TRUST_IDENTITY_HEADERS")) {
+    const userId = headers.get("x-user-id")?.trim();
+    if (userId) return { userId, workspaceId: headers.get("x-workspace-id")?.trim() || DEFAULT_WORKSPACE };
+  }
+  if (isEnabled("PU_BUDGET_TRUSTED_PROXY")) {
+    const forwarded = headers.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()).filter(Boolean);
+    const ip = headers.get("x-real-ip")?.trim() || forwarded?.at(-1);
+    if (ip) return { userId: `ip:${ip}`, workspaceId: DEFAULT_WORKSPACE };
+  }
+  return { userId: UNKNOWN_CLIENT, workspaceId: DEFAULT_WORKSPACE };
+}
+
+export type BudgetLimits = Partial<Record<BudgetScope, Partial<Record<BudgetPeriod, number>>>>;
+
+export interface BudgetUsage {
+  scope: BudgetScope;
+  period: BudgetPeriod;
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface ProcessingUnitBudget {
+  /** PUs left before the tightest limit is hit, net of open reservations; Infinity when no limit is configured. */
+  remaining(): number;
+  /** Reserve `estimate` PUs, or throw BudgetExceededError if they would exceed any limit. */
+  check(estimate: number): void;
+  /** Record PUs actually consumed, settling `reserved` PUs of this budget's reservations (refunding the rest). */
+  charge(units: number, reserved?: number): void;
+  /** Drop this budget's unsettled reservations, e.g. when its request failed before charge(). */
+  release(): void;
+  usage(): BudgetUsage[];
+}
+
+const ENV_LIMITS: Record<BudgetScope, Record<BudgetPeriod, string>> = {
+  user: { daily: "PU_BUDGET_USER_DAILY", monthly: "PU_BUDGET_USER_MONTHLY" },
+  workspace: { daily: "PU_BUDGET_WORKSPACE_DAILY", monthly: "PU_BUDGET_WORKSPACE_MONTHLY" },
+};
+
+/** Limits from the PU_BUDGET_* env vars; non-positive or missing values mean unlimited. */
+export function budgetLimitsFromEnv(): BudgetLimits {
+  const limits: BudgetLimits = {};
+  for (const scope of BUDGET_SCOPES) {
+    for (const period of ["daily", "monthly"] as const) {
+      const value = Number(process.env[ENV_LIMITS[scope][period]]);
+      if (Number.isFinite(value) && value > 0) limits[scope] = { ...limits[scope], [period]: value };
+    }
+  }
+  return limits;
+}
+
+function periodKey(period: BudgetPeriod, now: Date): string {
+  const iso = now.toISOString();
+  return period === "daily" ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+function round(units: number): number {
+  return Math.round(units * 1000) / 1000;
+}
+
+/** Used PUs per scope, subject and period; open reservations under `reserved:<scope>:<subject>`. */
+export type BudgetLedger = Map<string, number>;
+
+/** Budget of one principal against `limits`, recording usage in `ledger`. */
+export function createProcessingUnitBudget(
+  principal: BudgetPrincipal,
+  limits: BudgetLimits,
+  ledger: BudgetLedger,
+  now: () => Date = () => new Date()
+): ProcessingUnitBudget {
+  const subjects: Record<BudgetScope, string> = {
+    user: principal.userId,
+    workspace: principal.workspaceId,
+  };
+  const keyFor = (scope: BudgetScope, period: BudgetPeriod) =>
+    `${scope}:${subjects[scope]}:${periodKey(period, now())}`;
+  // Reservations are short-lived, so they count against every period rather than the current one.
+  const reservedKeyFor = (scope: BudgetScope) => `reserved:${scope}:${subjects[scope]}`;
+  /** PUs this budget has reserved and not yet settled. */
+  let held = 0;
+
+  /** Add `units` (negative to settle or release) to this budget's and the shared reservations. */
+  function adjustReservation(units: number) {
+    for (const scope of BUDGET_SCOPES) {
+      const key = reservedKeyFor(scope);
+      const total = round((ledger.get(key) ?? 0) + units);
+      if (total > 0) ledger.set(key, total);
+      else ledger.delete(key);
+    }
+    held = round(held + units);
+  }
+
+  function usage(): BudgetUsage[] {
+    const rows: BudgetUsage[] = [];
+    for (const scope of BUDGET_SCOPES) {
+      for (const period of ["daily", "monthly"] as const) {
+        const limit = limits[scope]?.[period];
+        if (limit === undefined) continue;
+        const used = ledger.get(keyFor(scope, period)) ?? 0;
+        const reserved = ledger.get(reservedKeyFor(scope)) ?? 0;
+        rows.push({ scope, period, used: round(used), limit, remaining: round(Math.max(0, limit - used - reserved)) });
+      }
+    }
+    return rows;
+  }
+
+  return {
+    usage,
+    remaining() {
+      return usage().reduce((min, row) => Math.min(min, row.remaining), Infinity);
+    },
+    check(estimate) {
+      const exceeded = usage().find((row) => estimate > row.remaining);
+      if (exceeded) {
+        const resets = exceeded.period === "daily" ? "at 00:00 UTC" : "on the 1st of next month";
+        throw new BudgetExceededError(
+          `This request needs about ${estimate} processing units but only ${exceeded.remaining} of the ${exceeded.scope}'s ${exceeded.period} budget of ${exceeded.limit} remain; it resets ${resets}.`
+        );
+      }
+      if (estimate > 0) adjustReservation(estimate);
+    },
+    charge(units, reserved = 0) {
+      if (reserved > 0) adjustReservation(-Math.min(reserved, held));
+      if (units <= 0) return;
+      for (const scope of BUDGET_SCOPES) {
+        for (const period of ["daily", "monthly"] as const) {
+          const key = keyFor(scope, period);
+          ledger.set(key, (ledger.get(key) ?? 0) + units);
+        }
+      }
+    },
+    release() {
+      if (held > 0) adjustReservation(-held);
+    },
+  };
+}
+
+// Process-wide usage, so budgets hold across chat requests.
+const ledger: BudgetLedger = new Map();
+
+/** Budget for `principal` with limits from the environment. */
+export function getProcessingUnitBudget(principal: BudgetPrincipal): ProcessingUnitBudget {
+  return createProcessingUnitBudget(principal, budgetLimitsFromEnv(), ledger);
+}
@@ -0,0 +1,118 @@
+/**
+ * TerraVision AI – Optical collection registry.
+ * Index formulas (indices.ts) are written with Sentinel-2 band names. Each collection maps those
+ * names to its own bands and declares its cloud mask, so the evalscripts in sentinel.ts run
+ * unchanged on Sentinel-2 L2A, Landsat 8/9 Collection 2 L2 and Harmonized Landsat-Sentinel (HLS).
+ */
+
+import { InvalidRequestError } from "./errors";
+import type { EarthObservationProviderId } from "./providers";
+
+export const OPTICAL_COLLECTION_IDS = ["sentinel-2-l2a", "landsat-ot-l2", "hls"] as const;
+export type OpticalCollectionId = (typeof OPTICAL_COLLECTION_IDS)[number];
+
+export const DEFAULT_OPTICAL_COLLECTION: OpticalCollectionId = "sentinel-2-l2a";
+
+export interface OpticalCollection {
+  id: OpticalCollectionId;
+  name: string;
+  /** First year with acquisitions. */
+  availableFrom: number;
+  /** Deployments hosting the collection; the first serves it when EO_PROVIDER does not. */
+  providers: EarthObservationProviderId[];
+  /** Sentinel-2 band name -> this collection's band; bands it does not observe are absent. */
+  bands: Partial<Record<string, string>>;
+  /** Quality band read by `maskFunction`. */
+  maskBand: string;
+  /** Evalscript helper defining isMasked(sample): cloud, cloud shadow or snow. */
+  maskFunction: string;
+}
+
+/**
+ * Sentinel-2 Scene Classification (SCL) classes excluded from analysis:
+ * 3 cloud shadow, 8 cloud (medium probability), 9 cloud (high probability), 10 thin cirrus, 11 snow/ice.
+ */
+const SCL_MASKED_CLASSES = [3, 8, 9, 10, 11];
+/** Landsat QA_PIXEL bits 1-5: dilated cloud, cirrus, cloud, cloud shadow, snow. */
+const LANDSAT_QA_MASKED_BITS = 0b111110;
+/** HLS Fmask bits 1-4: cloud, adjacent to cloud or shadow, cloud shadow, snow/ice. */
+const HLS_QA_MASKED_BITS = 0b11110;
+
+const SENTINEL2_BANDS = ["B01", "B02", "B03", "B04", "B05", "B06", "B07", "B08", "B8A", "B09", "B11", "B12"];
+
+const OPTICAL_COLLECTIONS: Record<OpticalCollectionId, OpticalCollection> = {
+  "sentinel-2-l2a": {
+    id: "sentinel-2-l2a",
+    name: "Sentinel-2 L2A",
+    availableFrom: 2017,
+    providers: ["sentinel-hub", "cdse"],
+    bands: Object.fromEntries(SENTINEL2_BANDS.map((band) => [band, band])),
+    maskBand: "SCL",
+    maskFunction: `
+const MASKED_SCL = ${JSON.stringify(SCL_MASKED_CLASSES)};
+function isMasked(sample) {
+  return MASKED_SCL.indexOf(sample.SCL) !== -1;
+}
+`.trim(),
+  },
+  // Landsat 8/9 OLI has no red-edge bands; its single NIR band stands in for B08 and B8A.
+  "landsat-ot-l2": {
+    id: "landsat-ot-l2",
+    name: "Landsat 8/9 L2",
+    availableFrom: 2013,
+    providers: ["sentinel-hub-us-west"],
+    bands: { B01: "B01", B02: "B02", B03: "B03", B04: "B04", B08: "B05", B8A: "B05", B11: "B06", B12: "B07" },
+    maskBand: "BQA",
+    maskFunction: `
+function isMasked(sample) {
+  return (sample.BQA & ${LANDSAT_QA_MASKED_BITS}) !== 0;
+}
+`.trim(),
+  },
+  // HLS mixes Landsat (L30) and Sentinel-2 (S30) scenes, so only bands common to both are used.
+  hls: {
+    id: "hls",
+    name: "Harmonized Landsat Sentinel-2",
+    availableFrom: 2013,
+    providers: ["sentinel-hub-us-west"],
+    bands: {
+      B01: "CoastalAerosol",
+      B02: "Blue",
+      B03: "Green",
+      B04: "Red",
+      B08: "NIR_Narrow",
+      B8A: "NIR_Narrow",
+      B11: "SWIR1",
+      B12: "SWIR2",
+    },
+    maskBand: "QA",
+    maskFunction: `
+function isMasked(sample) {
+  return (sample.QA & ${HLS_QA_MASKED_BITS}) !== 0;
+}
+`.trim(),
+  },
+};
+
+export function isOpticalCollectionId(value: string): value is OpticalCollectionId {
+  return (OPTICAL_COLLECTION_IDS as readonly string[]).includes(value);
+}
+
+/** Look up a collection definition; throws on unknown ids so bad input never reaches the API. */
+export function getOpticalCollection(id: string = DEFAULT_OPTICAL_COLLECTION): OpticalCollection {
+  if (!isOpticalCollectionId(id)) {
+    throw new InvalidRequestError(`Unknown collection "${id}". Supported: ${OPTICAL_COLLECTION_IDS.join(", ")}`);
+  }
+  return OPTICAL_COLLECTIONS[id];
+}
+
+/** The collection's band for each Sentinel-2 band name; throws when one is not observed. */
+export function collectionBands(collection: OpticalCollection, bands: string[]): string[] {
+  return bands.map((band) => {
+    const mapped = collection.bands[band];
+    if (!mapped) {
+      throw new InvalidRequestError(`${collection.name} has no equivalent of Sentinel-2 band ${band}; use sentinel-2-l2a for this index.`);
+    }
+    return mapped;
+  });
+}
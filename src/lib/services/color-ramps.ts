@@ -0,0 +1,254 @@
+/**
+ * TerraVision AI – color ramps and legends for index images.
+ * "classes" is the index's own classed ramp (indices.ts); RdYlGn and viridis are continuous
+ * ramps interpolated between stops; "agronomic" is a 5-class crop-condition ramp tuned for the
+ * greenness indices. Breakpoints can be overridden per request, and every resolved ramp has a
+ * legend the UI can draw. Difference maps use the diverging "change" ramp (changeColorRamp), and
+ * Sentinel-1 radar images the fixed "radar" ramps (radarColorRamp).
+ */
+
+import type { ColorClass, RGB, SpectralIndex } from "./indices";
+
+export const COLOR_RAMP_IDS = ["classes", "RdYlGn", "viridis", "agronomic"] as const;
+export type ColorRampId = (typeof COLOR_RAMP_IDS)[number];
+
+/** Grey for SCL-masked pixels (cloud, shadow, snow) in every ramp. */
+export const MASKED_PIXEL_COLOR: RGB = [0.7, 0.7, 0.7];
+
+export interface ColorRampOptions {
+  /** Ramp name (default "classes", the index's own ramp). */
+  ramp?: ColorRampId;
+  /**
+   * Classed ramps: ascending class limits, one fewer than the classes. Continuous ramps: the
+   * value of every stop, or just [min, max] to spread the stops evenly.
+   */
+  breakpoints?: number[];
+}
+
+export interface ColorStop {
+  value: number;
+  color: RGB;
+}
+
+/** Id of the diverging ramp of difference maps; not selectable for single-date images. */
+export const CHANGE_RAMP_ID = "change";
+
+/** Id of the ramps of Sentinel-1 radar images; not selectable for optical indices. */
+export const RADAR_RAMP_ID = "radar";
+
+export type ResolvedColorRamp =
+  | { id: ColorRampId; kind: "classed"; classes: ColorClass[] }
+  | { id: ColorRampId | typeof CHANGE_RAMP_ID | typeof RADAR_RAMP_ID; kind: "continuous"; stops: ColorStop[] };
+
+/** ColorBrewer RdYlGn (5). */
+const RDYLGN: RGB[] = [
+  [0.843, 0.098, 0.11],
+  [0.992, 0.682, 0.38],
+  [1, 1, 0.749],
+  [0.651, 0.851, 0.416],
+  [0.102, 0.588, 0.255],
+];
+
+/** Matplotlib viridis sampled at 5 stops. */
+const VIRIDIS: RGB[] = [
+  [0.267, 0.005, 0.329],
+  [0.231, 0.322, 0.545],
+  [0.129, 0.569, 0.549],
+  [0.369, 0.788, 0.384],
+  [0.992, 0.906, 0.145],
+];
+
+/** Red (loss) -> near white (no change) -> green (gain), after ColorBrewer PiYG / RdYlGn. */
+const CHANGE_COLORS: RGB[] = [
+  [0.792, 0.0, 0.125],
+  [0.957, 0.647, 0.51],
+  [0.969, 0.969, 0.969],
+  [0.651, 0.851, 0.416],
+  [0.102, 0.588, 0.255],
+];
+
+/** Black (low backscatter: water, smooth soil) -> white (high: dense canopy, buildings). */
+const BACKSCATTER_GREYS: RGB[] = [
+  [0, 0, 0],
+  [1, 1, 1],
+];
+
+/** Crop condition classes; limits suit NDVI-like indices and can be overridden. */
+const AGRONOMIC_CLASSES: ColorClass[] = [
+  { below: 0.2, color: [0.6, 0.4, 0.2], label: "Bare soil / no crop" },
+  { below: 0.4, color: [0.9, 0.45, 0.2], label: "Stressed" },
+  { below: 0.6, color: [0.95, 0.85, 0.3], label: "Moderate" },
+  { below: 0.8, color: [0.5, 0.78, 0.3], label: "Healthy" },
+  { color: [0.1, 0.5, 0.15], label: "Vigorous" },
+];
+
+function assertAscending(breakpoints: number[]): void {
+  if (breakpoints.some((b, i) => !Number.isFinite(b) || (i > 0 && b <= breakpoints[i - 1]))) {
+    throw new Error("Color ramp breakpoints must be finite and strictly ascending.");
+  }
+}
+
+function withBreakpoints(classes: ColorClass[], breakpoints: number[] | undefined): ColorClass[] {
+  if (!breakpoints) return classes;
+  if (breakpoints.length !== classes.length - 1) {
+    throw new Error(`This ramp has ${classes.length} classes and needs ${classes.length - 1} breakpoints.`);
+  }
+  assertAscending(breakpoints);
+  return classes.map((c, i) => (i < breakpoints.length ? { ...c, below: breakpoints[i] } : c));
+}
+
+/** Default value range of continuous ramps: the index's first and last class limits. */
+function defaultDomain(index: SpectralIndex): [number, number] {
+  const limits = index.colorRamp.flatMap((c) => (c.below === undefined ? [] : [c.below]));
+  return [limits[0], limits[limits.length - 1]];
+}
+
+/** Evenly spread `colors` over [min, max]. */
+function evenStops(colors: RGB[], min: number, max: number): ColorStop[] {
+  const at = (i: number) => Math.round((min + ((max - min) * i) / (colors.length - 1)) * 1e6) / 1e6;
+  return colors.map((color, i) => ({ value: at(i), color }));
+}
+
+function continuousStops(colors: RGB[], index: SpectralIndex, breakpoints: number[] | undefined): ColorStop[] {
+  const values = breakpoints ?? defaultDomain(index);
+  if (values.length !== 2 && values.length !== colors.length) {
+    throw new Error(`This ramp takes 2 breakpoints (min, max) or ${colors.length} (one per stop).`);
+  }
+  assertAscending(values);
+  if (values.length === colors.length) return colors.map((color, i) => ({ value: values[i], color }));
+  return evenStops(colors, values[0], values[1]);
+}
+
+/** Resolve a ramp for `index`; throws on unknown names or malformed breakpoints. */
+export function resolveColorRamp(index: SpectralIndex, options: ColorRampOptions = {}): ResolvedColorRamp {
+  const id = options.ramp ?? "classes";
+  switch (id) {
+    case "classes":
+      return { id, kind: "classed", classes: withBreakpoints(index.colorRamp, options.breakpoints) };
+    case "agronomic":
+      return { id, kind: "classed", classes: withBreakpoints(AGRONOMIC_CLASSES, options.breakpoints) };
+    case "RdYlGn":
+      return { id, kind: "continuous", stops: continuousStops(RDYLGN, index, options.breakpoints) };
+    case "viridis":
+      return { id, kind: "continuous", stops: continuousStops(VIRIDIS, index, options.breakpoints) };
+    default:
+      throw new Error(`Unknown color ramp "${String(id)}". Supported: ${COLOR_RAMP_IDS.join(", ")}`);
+  }
+}
+
+/** Diverging ramp of an index difference (after − before), symmetric around 0 up to ±maxChange. */
+export function changeColorRamp(maxChange = 0.5): ResolvedColorRamp {
+  if (!(Number.isFinite(maxChange) && maxChange > 0)) throw new Error("maxChange must be a positive number.");
+  return { id: CHANGE_RAMP_ID, kind: "continuous", stops: evenStops(CHANGE_COLORS, -maxChange, maxChange) };
+}
+
+/**
+ * Ramp of a radar image over [min, max]: greys for backscatter in dB, RdYlGn for the radar
+ * vegetation index, whose low values are bare soil and high values dense canopy.
+ */
+export function radarColorRamp(kind: "backscatter" | "vegetation", min: number, max: number): ResolvedColorRamp {
+  assertAscending([min, max]);
+  const colors = kind === "backscatter" ? BACKSCATTER_GREYS : RDYLGN;
+  return { id: RADAR_RAMP_ID, kind: "continuous", stops: evenStops(colors, min, max) };
+}
+
+/**
+ * Evalscript source of `colorFor(value)`, returning the ramp's RGB (plus opaque alpha when
+ * `alpha`) for an index value.
+ */
+export function colorRampFunction(ramp: ResolvedColorRamp, alpha: boolean): string {
+  const pixel = (color: RGB) => JSON.stringify(alpha ? [...color, 1] : color);
+  if (ramp.kind === "classed") {
+    const classes = ramp.classes
+      .map((c) =>
+        c.below === undefined ? `  return ${pixel(c.color)};` : `  if (value < ${c.below}) return ${pixel(c.color)};`
+      )
+      .join("\n");
+    return `function colorFor(value) {\n${classes}\n}`;
+  }
+  return `
+const STOP_VALUES = ${JSON.stringify(ramp.stops.map((s) => s.value))};
+const STOP_COLORS = ${JSON.stringify(ramp.stops.map((s) => s.color))};
+function colorFor(value) {
+  let color = STOP_COLORS[STOP_COLORS.length - 1];
+  if (value <= STOP_VALUES[0]) {
+    color = STOP_COLORS[0];
+  } else {
+    for (let i = 1; i < STOP_VALUES.length; i++) {
+      if (value > STOP_VALUES[i]) continue;
+      const t = (value - STOP_VALUES[i - 1]) / (STOP_VALUES[i] - STOP_VALUES[i - 1]);
+      const a = STOP_COLORS[i - 1];
+      const b = STOP_COLORS[i];
+      color = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+      break;
+    }
+  }
+  return ${alpha ? "[color[0], color[1], color[2], 1]" : "color"};
+}`.trim();
+}
+
+export interface LegendEntry {
+  /** CSS hex color. */
+  color: string;
+  label: string;
+  /** Continuous ramps: the stop value. */
+  value?: number;
+  /** Classed ramps: the class range, [min, max). */
+  min?: number;
+  max?: number;
+}
+
+export interface ColorLegend {
+  title: string;
+  kind: ResolvedColorRamp["kind"];
+  ramp: ResolvedColorRamp["id"];
+  /** Low to high. */
+  entries: LegendEntry[];
+  /** Swatch for SCL-masked pixels. */
+  masked: LegendEntry;
+}
+
+function toHex(color: RGB): string {
+  return `#${color.map((c) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function formatValue(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function legendEntries(ramp: ResolvedColorRamp): LegendEntry[] {
+  if (ramp.kind === "continuous") {
+    return ramp.stops.map((s) => ({ color: toHex(s.color), label: formatValue(s.value), value: s.value }));
+  }
+  return ramp.classes.map((c, i) => {
+    const min = ramp.classes[i - 1]?.below;
+    const range =
+      min === undefined
+        ? `< ${formatValue(c.below ?? 0)}`
+        : c.below === undefined
+          ? `≥ ${formatValue(min)}`
+          : `${formatValue(min)} – ${formatValue(c.below)}`;
+    return {
+      color: toHex(c.color),
+      label: `${c.label} (${range})`,
+      ...(min !== undefined ? { min } : {}),
+      ...(c.below !== undefined ? { max: c.below } : {}),
+    };
+  });
+}
+
+/** Legend of a resolved ramp, for the generateNDVI tool output and the chat UI. */
+export function colorLegend(index: SpectralIndex, ramp: ResolvedColorRamp, title: string = index.id): ColorLegend {
+  return {
+    title,
+    kind: ramp.kind,
+    ramp: ramp.id,
+    entries: legendEntries(ramp),
+    masked: { color: toHex(MASKED_PIXEL_COLOR), label: "Cloud / shadow / snow (masked)" },
+  };
+}
+
+/** Legend of a radar ramp (radarColorRamp); radar sees through clouds, so nothing is masked. */
+export function radarColorLegend(ramp: ResolvedColorRamp, title: string): Omit<ColorLegend, "masked"> {
+  return { title, kind: ramp.kind, ramp: ramp.id, entries: legendEntries(ramp) };
+}
@@ -0,0 +1,123 @@
+/**
+ * TerraVision AI – typed Sentinel Hub errors.
+ * Thrown by the HTTP client and service layer so API routes and agent tools can
+ * tell users precisely what went wrong (throttling, quota, credentials, no data).
+ */
+
+export class SentinelHubError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SentinelHubError";
+    this.status = status;
+  }
+}
+
+/** Credentials rejected (401/403), even after refreshing the access token. */
+export class AuthError extends SentinelHubError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "AuthError";
+  }
+}
+
+/** Still throttled (429) after retries; `retryAfterSeconds` comes from the Retry-After header. */
+export class RateLimitedError extends SentinelHubError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429);
+    this.name = "RateLimitedError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** Processing-unit or request quota of the account is used up. */
+export class QuotaExceededError extends SentinelHubError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/** The request succeeded but no acquisition / valid pixel covers the area and time. */
+export class NoDataError extends SentinelHubError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "NoDataError";
+  }
+}
+
+/** No response within the client timeout, after retries. */
+export class RequestTimeoutError extends SentinelHubError {
+  constructor(message: string) {
+    super(message);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/**
+ * A request would exceed the user's or workspace's processing-unit budget (see budget.ts).
+ * Raised before anything is sent to Sentinel Hub, so it is not a SentinelHubError.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * The request's parameters cannot be served as given, e.g. an output beyond a size limit. Raised
+ * before anything is sent to Sentinel Hub, so API routes answer 400 rather than 500.
+ */
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+}
+
+/** The AOI exceeds MAX_AOI_AREA_KM2; `suggestedBbox` is a zoomed-in area that fits. */
+export class AreaTooLargeError extends Error {
+  readonly areaKm2: number;
+  readonly maxAreaKm2: number;
+  readonly suggestedBbox: [number, number, number, number];
+
+  constructor(
+    message: string,
+    areaKm2: number,
+    maxAreaKm2: number,
+    suggestedBbox: [number, number, number, number]
+  ) {
+    super(message);
+    this.name = "AreaTooLargeError";
+    this.areaKm2 = areaKm2;
+    this.maxAreaKm2 = maxAreaKm2;
+    this.suggestedBbox = suggestedBbox;
+  }
+}
+
+/** One-sentence, user-facing explanation of a failed Sentinel Hub call. */
+export function describeSentinelError(err: unknown, fallback: string): string {
+  if (err instanceof RateLimitedError) {
+    return err.retryAfterSeconds !== undefined
+      ? `The satellite data service is rate limiting requests; try again in about ${Math.ceil(err.retryAfterSeconds)} seconds.`
+      : "The satellite data service is rate limiting requests; try again shortly.";
+  }
+  if (err instanceof QuotaExceededError) {
+    return "The satellite data account has used up its processing quota; new imagery or statistics cannot be requested until it resets.";
+  }
+  if (err instanceof AuthError) {
+    return "The satellite data service rejected the configured credentials (check SENTINEL_CLIENT_ID / SENTINEL_CLIENT_SECRET).";
+  }
+  if (err instanceof RequestTimeoutError) {
+    return "The satellite data service did not respond in time; try a smaller area or a shorter date range.";
+  }
+  if (err instanceof NoDataError || err instanceof BudgetExceededError) return err.message;
+  if (err instanceof AreaTooLargeError) {
+    return `${err.message} For example: ${err.suggestedBbox.join(",")}.`;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
@@ -0,0 +1,264 @@
+/**
+ * TerraVision AI – minimal GeoTIFF support for raw index exports.
+ * The Process API returns georeferenced FLOAT32 TIFFs; tagGeoTiff adds the GDAL no-data and
+ * metadata tags (index name, date) QGIS and GDAL read, without touching the pixel data.
+ * encodeGeoTiff writes a complete EPSG:4326 GeoTIFF (used by the local Sentinel Hub stand-in).
+ */
+
+import type { BBox } from "./sentinel";
+
+/** TIFF field types used here. */
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_FLOAT = 11;
+const TYPE_DOUBLE = 12;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 11: 4, 12: 8, 16: 8 };
+
+export const TIFF_TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalMetadata: 42112,
+  gdalNoData: 42113,
+} as const;
+
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  /** Numbers for numeric types, a string for ASCII. */
+  values: number[] | string;
+}
+
+function entryByteLength(entry: TiffEntry): number {
+  const count = typeof entry.values === "string" ? entry.values.length + 1 : entry.values.length;
+  return count * TYPE_SIZES[entry.type];
+}
+
+function writeValues(view: DataView, offset: number, entry: TiffEntry, le: boolean): void {
+  if (typeof entry.values === "string") {
+    for (let i = 0; i < entry.values.length; i++) view.setUint8(offset + i, entry.values.charCodeAt(i));
+    view.setUint8(offset + entry.values.length, 0);
+    return;
+  }
+  entry.values.forEach((value, i) => {
+    if (entry.type === TYPE_SHORT) view.setUint16(offset + i * 2, value, le);
+    else if (entry.type === TYPE_LONG) view.setUint32(offset + i * 4, value, le);
+    else if (entry.type === TYPE_FLOAT) view.setFloat32(offset + i * 4, value, le);
+    else if (entry.type === TYPE_DOUBLE) view.setFloat64(offset + i * 8, value, le);
+    else throw new Error(`Unsupported TIFF type ${entry.type}`);
+  });
+}
+
+/** Raw 12-byte IFD entry: tag, type, count and the value-or-offset field. */
+type RawEntry = { tag: number; bytes: Uint8Array };
+
+function readHeader(view: DataView): { le: boolean; ifdOffset: number } {
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file");
+  const le = order === 0x4949;
+  if (view.getUint16(2, le) !== 42) throw new Error("Only classic TIFF is supported");
+  return { le, ifdOffset: view.getUint32(4, le) };
+}
+
+function readRawEntries(view: DataView, ifdOffset: number, le: boolean) {
+  const count = view.getUint16(ifdOffset, le);
+  const entries: RawEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = ifdOffset + 2 + i * 12;
+    entries.push({
+      tag: view.getUint16(at, le),
+      bytes: new Uint8Array(view.buffer.slice(view.byteOffset + at, view.byteOffset + at + 12)),
+    });
+  }
+  const nextIfd = view.getUint32(ifdOffset + 2 + count * 12, le);
+  return { entries, nextIfd };
+}
+
+/** Tags of the first IFD, decoded. */
+export function readTiffTags(tiff: ArrayBuffer): Map<number, TiffEntry> {
+  const view = new DataView(tiff);
+  const { le, ifdOffset } = readHeader(view);
+  const tags = new Map<number, TiffEntry>();
+  for (const raw of readRawEntries(view, ifdOffset, le).entries) {
+    const entryView = new DataView(raw.bytes.buffer);
+    const type = entryView.getUint16(2, le);
+    const count = entryView.getUint32(4, le);
+    const inline = (TYPE_SIZES[type] ?? 1) * count <= 4;
+    // Values of up to 4 bytes live in the entry itself.
+    const source = inline ? entryView : view;
+    const base = inline ? 8 : entryView.getUint32(8, le);
+    let values: number[] | string;
+    if (type === TYPE_ASCII) {
+      values = "";
+      for (let i = 0; i < count - 1; i++) values += String.fromCharCode(source.getUint8(base + i));
+    } else {
+      values = [];
+      for (let i = 0; i < count; i++) {
+        if (type === TYPE_SHORT) values.push(source.getUint16(base + i * 2, le));
+        else if (type === TYPE_LONG) values.push(source.getUint32(base + i * 4, le));
+        else if (type === TYPE_FLOAT) values.push(source.getFloat32(base + i * 4, le));
+        else if (type === TYPE_DOUBLE) values.push(source.getFloat64(base + i * 8, le));
+      }
+    }
+    tags.set(raw.tag, { tag: raw.tag, type, values });
+  }
+  return tags;
+}
+
+/**
+ * Add or replace tags in the first IFD. The new IFD and any out-of-line values are appended
+ * and the header is pointed at them, so existing offsets (strips, other tags) stay valid.
+ */
+export function addTiffTags(tiff: ArrayBuffer, extra: TiffEntry[]): ArrayBuffer {
+  const source = new DataView(tiff);
+  const { le, ifdOffset } = readHeader(source);
+  const { entries, nextIfd } = readRawEntries(source, ifdOffset, le);
+  const replaced = new Set(extra.map((e) => e.tag));
+
+  let dataOffset = tiff.byteLength + (tiff.byteLength % 2);
+  const ifdSize = 2 + (entries.filter((e) => !replaced.has(e.tag)).length + extra.length) * 12 + 4;
+  const newIfdOffset = dataOffset;
+  dataOffset += ifdSize;
+  const outOfLine = extra.filter((e) => entryByteLength(e) > 4);
+  const total = dataOffset + outOfLine.reduce((sum, e) => sum + entryByteLength(e) + 1, 0);
+
+  const out = new Uint8Array(total);
+  out.set(new Uint8Array(tiff), 0);
+  const view = new DataView(out.buffer);
+  view.setUint32(4, newIfdOffset, le);
+
+  const rawExtra: RawEntry[] = extra.map((entry) => {
+    const bytes = new Uint8Array(12);
+    const entryView = new DataView(bytes.buffer);
+    const count = typeof entry.values === "string" ? entry.values.length + 1 : entry.values.length;
+    entryView.setUint16(0, entry.tag, le);
+    entryView.setUint16(2, entry.type, le);
+    entryView.setUint32(4, count, le);
+    if (entryByteLength(entry) <= 4) {
+      writeValues(entryView, 8, entry, le);
+    } else {
+      entryView.setUint32(8, dataOffset, le);
+      writeValues(view, dataOffset, entry, le);
+      dataOffset += entryByteLength(entry);
+      dataOffset += dataOffset % 2;
+    }
+    return { tag: entry.tag, bytes };
+  });
+
+  const all = [...entries.filter((e) => !replaced.has(e.tag)), ...rawExtra].sort((a, b) => a.tag - b.tag);
+  view.setUint16(newIfdOffset, all.length, le);
+  all.forEach((entry, i) => out.set(entry.bytes, newIfdOffset + 2 + i * 12));
+  view.setUint32(newIfdOffset + 2 + all.length * 12, nextIfd, le);
+  return out.buffer.slice(0, dataOffset);
+}
+
+/** GDAL_METADATA XML for key/value items (e.g. index name, acquisition date). */
+export function gdalMetadataXml(items: Record<string, string>): string {
+  const escape = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  const body = Object.entries(items)
+    .map(([name, value]) => `<Item name="${escape(name)}">${escape(value)}</Item>`)
+    .join("");
+  return `<GDALMetadata>${body}</GDALMetadata>`;
+}
+
+/** Add GDAL no-data and metadata tags to a GeoTIFF. */
+export function tagGeoTiff(
+  tiff: ArrayBuffer,
+  noData: number,
+  metadata: Record<string, string>
+): ArrayBuffer {
+  return addTiffTags(tiff, [
+    { tag: TIFF_TAGS.gdalMetadata, type: TYPE_ASCII, values: gdalMetadataXml(metadata) },
+    { tag: TIFF_TAGS.gdalNoData, type: TYPE_ASCII, values: String(noData) },
+  ]);
+}
+
+export interface GeoTiffRaster {
+  width: number;
+  height: number;
+  bands: number;
+  /** Row-major FLOAT32 samples, bands interleaved per pixel. */
+  values: Float32Array;
+  /** [minLon, minLat, maxLon, maxLat] in EPSG:4326. */
+  bbox: BBox;
+}
+
+/** Encode an uncompressed, single-strip FLOAT32 GeoTIFF in EPSG:4326 (pixel-is-area). */
+export function encodeGeoTiff(raster: GeoTiffRaster): ArrayBuffer {
+  const { width, height, bands, values, bbox } = raster;
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const pixelBytes = width * height * bands * 4;
+  const entries: TiffEntry[] = [
+    { tag: TIFF_TAGS.imageWidth, type: TYPE_LONG, values: [width] },
+    { tag: TIFF_TAGS.imageLength, type: TYPE_LONG, values: [height] },
+    { tag: TIFF_TAGS.bitsPerSample, type: TYPE_SHORT, values: new Array(bands).fill(32) },
+    { tag: TIFF_TAGS.compression, type: TYPE_SHORT, values: [1] },
+    { tag: TIFF_TAGS.photometric, type: TYPE_SHORT, values: [1] },
+    { tag: TIFF_TAGS.stripOffsets, type: TYPE_LONG, values: [0] }, // patched below
+    { tag: TIFF_TAGS.samplesPerPixel, type: TYPE_SHORT, values: [bands] },
+    { tag: TIFF_TAGS.rowsPerStrip, type: TYPE_LONG, values: [height] },
+    { tag: TIFF_TAGS.stripByteCounts, type: TYPE_LONG, values: [pixelBytes] },
+    { tag: TIFF_TAGS.planarConfig, type: TYPE_SHORT, values: [1] },
+    { tag: TIFF_TAGS.sampleFormat, type: TYPE_SHORT, values: new Array(bands).fill(3) },
+    {
+      tag: TIFF_TAGS.modelPixelScale,
+      type: TYPE_DOUBLE,
+      values: [(maxLon - minLon) / width, (maxLat - minLat) / height, 0],
+    },
+    { tag: TIFF_TAGS.modelTiepoint, type: TYPE_DOUBLE, values: [0, 0, 0, minLon, maxLat, 0] },
+    {
+      tag: TIFF_TAGS.geoKeyDirectory,
+      type: TYPE_SHORT,
+      // Version 1.1.0, 3 keys: geographic model, pixel-is-area, WGS 84.
+      values: [1, 1, 0, 3, 1024, 0, 1, 2, 1025, 0, 1, 1, 2048, 0, 1, 4326],
+    },
+  ];
+
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let dataOffset = ifdOffset + ifdSize;
+  const outOfLineSize = entries.reduce((sum, e) => {
+    const size = entryByteLength(e);
+    return size > 4 ? sum + size + (size % 2) : sum;
+  }, 0);
+  const pixelOffset = dataOffset + outOfLineSize;
+  (entries[5].values as number[])[0] = pixelOffset;
+
+  const out = new Uint8Array(pixelOffset + pixelBytes);
+  const view = new DataView(out.buffer);
+  const le = true;
+  view.setUint16(0, 0x4949, false);
+  view.setUint16(2, 42, le);
+  view.setUint32(4, ifdOffset, le);
+  view.setUint16(ifdOffset, entries.length, le);
+  entries.forEach((entry, i) => {
+    const at = ifdOffset + 2 + i * 12;
+    const size = entryByteLength(entry);
+    view.setUint16(at, entry.tag, le);
+    view.setUint16(at + 2, entry.type, le);
+    view.setUint32(at + 4, typeof entry.values === "string" ? entry.values.length + 1 : entry.values.length, le);
+    if (size <= 4) {
+      writeValues(view, at + 8, entry, le);
+    } else {
+      view.setUint32(at + 8, dataOffset, le);
+      writeValues(view, dataOffset, entry, le);
+      dataOffset += size + (size % 2);
+    }
+  });
+  view.setUint32(ifdOffset + 2 + entries.length * 12, 0, le);
+  for (let i = 0; i < values.length; i++) view.setFloat32(pixelOffset + i * 4, values[i], le);
+  return out.buffer;
+}
@@ -0,0 +1,187 @@
+/**
+ * TerraVision AI – Spectral index registry.
+ * Every index declares its Sentinel-2 bands, formula, valid range and color ramp so the
+ * Process and Statistical API evalscripts in sentinel.ts can be generated for any of them.
+ */
+
+import { InvalidRequestError } from "./errors";
+
+/** Evalscript RGB triplet, each channel in 0..1. */
+export type RGB = [number, number, number];
+
+/** Discrete color class. Applies to values below `below`; the last class has no upper bound. */
+export interface ColorClass {
+  below?: number;
+  color: RGB;
+  label: string;
+}
+
+/** Vegetation density class for area breakdowns. Applies to values below `below`. */
+export interface VegetationClass {
+  id: "bare" | "sparse" | "moderate" | "dense";
+  below?: number;
+  label: string;
+}
+
+/** Density classes of the greenness indices; limits fall on the stats histogram's bin edges. */
+const VEGETATION_CLASSES: VegetationClass[] = [
+  { id: "bare", below: 0.2, label: "Bare soil / no vegetation" },
+  { id: "sparse", below: 0.4, label: "Sparse vegetation" },
+  { id: "moderate", below: 0.6, label: "Moderate vegetation" },
+  { id: "dense", label: "Dense vegetation" },
+];
+
+export const SPECTRAL_INDEX_IDS = [
+  "NDVI",
+  "NDWI",
+  "NDMI",
+  "EVI",
+  "SAVI",
+  "MSAVI2",
+  "NDRE",
+  "GNDVI",
+  "NBR",
+] as const;
+
+export type SpectralIndexId = (typeof SPECTRAL_INDEX_IDS)[number];
+
+export interface SpectralIndex {
+  id: SpectralIndexId;
+  name: string;
+  /** What the index measures, phrased for the agent and the UI. */
+  description: string;
+  /** Sentinel-2 L2A band names read by `formula`. */
+  bands: string[];
+  /** JavaScript expression over the band names, evaluated per pixel inside the evalscript. */
+  formula: string;
+  /** Values outside this range are treated as invalid (e.g. EVI blow-ups over bright clouds). */
+  validRange: [number, number];
+  colorRamp: ColorClass[];
+  /** Greenness indices: classes for the hectare breakdown in index statistics. */
+  vegetationClasses?: VegetationClass[];
+}
+
+/** Red (low) -> green (high) classes shared by the greenness indices. */
+const GREENNESS_RAMP: ColorClass[] = [
+  { below: -0.2, color: [0.8, 0.2, 0.2], label: "Water / no vegetation" },
+  { below: 0, color: [0.9, 0.5, 0.3], label: "Bare soil" },
+  { below: 0.2, color: [0.85, 0.6, 0.2], label: "Sparse vegetation" },
+  { below: 0.4, color: [0.5, 0.7, 0.2], label: "Moderate vegetation" },
+  { below: 0.6, color: [0.2, 0.75, 0.2], label: "Healthy vegetation" },
+  { color: [0.1, 0.6, 0.1], label: "Dense vegetation" },
+];
+
+/** Brown (dry) -> blue (wet) classes shared by the moisture indices. */
+const MOISTURE_RAMP: ColorClass[] = [
+  { below: -0.4, color: [0.55, 0.35, 0.2], label: "Very dry" },
+  { below: -0.2, color: [0.8, 0.6, 0.35], label: "Dry" },
+  { below: 0, color: [0.9, 0.85, 0.6], label: "Moderately dry" },
+  { below: 0.2, color: [0.6, 0.8, 0.85], label: "Moist" },
+  { below: 0.4, color: [0.3, 0.6, 0.85], label: "Wet" },
+  { color: [0.1, 0.3, 0.7], label: "Water / saturated" },
+];
+
+export const SPECTRAL_INDICES: Record<SpectralIndexId, SpectralIndex> = {
+  NDVI: {
+    id: "NDVI",
+    name: "Normalized Difference Vegetation Index",
+    description: "General vegetation greenness and vigor.",
+    bands: ["B04", "B08"],
+    formula: "(B08 - B04) / (B08 + B04)",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+    vegetationClasses: VEGETATION_CLASSES,
+  },
+  NDWI: {
+    id: "NDWI",
+    name: "Normalized Difference Water Index",
+    description: "Open water and surface wetness (McFeeters); positive values indicate water.",
+    bands: ["B03", "B08"],
+    formula: "(B03 - B08) / (B03 + B08)",
+    validRange: [-1, 1],
+    colorRamp: MOISTURE_RAMP,
+  },
+  NDMI: {
+    id: "NDMI",
+    name: "Normalized Difference Moisture Index",
+    description: "Canopy water content; low values indicate water stress.",
+    bands: ["B08", "B11"],
+    formula: "(B08 - B11) / (B08 + B11)",
+    validRange: [-1, 1],
+    colorRamp: MOISTURE_RAMP,
+  },
+  EVI: {
+    id: "EVI",
+    name: "Enhanced Vegetation Index",
+    description: "Greenness corrected for soil and atmosphere; does not saturate over dense canopies.",
+    bands: ["B02", "B04", "B08"],
+    formula: "2.5 * (B08 - B04) / (B08 + 6 * B04 - 7.5 * B02 + 1)",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+    vegetationClasses: VEGETATION_CLASSES,
+  },
+  SAVI: {
+    id: "SAVI",
+    name: "Soil Adjusted Vegetation Index",
+    description: "Greenness corrected for soil brightness; suited to sparse or early-season crops.",
+    bands: ["B04", "B08"],
+    formula: "1.5 * (B08 - B04) / (B08 + B04 + 0.5)",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+    vegetationClasses: VEGETATION_CLASSES,
+  },
+  MSAVI2: {
+    id: "MSAVI2",
+    name: "Modified Soil Adjusted Vegetation Index 2",
+    description: "Self-adjusting soil correction; best for emergence and low canopy cover.",
+    bands: ["B04", "B08"],
+    formula: "(2 * B08 + 1 - Math.sqrt(Math.pow(2 * B08 + 1, 2) - 8 * (B08 - B04))) / 2",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+    vegetationClasses: VEGETATION_CLASSES,
+  },
+  NDRE: {
+    id: "NDRE",
+    name: "Normalized Difference Red Edge",
+    description: "Chlorophyll / nitrogen status from the red-edge band; sensitive in mid-to-late season.",
+    bands: ["B05", "B08"],
+    formula: "(B08 - B05) / (B08 + B05)",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+    vegetationClasses: VEGETATION_CLASSES,
+  },
+  GNDVI: {
+    id: "GNDVI",
+    name: "Green Normalized Difference Vegetation Index",
+    description: "Chlorophyll concentration from the green band.",
+    bands: ["B03", "B08"],
+    formula: "(B08 - B03) / (B08 + B03)",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+    vegetationClasses: VEGETATION_CLASSES,
+  },
+  NBR: {
+    id: "NBR",
+    name: "Normalized Burn Ratio",
+    description: "Burn scars and severe canopy loss; low values indicate burned or bare ground.",
+    bands: ["B08", "B12"],
+    formula: "(B08 - B12) / (B08 + B12)",
+    validRange: [-1, 1],
+    colorRamp: GREENNESS_RAMP,
+  },
+};
+
+export function isSpectralIndexId(value: string): value is SpectralIndexId {
+  return (SPECTRAL_INDEX_IDS as readonly string[]).includes(value);
+}
+
+/** Look up an index definition; throws on unknown ids so bad input never reaches the API. */
+export function getSpectralIndex(id: string): SpectralIndex {
+  const key = id.toUpperCase();
+  if (!isSpectralIndexId(key)) {
+    throw new InvalidRequestError(
+      `Unknown spectral index "${id}". Supported: ${SPECTRAL_INDEX_IDS.join(", ")}`
+    );
+  }
+  return SPECTRAL_INDICES[key];
+}
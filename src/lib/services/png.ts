@@ -0,0 +1,151 @@
+/**
+ * TerraVision AI – minimal PNG codec (8-bit grey, grey+alpha, RGB or RGBA, non-interlaced).
+ * Used to stitch Process API tiles server-side and by the local Sentinel Hub stand-in.
+ */
+
+import { deflateSync, inflateSync } from "node:zlib";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/** PNG color type per channel count. */
+const COLOR_TYPE: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+/** Channel count per PNG color type. */
+const CHANNELS: Record<number, number> = { 0: 1, 4: 2, 2: 3, 6: 4 };
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  channels: number;
+  pixels: Uint8Array;
+}
+
+/** Encode row-major 8-bit pixels with `channels` interleaved samples per pixel. */
+export function encodePng(width: number, height: number, channels: number, pixels: Uint8Array): Buffer {
+  const colorType = COLOR_TYPE[channels];
+  if (colorType === undefined) throw new Error(`Unsupported PNG channel count: ${channels}`);
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = colorType;
+
+  const stride = width * channels;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/** Decode an 8-bit, non-interlaced PNG without palette, as returned by the Process API. */
+export function decodePng(data: Uint8Array): DecodedImage {
+  const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (!buf.subarray(0, 8).equals(SIGNATURE)) throw new Error("Not a PNG image");
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset < buf.length; ) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString("ascii", offset + 4, offset + 8);
+    const body = buf.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      channels = CHANNELS[body[9]] ?? 0;
+      if (body[8] !== 8 || !channels || body[12] !== 0) {
+        throw new Error(`Unsupported PNG (bit depth ${body[8]}, color type ${body[9]}, interlace ${body[12]})`);
+      }
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paeth(left, up, upLeft);
+      pixels[out + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+  return { width, height, channels, pixels };
+}
+
+/** Tile placed at pixel offset (x, y) of the stitched image. */
+export interface PlacedTile {
+  x: number;
+  y: number;
+  png: ArrayBuffer;
+}
+
+/** Paste decoded PNG tiles into one width × height image and encode it. */
+export function stitchPngTiles(width: number, height: number, tiles: PlacedTile[]): Buffer {
+  const decoded = tiles.map((tile) => ({ ...tile, image: decodePng(new Uint8Array(tile.png)) }));
+  const channels = decoded[0]?.image.channels ?? 4;
+  const pixels = new Uint8Array(width * height * channels);
+  for (const { x, y, image } of decoded) {
+    if (image.channels !== channels) throw new Error("Tiles must share one PNG color type");
+    const rowBytes = Math.min(image.width, width - x) * channels;
+    for (let row = 0; row < image.height && y + row < height; row++) {
+      const src = row * image.width * channels;
+      pixels.set(image.pixels.subarray(src, src + rowBytes), ((y + row) * width + x) * channels);
+    }
+  }
+  return encodePng(width, height, channels, pixels);
+}
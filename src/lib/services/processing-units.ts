@@ -0,0 +1,40 @@
+/**
+ * TerraVision AI – processing-unit (PU) estimation.
+ * Sentinel Hub bills Process and Statistical requests in PUs: 1 PU is a 512 × 512 px output
+ * from 3 input bands of one acquisition, scaled by output area, band count, number of data
+ * samples and output sample type.
+ */
+
+/** Output pixels that make up one PU. */
+const PU_AREA_PX = 512 * 512;
+/** Smallest billed area factor (about 51 × 51 px); tiny outputs still cost this much. */
+const MIN_AREA_FACTOR = 0.01;
+/** Input bands per PU; dataMask is free and not counted. */
+const PU_BANDS = 3;
+/** FLOAT32 outputs cost twice as much as 8/16-bit ones. */
+const FLOAT32_FACTOR = 2;
+/** Minimum charge per request. */
+const MIN_PU_PER_REQUEST = 0.005;
+
+export interface ProcessingUnitRequest {
+  width: number;
+  height: number;
+  /** Input bands read by the evalscript, excluding dataMask. */
+  inputBands: number;
+  /** Acquisitions or aggregation intervals processed (default 1). */
+  dataSamples?: number;
+  float32Output?: boolean;
+  /** Multiplier of extra server-side processing, e.g. Sentinel-1 orthorectification (default 1). */
+  processingFactor?: number;
+}
+
+/** Estimated PU cost of one Process or Statistical request, rounded to 3 decimals. */
+export function estimateProcessingUnits(request: ProcessingUnitRequest): number {
+  const area = Math.max((request.width * request.height) / PU_AREA_PX, MIN_AREA_FACTOR);
+  const bands = Math.max(request.inputBands, 1) / PU_BANDS;
+  const samples = Math.max(request.dataSamples ?? 1, 1);
+  const format = request.float32Output ? FLOAT32_FACTOR : 1;
+  const processing = Math.max(request.processingFactor ?? 1, 1);
+  const units = Math.max(area * bands * samples * format * processing, MIN_PU_PER_REQUEST);
+  return Math.round(units * 1000) / 1000;
+}
@@ -0,0 +1,244 @@
+/**
+ * TerraVision AI – Earth-observation provider abstraction.
+ * sentinel.ts talks to Catalog, Process and Statistical APIs through an EarthObservationProvider,
+ * so the same evalscripts run against Sentinel Hub (EU-Central-1 or US-West-2) or the
+ * Copernicus Data Space Ecosystem. EO_PROVIDER picks the preferred deployment; collections it
+ * does not host go to one that does. SENTINEL_BASE_URL points every deployment at another host,
+ * e.g. the local stand-in (npm run stub).
+ */
+
+import { withResultCache } from "./result-cache";
+import { createSentinelClient, type SentinelClient } from "./sentinel-client";
+import type { VegetationStatsResponse } from "./sentinel";
+
+export const EO_PROVIDER_IDS = ["sentinel-hub", "sentinel-hub-us-west", "cdse"] as const;
+export type EarthObservationProviderId = (typeof EO_PROVIDER_IDS)[number];
+
+const DEFAULT_PROVIDER: EarthObservationProviderId = "sentinel-hub";
+
+/** Process and Statistical requests render pixels server-side and may take longer than a search. */
+const PROCESS_TIMEOUT_MS = 60_000;
+const STATISTICS_TIMEOUT_MS = 60_000;
+
+/** STAC feature as returned by the Catalog API (only the fields we read). */
+export type CatalogFeature = {
+  id?: string;
+  properties?: { datetime?: string; "eo:cloud_cover"?: number; "sat:orbit_state"?: string };
+};
+
+/** A data collection and the deployments hosting it, e.g. an optical collection (collections.ts). */
+export interface HostedCollection {
+  id: string;
+  providers: readonly EarthObservationProviderId[];
+}
+
+export interface CatalogSearchPage {
+  features?: CatalogFeature[];
+  context?: { next?: number };
+}
+
+export interface EarthObservationProvider {
+  readonly id: EarthObservationProviderId;
+  /** Human-readable deployment name, e.g. for tool output. */
+  readonly name: string;
+  /** Base URL of the APIs; part of result cache keys so a stand-in never serves real results. */
+  readonly apiBase: string;
+  getAccessToken(): Promise<string>;
+  /** One Catalog API (STAC) search page. */
+  searchCatalog(body: Record<string, unknown>): Promise<CatalogSearchPage>;
+  /** Process API: render `evalscript` for `request` and return the encoded image. */
+  process(request: Record<string, unknown>, evalscript: string, accept: string): Promise<ArrayBuffer>;
+  /** Statistical API request. */
+  statistics(payload: Record<string, unknown>): Promise<VegetationStatsResponse>;
+}
+
+interface SentinelHubDeployment {
+  id: EarthObservationProviderId;
+  name: string;
+  /** Base URL of the Catalog / Process / Statistical APIs. */
+  apiBase: string;
+  /** OAuth2 token endpoint. */
+  authUrl: string;
+  /** Path of the token endpoint, kept when the base URL is overridden. */
+  authPath: string;
+}
+
+export interface ProviderOptions {
+  /** Replace the deployment's API and auth host, e.g. "http://localhost:4010". */
+  baseUrl?: string;
+}
+
+const DEPLOYMENTS: Record<EarthObservationProviderId, SentinelHubDeployment> = {
+  "sentinel-hub": {
+    id: "sentinel-hub",
+    name: "Sentinel Hub (EU-Central-1)",
+    apiBase: "https://services.sentinel-hub.com",
+    authUrl: "https://services.sentinel-hub.com/auth/realms/main/protocol/openid-connect/token",
+    authPath: "/auth/realms/main/protocol/openid-connect/token",
+  },
+  "sentinel-hub-us-west": {
+    id: "sentinel-hub-us-west",
+    name: "Sentinel Hub (US-West-2)",
+    apiBase: "https://services-uswest2.sentinel-hub.com",
+    authUrl: "https://services.sentinel-hub.com/auth/realms/main/protocol/openid-connect/token",
+    authPath: "/auth/realms/main/protocol/openid-connect/token",
+  },
+  cdse: {
+    id: "cdse",
+    name: "Copernicus Data Space Ecosystem",
+    apiBase: "https://sh.dataspace.copernicus.eu",
+    authUrl: "https://identity.dataspace.copernicus.eu/auth/realms/CDSE/protocol/openid-connect/token",
+    authPath: "/auth/realms/CDSE/protocol/openid-connect/token",
+  },
+};
+
+/** Deployment endpoints, with API and auth moved to `baseUrl` when one is given. */
+function resolveDeployment(
+  id: EarthObservationProviderId,
+  options: ProviderOptions
+): SentinelHubDeployment {
+  const deployment = DEPLOYMENTS[id];
+  if (!options.baseUrl) return deployment;
+  const base = options.baseUrl.replace(/\/+$/, "");
+  return { ...deployment, apiBase: base, authUrl: `${base}${deployment.authPath}` };
+}
+
+/**
+ * Provider for any deployment speaking the Sentinel Hub API dialect. Sentinel Hub and CDSE
+ * differ only in endpoints and identity realm, so both implementations share this factory.
+ */
+function createSentinelHubApiProvider(
+  deployment: SentinelHubDeployment,
+  client: SentinelClient
+): EarthObservationProvider {
+  const catalogSearchUrl = `${deployment.apiBase}/api/v1/catalog/1.0.0/search`;
+  const processUrl = `${deployment.apiBase}/api/v1/process`;
+  const statisticsUrl = `${deployment.apiBase}/api/v1/statistics`;
+
+  return {
+    id: deployment.id,
+    name: deployment.name,
+    apiBase: deployment.apiBase,
+    getAccessToken: () => client.getAccessToken(),
+
+    async searchCatalog(body) {
+      const res = await client.fetch({
+        url: catalogSearchUrl,
+        label: "Catalog search",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/geo+json",
+        },
+        body: JSON.stringify(body),
+      });
+      return (await res.json()) as CatalogSearchPage;
+    },
+
+    async process(request, evalscript, accept) {
+      const form = new FormData();
+      form.append("request", JSON.stringify(request));
+      form.append("evalscript", evalscript);
+
+      const res = await client.fetch({
+        url: processUrl,
+        label: "Process API",
+        headers: { Accept: accept },
+        body: form,
+        timeoutMs: PROCESS_TIMEOUT_MS,
+      });
+      return res.arrayBuffer();
+    },
+
+    async statistics(payload) {
+      const res = await client.fetch({
+        url: statisticsUrl,
+        label: "Statistical API",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify(payload),
+        timeoutMs: STATISTICS_TIMEOUT_MS,
+      });
+      return (await res.json()) as VegetationStatsResponse;
+    },
+  };
+}
+
+/** Sentinel Hub commercial deployment (EU-Central-1 or US-West-2). */
+export function createSentinelHubProvider(
+  region: "eu-central-1" | "us-west-2" = "eu-central-1",
+  options: ProviderOptions = {}
+): EarthObservationProvider {
+  const deployment = resolveDeployment(
+    region === "us-west-2" ? "sentinel-hub-us-west" : "sentinel-hub",
+    options
+  );
+  return createSentinelHubApiProvider(
+    deployment,
+    createSentinelClient({
+      authUrl: deployment.authUrl,
+      clientIdEnv: "SENTINEL_CLIENT_ID",
+      clientSecretEnv: "SENTINEL_CLIENT_SECRET",
+    })
+  );
+}
+
+/**
+ * Copernicus Data Space Ecosystem (sh.dataspace.copernicus.eu). Uses CDSE_CLIENT_ID /
+ * CDSE_CLIENT_SECRET when set, otherwise the SENTINEL_* credentials.
+ */
+export function createCdseProvider(options: ProviderOptions = {}): EarthObservationProvider {
+  const deployment = resolveDeployment("cdse", options);
+  const hasCdseCredentials = Boolean(process.env.CDSE_CLIENT_ID);
+  return createSentinelHubApiProvider(
+    deployment,
+    createSentinelClient({
+      authUrl: deployment.authUrl,
+      clientIdEnv: hasCdseCredentials ? "CDSE_CLIENT_ID" : "SENTINEL_CLIENT_ID",
+      clientSecretEnv: hasCdseCredentials ? "CDSE_CLIENT_SECRET" : "SENTINEL_CLIENT_SECRET",
+    })
+  );
+}
+
+export function isEarthObservationProviderId(value: string): value is EarthObservationProviderId {
+  return (EO_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+// One instance per provider id and base URL so each keeps its token cache across requests.
+const providers = new Map<string, EarthObservationProvider>();
+
+/** Provider for a deployment id; Process and Statistical results go through the result cache. */
+function providerById(id: EarthObservationProviderId): EarthObservationProvider {
+  const options: ProviderOptions = { baseUrl: process.env.SENTINEL_BASE_URL?.trim() || undefined };
+  const key = `${id}|${options.baseUrl ?? ""}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = withResultCache(
+      id === "cdse"
+        ? createCdseProvider(options)
+        : createSentinelHubProvider(id === "sentinel-hub-us-west" ? "us-west-2" : "eu-central-1", options)
+    );
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Provider from EO_PROVIDER (default "sentinel-hub") and optional SENTINEL_BASE_URL. When
+ * `collection` is given and the configured deployment does not host it, the first deployment that
+ * does is used instead, e.g. Sentinel Hub US-West-2 for Landsat while Sentinel-2 stays on EO_PROVIDER.
+ * Process and Statistical results go through the result cache (see result-cache.ts).
+ */
+export function getEarthObservationProvider(collection?: HostedCollection): EarthObservationProvider {
+  const configured = (process.env.EO_PROVIDER ?? DEFAULT_PROVIDER).trim().toLowerCase();
+  if (!isEarthObservationProviderId(configured)) {
+    throw new Error(
+      `Unknown EO_PROVIDER "${configured}". Supported: ${EO_PROVIDER_IDS.join(", ")}`
+    );
+  }
+  if (!collection || collection.providers.includes(configured)) return providerById(configured);
+  const host = collection.providers[0];
+  if (!host) throw new Error(`No provider hosts the collection "${collection.id}".`);
+  return providerById(host);
+}
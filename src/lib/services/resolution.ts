@@ -0,0 +1,194 @@
+/**
+ * TerraVision AI – ground resolution, output size and tiling for bounding boxes.
+ * Output pixels follow a target ground resolution (Sentinel-2 native 10 / 20 / 60 m) measured on
+ * the ellipsoid, so a field is never upsampled and a region is never squeezed into 512 px.
+ * Large outputs are split into Process API tiles; AOIs above MAX_AOI_AREA_KM2 are refused.
+ */
+
+import type { BBox } from "./sentinel";
+
+/** Sentinel-2 native band resolutions (m), finest first. */
+export const TARGET_RESOLUTIONS = [10, 20, 60] as const;
+export type TargetResolution = (typeof TARGET_RESOLUTIONS)[number];
+
+const EARTH_RADIUS_KM = 6371.0088;
+/** Metres per degree of latitude, and of longitude at the equator (WGS84 mean). */
+const METERS_PER_DEGREE_LAT = 110_574;
+const METERS_PER_DEGREE_LON = 111_320;
+
+/** Longest side (px) of an image rendered at automatic resolution. */
+const MAX_AUTO_IMAGE_PX = 2048;
+/** Longest side (px) of any image; finer requested resolutions are coarsened to fit. */
+const MAX_IMAGE_PX = 4096;
+/** Tile side (px) per Process API request when stitching. */
+export const MAX_TILE_PX = 1024;
+/** Process API limit per side (px) for a single request. */
+export const MAX_PROCESS_PX = 2500;
+/** Longest side (px) of a Statistical API grid. */
+const MAX_STATS_PX = 1000;
+const DEFAULT_MAX_AOI_AREA_KM2 = 10_000;
+
+/** Ground extent of a bbox in metres, measured at its middle latitude. */
+export function bboxExtentMeters(bbox: BBox): { width: number; height: number } {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const midLat = ((minLat + maxLat) / 2) * (Math.PI / 180);
+  return {
+    width: Math.abs(maxLon - minLon) * METERS_PER_DEGREE_LON * Math.cos(midLat),
+    height: Math.abs(maxLat - minLat) * METERS_PER_DEGREE_LAT,
+  };
+}
+
+/** Area of a lon/lat bbox on the sphere, in km². */
+export function bboxAreaKm2(bbox: BBox): number {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const rad = Math.PI / 180;
+  const area =
+    EARTH_RADIUS_KM ** 2 *
+    Math.abs(maxLon - minLon) * rad *
+    Math.abs(Math.sin(maxLat * rad) - Math.sin(minLat * rad));
+  return area;
+}
+
+export interface ImagePlan {
+  width: number;
+  height: number;
+  /** Ground resolution (m / px) actually used. */
+  resolution: number;
+}
+
+function sizeAt(bbox: BBox, resolution: number): ImagePlan {
+  const extent = bboxExtentMeters(bbox);
+  return {
+    width: Math.max(1, Math.round(extent.width / resolution)),
+    height: Math.max(1, Math.round(extent.height / resolution)),
+    resolution,
+  };
+}
+
+/**
+ * Output size for `bbox` at `resolution` metres. Without one, the finest native resolution whose
+ * image fits MAX_AUTO_IMAGE_PX is used, coarser than 60 m for regions. Requested resolutions
+ * that would exceed MAX_IMAGE_PX are coarsened.
+ */
+export function planImage(bbox: BBox, resolution?: number): ImagePlan {
+  const limit = resolution === undefined ? MAX_AUTO_IMAGE_PX : MAX_IMAGE_PX;
+  const candidates = resolution === undefined ? TARGET_RESOLUTIONS : [resolution];
+  for (const candidate of candidates) {
+    const plan = sizeAt(bbox, candidate);
+    if (Math.max(plan.width, plan.height) <= limit) return plan;
+  }
+  const extent = bboxExtentMeters(bbox);
+  return sizeAt(bbox, Math.ceil(Math.max(extent.width, extent.height) / limit));
+}
+
+/**
+ * Output size for `bbox` with pixels square on the ground. A single given side sets the scale;
+ * with both, the image fits inside width × height; with neither, planImage picks the resolution.
+ */
+export function sizeImage(bbox: BBox, width?: number, height?: number): ImagePlan {
+  if (width === undefined && height === undefined) return planImage(bbox);
+  const extent = bboxExtentMeters(bbox);
+  const scale = Math.min(
+    width !== undefined ? width / extent.width : Infinity,
+    height !== undefined ? height / extent.height : Infinity
+  );
+  const clamp = (px: number) => Math.min(MAX_IMAGE_PX, Math.max(1, Math.round(px)));
+  const plan = { width: clamp(extent.width * scale), height: clamp(extent.height * scale) };
+  return { ...plan, resolution: Math.round((extent.width / plan.width) * 10) / 10 };
+}
+
+/** Next coarser resolution, for fitting a request into a processing-unit budget. */
+export function coarserResolution(resolution: number): number {
+  return TARGET_RESOLUTIONS.find((r) => r > resolution) ?? resolution * 2;
+}
+
+/** Coarsen `plan` until it fits one Process API request (MAX_PROCESS_PX per side). */
+export function fitSingleRequest(bbox: BBox, plan: ImagePlan): ImagePlan {
+  let fitted = plan;
+  while (Math.max(fitted.width, fitted.height) > MAX_PROCESS_PX) {
+    fitted = planImage(bbox, coarserResolution(fitted.resolution));
+  }
+  return fitted;
+}
+
+export interface ImageTile {
+  bbox: BBox;
+  /** Pixel offset and size inside the full image. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Split a width × height image of `bbox` into tiles of at most MAX_TILE_PX per side. */
+export function splitIntoTiles(bbox: BBox, width: number, height: number): ImageTile[] {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const columns = Math.ceil(width / MAX_TILE_PX);
+  const rows = Math.ceil(height / MAX_TILE_PX);
+  const tiles: ImageTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.round((row * height) / rows);
+    const y1 = Math.round(((row + 1) * height) / rows);
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.round((column * width) / columns);
+      const x1 = Math.round(((column + 1) * width) / columns);
+      tiles.push({
+        // Rows run top (north) to bottom.
+        bbox: [
+          minLon + ((maxLon - minLon) * x0) / width,
+          maxLat - ((maxLat - minLat) * y1) / height,
+          minLon + ((maxLon - minLon) * x1) / width,
+          maxLat - ((maxLat - minLat) * y0) / height,
+        ],
+        x: x0,
+        y: y0,
+        width: x1 - x0,
+        height: y1 - y0,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Statistical API grid resolution in meters: 10 m for fields, coarser for regions so the grid
+ * stays within MAX_STATS_PX per side.
+ */
+export function statisticsResolutionMeters(bbox: BBox): number {
+  const extent = bboxExtentMeters(bbox);
+  const longest = Math.max(extent.width, extent.height);
+  return TARGET_RESOLUTIONS.find((r) => longest / r <= MAX_STATS_PX) ?? Math.ceil(longest / MAX_STATS_PX);
+}
+
+/** statisticsResolutionMeters as degrees (resx, resy) for CRS84 requests. */
+export function statisticsResolutionDegrees(bbox: BBox): { resx: number; resy: number } {
+  const meters = statisticsResolutionMeters(bbox);
+  const midLat = ((bbox[1] + bbox[3]) / 2) * (Math.PI / 180);
+  return {
+    resx: meters / (METERS_PER_DEGREE_LON * Math.max(Math.cos(midLat), 0.01)),
+    resy: meters / METERS_PER_DEGREE_LAT,
+  };
+}
+
+/** Largest AOI (km²) accepted for Process / Statistical requests, from MAX_AOI_AREA_KM2. */
+export function maxAoiAreaKm2(): number {
+  const configured = Number(process.env.MAX_AOI_AREA_KM2);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_AOI_AREA_KM2;
+}
+
+/** A bbox around the centre of `bbox` covering `fraction` of the maximum area, for zoom-in hints. */
+export function suggestZoomIn(bbox: BBox, maxAreaKm2 = maxAoiAreaKm2(), fraction = 0.9): BBox {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const scale = Math.sqrt((maxAreaKm2 * fraction) / bboxAreaKm2(bbox));
+  const centerLon = (minLon + maxLon) / 2;
+  const centerLat = (minLat + maxLat) / 2;
+  const halfLon = ((maxLon - minLon) * scale) / 2;
+  const halfLat = ((maxLat - minLat) * scale) / 2;
+  const round = (value: number) => Math.round(value * 10_000) / 10_000;
+  return [
+    round(centerLon - halfLon),
+    round(centerLat - halfLat),
+    round(centerLon + halfLon),
+    round(centerLat + halfLat),
+  ];
+}
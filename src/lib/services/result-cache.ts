@@ -0,0 +1,342 @@
+/**
+ * TerraVision AI – result cache for Process and Statistical API calls.
+ * Repeated questions about the same field re-render identical requests; caching them saves
+ * processing units. Results are keyed by provider, geometry, time range, evalscript and output
+ * size, held in an in-memory LRU backed by a disk store, and expire by how settled the data is:
+ * historical ranges are effectively immutable, ranges reaching today are short-lived.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EarthObservationProvider } from "./providers";
+import type { VegetationStatsResponse } from "./sentinel";
+
+const DAY_MS = 86_400_000;
+/** Ranges ending before this many days ago are treated as immutable (L2A ingestion has settled). */
+const RECENT_DAYS = 2;
+const HISTORICAL_TTL_MS = 365 * DAY_MS;
+const RECENT_TTL_MS = 15 * 60_000;
+const DEFAULT_MAX_MEMORY_ENTRIES = 200;
+const DEFAULT_CACHE_DIR = ".cache/results";
+
+export const RESULT_CACHE_MODES = ["off", "memory", "disk"] as const;
+export type ResultCacheMode = (typeof RESULT_CACHE_MODES)[number];
+
+/** Whether a result came from the cache, reported in tool outputs. */
+export interface CacheStatus {
+  hit: boolean;
+  /** Layer that served the hit. */
+  source?: "memory" | "disk";
+  /** When the cached result was fetched (ISO). */
+  cachedAt?: string;
+}
+
+type CachedValue = { kind: "binary"; data: ArrayBuffer } | { kind: "json"; data: unknown };
+
+export type CacheEntry = CachedValue & {
+  storedAt: number;
+  expiresAt: number;
+};
+
+export interface ResultCacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+export interface ResultCache {
+  get(key: string): Promise<{ entry: CacheEntry; source: "memory" | "disk" } | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/** In-memory LRU: a Map keeps insertion order, so re-inserting on read marks an entry as recent. */
+export function createMemoryStore(maxEntries = DEFAULT_MAX_MEMORY_ENTRIES): ResultCacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+type DiskRecord = {
+  key: string;
+  kind: CachedValue["kind"];
+  storedAt: number;
+  expiresAt: number;
+  /** Base64 for binary entries, the parsed body for JSON entries. */
+  data: unknown;
+};
+
+/**
+ * One JSON file per key under `directory`. Disk errors (read-only filesystem, full disk) only
+ * cost the cache layer, never the request, so they are swallowed.
+ */
+export function createDiskStore(directory: string): ResultCacheStore {
+  const fileFor = (key: string) => path.join(directory, `${sha256(key)}.json`);
+  return {
+    async get(key) {
+      let record: DiskRecord;
+      try {
+        record = JSON.parse(await readFile(fileFor(key), "utf8")) as DiskRecord;
+      } catch {
+        return undefined;
+      }
+      if (record.key !== key) return undefined;
+      if (record.expiresAt <= Date.now()) {
+        await rm(fileFor(key), { force: true }).catch(() => undefined);
+        return undefined;
+      }
+      const { storedAt, expiresAt } = record;
+      if (record.kind === "binary") {
+        const bytes = Buffer.from(String(record.data), "base64");
+        return { kind: "binary", data: toArrayBuffer(bytes), storedAt, expiresAt };
+      }
+      return { kind: "json", data: record.data, storedAt, expiresAt };
+    },
+    async set(key, entry) {
+      const record: DiskRecord = {
+        key,
+        kind: entry.kind,
+        storedAt: entry.storedAt,
+        expiresAt: entry.expiresAt,
+        data: entry.kind === "binary" ? Buffer.from(entry.data).toString("base64") : entry.data,
+      };
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(fileFor(key), JSON.stringify(record));
+      } catch {
+        // Best effort: the memory layer still serves repeats.
+      }
+    },
+  };
+}
+
+/** Memory LRU in front of an optional disk store; disk hits are promoted to memory. */
+export function createResultCache(memory: ResultCacheStore, disk?: ResultCacheStore): ResultCache {
+  return {
+    async get(key) {
+      const fromMemory = await memory.get(key);
+      if (fromMemory) return { entry: fromMemory, source: "memory" };
+      const fromDisk = await disk?.get(key);
+      if (!fromDisk) return undefined;
+      await memory.set(key, fromDisk);
+      return { entry: fromDisk, source: "disk" };
+    },
+    async set(key, entry) {
+      await memory.set(key, entry);
+      await disk?.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Time-to-live for a result whose time range ends at `to`: long for settled historical data,
+ * short when the range reaches the last RECENT_DAYS, where new acquisitions may still arrive.
+ */
+export function resultTtlMs(to: string | undefined, now = new Date()): number {
+  const end = to ? Date.parse(to) : NaN;
+  if (!Number.isFinite(end)) return RECENT_TTL_MS;
+  const todayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return end < todayStart - (RECENT_DAYS - 1) * DAY_MS ? HISTORICAL_TTL_MS : RECENT_TTL_MS;
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/** The parts of a request that identify its result. */
+export interface ResultCacheKeyParts {
+  api: "process" | "statistics";
+  provider: string;
+  apiBase: string;
+  /** bbox or GeoJSON geometry (with CRS) the request covers. */
+  geometry: unknown;
+  timeRange?: { from?: string; to?: string };
+  evalscript: string;
+  /** Output size: width/height or resolution. */
+  size: unknown;
+  /** The full request body, so collection, mosaicking, format and aggregation also count. */
+  request: unknown;
+}
+
+export function resultCacheKey(parts: ResultCacheKeyParts): string {
+  const range = `${parts.timeRange?.from ?? ""}/${parts.timeRange?.to ?? ""}`;
+  return [
+    parts.api,
+    parts.provider,
+    parts.apiBase,
+    `geometry:${sha256(JSON.stringify(parts.geometry ?? null))}`,
+    range,
+    `evalscript:${sha256(parts.evalscript)}`,
+    `size:${JSON.stringify(parts.size ?? null)}`,
+    `request:${sha256(JSON.stringify(parts.request))}`,
+  ].join("|");
+}
+
+// Cache status per returned result object, so sentinel.ts and the tools can report hits
+// without changing the provider's return types.
+const statuses = new WeakMap<object, CacheStatus>();
+
+export function recordCacheStatus<T extends object>(result: T, status: CacheStatus): T {
+  statuses.set(result, status);
+  return result;
+}
+
+/** Cache status of a provider result (or a value derived from one via recordCacheStatus). */
+export function getCacheStatus(result: object): CacheStatus | undefined {
+  return statuses.get(result);
+}
+
+export function isResultCacheMode(value: string): value is ResultCacheMode {
+  return (RESULT_CACHE_MODES as readonly string[]).includes(value);
+}
+
+// One cache per configuration, so env changes (e.g. in tests) take effect without a restart.
+const caches = new Map<string, ResultCache>();
+
+/**
+ * Active cache from RESULT_CACHE ("disk" by default, "memory" or "off"), RESULT_CACHE_DIR and
+ * RESULT_CACHE_MAX_ENTRIES; undefined when caching is off.
+ */
+export function getResultCache(): ResultCache | undefined {
+  const configured = (process.env.RESULT_CACHE ?? "disk").trim().toLowerCase();
+  if (!isResultCacheMode(configured)) {
+    throw new Error(
+      `Unknown RESULT_CACHE "${configured}". Supported: ${RESULT_CACHE_MODES.join(", ")}`
+    );
+  }
+  if (configured === "off") return undefined;
+  const directory = process.env.RESULT_CACHE_DIR?.trim() || DEFAULT_CACHE_DIR;
+  const maxEntries = Number(process.env.RESULT_CACHE_MAX_ENTRIES) || DEFAULT_MAX_MEMORY_ENTRIES;
+  const configKey = `${configured}|${directory}|${maxEntries}`;
+  let cache = caches.get(configKey);
+  if (!cache) {
+    cache = createResultCache(
+      createMemoryStore(maxEntries),
+      configured === "disk" ? createDiskStore(path.resolve(directory)) : undefined
+    );
+    caches.set(configKey, cache);
+  }
+  return cache;
+}
+
+type RequestBody = {
+  input?: { bounds?: unknown; data?: Array<{ dataFilter?: { timeRange?: { from?: string; to?: string } } }> };
+  output?: { width?: number; height?: number; resx?: number; resy?: number };
+  aggregation?: {
+    timeRange?: { from?: string; to?: string };
+    width?: number;
+    height?: number;
+    resx?: number;
+    resy?: number;
+    evalscript?: string;
+  };
+};
+
+/**
+ * Wrap a provider so process() and statistics() are served from the result cache when possible.
+ * Catalog searches and tokens pass through: they are cheap and must see new acquisitions.
+ */
+export function withResultCache(
+  provider: EarthObservationProvider,
+  resolveCache: () => ResultCache | undefined = getResultCache
+): EarthObservationProvider {
+  async function cached<T extends object>(
+    parts: ResultCacheKeyParts,
+    load: () => Promise<CachedValue>,
+    unwrap: (value: CachedValue) => T,
+    storable: (value: CachedValue) => boolean = () => true
+  ): Promise<T> {
+    const cache = resolveCache();
+    if (!cache) return unwrap(await load());
+
+    const key = resultCacheKey(parts);
+    const found = await cache.get(key);
+    if (found) {
+      return recordCacheStatus(unwrap(copyValue(found.entry)), {
+        hit: true,
+        source: found.source,
+        cachedAt: new Date(found.entry.storedAt).toISOString(),
+      });
+    }
+
+    const value = await load();
+    if (!storable(value)) return recordCacheStatus(unwrap(value), { hit: false });
+    const storedAt = Date.now();
+    await cache.set(key, {
+      ...copyValue(value),
+      storedAt,
+      expiresAt: storedAt + resultTtlMs(parts.timeRange?.to),
+    });
+    return recordCacheStatus(unwrap(value), { hit: false });
+  }
+
+  return {
+    ...provider,
+
+    process(request, evalscript, accept) {
+      const body = request as RequestBody;
+      return cached(
+        {
+          api: "process",
+          provider: provider.id,
+          apiBase: provider.apiBase,
+          geometry: body.input?.bounds,
+          timeRange: body.input?.data?.[0]?.dataFilter?.timeRange,
+          evalscript,
+          size: [body.output?.width, body.output?.height, body.output?.resx, body.output?.resy],
+          request: { request, accept },
+        },
+        async () => ({ kind: "binary", data: await provider.process(request, evalscript, accept) }),
+        (value) => value.data as ArrayBuffer
+      );
+    },
+
+    statistics(payload) {
+      const body = payload as RequestBody;
+      const aggregation = body.aggregation;
+      return cached(
+        {
+          api: "statistics",
+          provider: provider.id,
+          apiBase: provider.apiBase,
+          geometry: body.input?.bounds,
+          timeRange: aggregation?.timeRange,
+          evalscript: aggregation?.evalscript ?? "",
+          size: [aggregation?.width, aggregation?.height, aggregation?.resx, aggregation?.resy],
+          request: payload,
+        },
+        async () => ({ kind: "json", data: await provider.statistics(payload) }),
+        (value) => value.data as VegetationStatsResponse,
+        // A failed interval is often transient; caching it would repeat the gap for the whole TTL.
+        (value) => !(value.data as VegetationStatsResponse).data?.some((entry) => entry.error)
+      );
+    },
+  };
+}
+
+/** Cached values are handed out as copies so callers can't mutate what the cache holds. */
+function copyValue(value: CachedValue): CachedValue {
+  return value.kind === "binary"
+    ? { kind: "binary", data: value.data.slice(0) }
+    : { kind: "json", data: structuredClone(value.data) };
+}
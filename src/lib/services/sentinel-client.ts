@@ -0,0 +1,251 @@
+/**
+ * TerraVision AI – Sentinel Hub HTTP client.
+ * Shared by every Catalog, Process and Statistical call: OAuth token cache with refresh on 401,
+ * AbortSignal timeouts, retries with exponential backoff honoring Retry-After, and typed errors.
+ * One client per deployment (Sentinel Hub EU / US-West, Copernicus Data Space), each with its own token.
+ */
+
+import {
+  AuthError,
+  NoDataError,
+  QuotaExceededError,
+  RateLimitedError,
+  RequestTimeoutError,
+  SentinelHubError,
+} from "./errors";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+/** Retries after the first attempt for 429 / 5xx / network errors / timeouts. */
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+/** A Retry-After longer than this is not waited out; the caller gets RateLimitedError instead. */
+const MAX_RETRY_AFTER_MS = 30_000;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const QUOTA_PATTERN = /quota|processing unit/i;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After as milliseconds (delta-seconds or HTTP date); null when absent or unparsable. */
+function parseRetryAfter(header: string | null): number | null {
+  if (header === null || header.trim() === "") return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  // Full jitter keeps parallel tool calls from retrying in lockstep.
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+/** Map a failed response onto the typed error hierarchy. */
+function errorFromResponse(label: string, res: Response, text: string): SentinelHubError {
+  const message = `Sentinel Hub ${label} failed (${res.status}): ${text}`;
+  if (QUOTA_PATTERN.test(text) && [402, 403, 429].includes(res.status)) {
+    return new QuotaExceededError(message, res.status);
+  }
+  if (res.status === 429) {
+    const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+    return new RateLimitedError(message, retryAfter === null ? undefined : retryAfter / 1000);
+  }
+  if (res.status === 401 || res.status === 403) return new AuthError(message, res.status);
+  if (res.status === 404) return new NoDataError(message, res.status);
+  return new SentinelHubError(message, res.status);
+}
+
+/**
+ * fetch with per-attempt timeout and retries on 429 / 5xx / network failures.
+ * Returns the last response (ok or not) once it is no longer retryable.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  label: string,
+  timeoutMs: number
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (err) {
+      const timedOut = err instanceof DOMException && err.name === "TimeoutError";
+      if (attempt < MAX_RETRIES) {
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+      if (timedOut) {
+        throw new RequestTimeoutError(
+          `Sentinel Hub ${label} timed out after ${timeoutMs} ms (${attempt + 1} attempts)`
+        );
+      }
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new SentinelHubError(`Sentinel Hub ${label} request failed: ${reason}`);
+    }
+
+    if (!RETRYABLE_STATUS.has(res.status) || attempt >= MAX_RETRIES) return res;
+
+    const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+    if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) return res;
+    // Drain the body so the connection can be reused.
+    await res.body?.cancel();
+    await sleep(retryAfter ?? backoffDelay(attempt));
+  }
+}
+
+export interface SentinelRequest {
+  url: string;
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  /** Strings and FormData can be re-sent as-is on retry. */
+  body?: string | FormData;
+  /** Human-readable API name for error messages, e.g. "Catalog search". */
+  label: string;
+  timeoutMs?: number;
+}
+
+export interface SentinelClientConfig {
+  /** OAuth2 token endpoint of the deployment's identity realm. */
+  authUrl: string;
+  /** Env vars holding the client credentials. */
+  clientIdEnv: string;
+  clientSecretEnv: string;
+}
+
+export interface SentinelClient {
+  /** Obtain an access token and cache it until ~60s before it expires. */
+  getAccessToken(): Promise<string>;
+  /** Drop the cached token, e.g. after the service revoked it (401). */
+  invalidateAccessToken(): void;
+  /**
+   * Authenticated request. Resolves with an ok Response; throws a typed SentinelHubError
+   * otherwise. A 401 drops the cached token and retries once with a new one.
+   */
+  fetch(request: SentinelRequest): Promise<Response>;
+}
+
+/**
+ * Decode JWT payload to read exp (seconds since epoch). No signature check.
+ */
+function getExpFromToken(token: string): number {
+  try {
+    const payload = token.split(".")[1];
+    if (!payload) return 0;
+    const raw =
+      typeof Buffer !== "undefined"
+        ? Buffer.from(payload, "base64url").toString("utf8")
+        : atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const decoded = JSON.parse(raw) as { exp?: number };
+    return decoded.exp ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function createSentinelClient(config: SentinelClientConfig): SentinelClient {
+  // Token cache: reuse until ~60s before exp to avoid race conditions
+  let cachedToken: { access_token: string; exp: number } | null = null;
+  // Concurrent callers share one in-flight token request.
+  let pendingToken: Promise<string> | null = null;
+
+  function getClientCredentials(): { clientId: string; clientSecret: string } {
+    const clientId = process.env[config.clientIdEnv];
+    const clientSecret = process.env[config.clientSecretEnv];
+    if (!clientId || !clientSecret) {
+      throw new AuthError(
+        `Missing ${config.clientIdEnv} or ${config.clientSecretEnv} in environment`
+      );
+    }
+    return { clientId, clientSecret };
+  }
+
+  async function requestAccessToken(): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const { clientId, clientSecret } = getClientCredentials();
+    const body = new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: clientId,
+      client_secret: clientSecret,
+    });
+
+    const res = await fetchWithRetry(
+      config.authUrl,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: body.toString(),
+      },
+      "auth",
+      DEFAULT_TIMEOUT_MS
+    );
+
+    if (!res.ok) {
+      const text = await res.text();
+      if (res.status === 400 || res.status === 401 || res.status === 403) {
+        throw new AuthError(`Sentinel Hub auth failed (${res.status}): ${text}`, res.status);
+      }
+      throw errorFromResponse("auth", res, text);
+    }
+
+    const data = (await res.json()) as {
+      access_token: string;
+      expires_in?: number;
+    };
+    const exp = data.expires_in
+      ? now + data.expires_in
+      : getExpFromToken(data.access_token);
+    cachedToken = { access_token: data.access_token, exp };
+    return data.access_token;
+  }
+
+  async function getAccessToken(): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    if (cachedToken && cachedToken.exp > now + 60) {
+      return cachedToken.access_token;
+    }
+    if (!pendingToken) {
+      pendingToken = requestAccessToken().finally(() => {
+        pendingToken = null;
+      });
+    }
+    return pendingToken;
+  }
+
+  function invalidateAccessToken(): void {
+    cachedToken = null;
+  }
+
+  async function authenticatedFetch(request: SentinelRequest): Promise<Response> {
+    const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    for (let refreshed = false; ; refreshed = true) {
+      const token = await getAccessToken();
+      const res = await fetchWithRetry(
+        request.url,
+        {
+          method: request.method ?? "POST",
+          headers: { ...request.headers, Authorization: `Bearer ${token}` },
+          body: request.body,
+        },
+        request.label,
+        timeoutMs
+      );
+
+      if (res.ok) return res;
+      if (res.status === 401 && !refreshed) {
+        await res.body?.cancel();
+        invalidateAccessToken();
+        continue;
+      }
+      const text = await res.text();
+      throw errorFromResponse(request.label, res, text);
+    }
+  }
+
+  return { getAccessToken, invalidateAccessToken, fetch: authenticatedFetch };
+}
@@ -1,17 +1,121 @@
 /**
  * TerraVision AI – Sentinel Hub API Service Layer
- * EU-Central-1 (Frankfurt) deployment. Catalog, Process, and Statistical APIs only.
+ * Catalog, Process, and Statistical APIs only. Requests go through the EarthObservationProvider
+ * (providers.ts) hosting their collection: Sentinel Hub EU / US-West or Copernicus Data Space.
+ * Single-date optical products also run on Landsat 8/9 and HLS (collections.ts).
  */
 
-const SENTINEL_BASE = "https://services.sentinel-hub.com";
-const AUTH_URL = `${SENTINEL_BASE}/auth/realms/main/protocol/openid-connect/token`;
-const CATALOG_SEARCH_URL = `${SENTINEL_BASE}/api/v1/catalog/1.0.0/search`;
-const PROCESS_URL = `${SENTINEL_BASE}/api/v1/process`;
-const STATISTICS_URL = `${SENTINEL_BASE}/api/v1/statistics`;
+import { bboxToPolygon } from "../chat-parser";
+import {
+  changeColorRamp,
+  colorRampFunction,
+  MASKED_PIXEL_COLOR,
+  radarColorRamp,
+  resolveColorRamp,
+  type ColorRampOptions,
+  type ResolvedColorRamp,
+} from "./color-ramps";
+import {
+  collectionBands,
+  DEFAULT_OPTICAL_COLLECTION,
+  getOpticalCollection,
+  type OpticalCollection,
+  type OpticalCollectionId,
+} from "./collections";
+import { AreaTooLargeError, InvalidRequestError, NoDataError, SentinelHubError } from "./errors";
+import { getSpectralIndex, type SpectralIndex, type SpectralIndexId, type VegetationClass } from "./indices";
+import { tagGeoTiff } from "./geotiff";
+import { getEarthObservationProvider, type CatalogFeature, type HostedCollection } from "./providers";
+import { stitchPngTiles } from "./png";
+import { estimateProcessingUnits } from "./processing-units";
+import {
+  bboxAreaKm2,
+  maxAoiAreaKm2,
+  MAX_PROCESS_PX,
+  MAX_TILE_PX,
+  splitIntoTiles,
+  statisticsResolutionDegrees,
+  statisticsResolutionMeters,
+  suggestZoomIn,
+} from "./resolution";
+import { getCacheStatus, recordCacheStatus, type CacheStatus } from "./result-cache";
+import { isValidMapTile, MAP_TILE_PX, mapTileBoundsMeters, WEB_MERCATOR_CRS } from "./web-mercator";
 
 const COLLECTION_S2L2A = "sentinel-2-l2a";
+const COLLECTION_S1GRD = "sentinel-1-grd";
 const CRS_WGS84 = "http://www.opengis.net/def/crs/OGC/1.3/CRS84";
-const MAX_CLOUD_COVER_PERCENT = 10;
+/** Default maximum cloud cover (%) measured over the AOI itself, not the whole tile. */
+const DEFAULT_MAX_AOI_CLOUD_PERCENT = 10;
+/** Loose tile-level pre-filter: a tile this cloudy is almost never clear over a field. */
+const TILE_CLOUD_PREFILTER_PERCENT = 95;
+/** Catalog page size (Sentinel Hub maximum) and a safety cap on followed `next` pages. */
+const CATALOG_PAGE_LIMIT = 100;
+const MAX_CATALOG_PAGES = 20;
+/** AOI cloud fractions within the same bucket count as equally clear, so recency decides. */
+const CLARITY_BUCKET_PERCENT = 5;
+
+/** No-data color in formats without transparency (JPEG). */
+const OPAQUE_NO_DATA_COLOR = [1, 1, 1];
+
+/** Process / Statistical API input collection, with its data filter and processing options. */
+interface DataSource {
+  type: string;
+  dataFilter?: Record<string, unknown>;
+  processing?: Record<string, unknown>;
+}
+
+const S2L2A_SOURCE: DataSource = { type: COLLECTION_S2L2A };
+/** Sentinel-2 L2A as an optical collection: identity band mapping, SCL cloud mask. */
+const SENTINEL2 = getOpticalCollection(COLLECTION_S2L2A);
+/**
+ * Sentinel-1 GRD: dual-polarisation (VV + VH) Interferometric Wide swath scenes at 10 m, as
+ * linear gamma0 backscatter, terrain-flattened and orthorectified on the Copernicus DEM.
+ */
+const S1GRD_SOURCE: DataSource = {
+  type: COLLECTION_S1GRD,
+  dataFilter: { acquisitionMode: "IW", polarization: "DV", resolution: "HIGH" },
+  processing: { backCoeff: "GAMMA0_TERRAIN", orthorectify: true, demInstance: "COPERNICUS" },
+};
+/** Sentinel-1 GRD is hosted on Sentinel Hub EU-Central-1 and CDSE, not on US-West-2. */
+const SENTINEL1: HostedCollection = { id: COLLECTION_S1GRD, providers: ["sentinel-hub", "cdse"] };
+
+/** Provider of a deployment hosting the source's collection (see getEarthObservationProvider). */
+function providerFor(source: DataSource) {
+  return getEarthObservationProvider(source.type === COLLECTION_S1GRD ? SENTINEL1 : getOpticalCollection(source.type));
+}
+
+/** Process API image formats; JPEG has no alpha channel. */
+export const IMAGE_FORMATS = ["png", "jpeg", "webp"] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+export const GEOTIFF_MIME_TYPE = "image/tiff";
+
+function hasAlpha(format: ImageFormat): boolean {
+  return format !== "jpeg";
+}
+/** Process API tiles fetched at once when a large image is split. */
+const TILE_CONCURRENCY = 4;
+/** Statistical API requests in flight at once for multi-field stats. */
+const STATS_CONCURRENCY = 4;
+/** Features accepted by getZonalStats in one call. */
+export const MAX_ZONAL_FEATURES = 100;
+/** Sentinel-2 revisit (days) at mid latitudes with both satellites, for composite PU estimates. */
+const SENTINEL2_REVISIT_DAYS = 5;
+
+/**
+ * Per-pixel composite modes over a date range: the clear observation from the least cloudy
+ * acquisition, the most recent clear observation, the greenest one, or the median one.
+ */
+export const COMPOSITE_MODES = ["least-cloud", "most-recent", "max-ndvi", "median"] as const;
+export type CompositeMode = (typeof COMPOSITE_MODES)[number];
+/** Longest composite window (days). */
+export const MAX_COMPOSITE_DAYS = 90;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -24,12 +128,89 @@ export interface DateRange {
   to: string;
 }
 
+/** Every acquisition from `from` to `to` (YYYY-MM-DD, inclusive), composited per pixel by `mode`. */
+export interface Composite extends DateRange {
+  mode: CompositeMode;
+}
+
+/** An acquisition a composite takes pixels from. */
+export interface CompositeDate {
+  date: string;
+  /** Fraction (0..1) of the composite's clear pixels taken from this acquisition. */
+  pixelFraction: number;
+}
+
 export interface CatalogImageResult {
   id: string;
   timestamp: string;
+  /** Optical collection the scene belongs to. */
+  collection: OpticalCollectionId;
+  /** MGRS tiles (e.g. "32UQD") or Landsat path/rows (e.g. "193023") covering the AOI. */
+  tileIds?: string[];
+  /** Tile-level cloud cover (%) from the catalog metadata. */
+  cloudCover?: number;
+  /** Cloud / shadow / snow cover (%) measured inside the AOI from the collection's cloud mask. */
+  aoiCloudCover?: number;
+}
+
+/** All catalog tiles of one acquisition date merged into a single entry. */
+export interface AcquisitionDate {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Earliest tile timestamp of the pass. */
+  timestamp: string;
+  /** Optical collection of the pass; one date may appear once per collection. */
+  collection: OpticalCollectionId;
+  /** Catalog feature ids of every tile acquired that day. */
+  featureIds: string[];
+  /** MGRS tile ids, e.g. "32UQD"; Landsat WRS-2 path/rows, e.g. "193023". */
+  tileIds: string[];
+  /** Mean tile-level cloud cover (%) across the merged tiles. */
   cloudCover?: number;
 }
 
+/** Sentinel-1 acquisitions of one date merged into a single entry; radar has no cloud cover. */
+export interface RadarAcquisitionDate extends Omit<AcquisitionDate, "collection" | "tileIds" | "cloudCover"> {
+  /** Ascending (evening) or descending (morning) pass; backscatter is comparable within one. */
+  orbitState?: string;
+}
+
+export interface SceneSearchOptions {
+  /** Maximum cloud cover (%) inside the AOI. Defaults to 10. */
+  maxCloudCover?: number;
+  /** Optical collections searched together, ranked as one list. Defaults to Sentinel-2 L2A. */
+  collections?: OpticalCollectionId[];
+}
+
+export interface IndexPercentiles {
+  p10: number;
+  p25: number;
+  /** Median. */
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/** Histogram bin over [lowEdge, highEdge) of the valid pixels. */
+export interface HistogramBin {
+  lowEdge: number;
+  highEdge: number;
+  count: number;
+  areaHa: number;
+}
+
+/** Clear area of one vegetation density class (see indices.ts). */
+export interface VegetationClassArea {
+  id: VegetationClass["id"];
+  label: string;
+  /** Class range [min, max); open-ended classes omit a side. */
+  min?: number;
+  max?: number;
+  areaHa: number;
+  /** Share (0..1) of the valid pixels. */
+  fraction: number;
+}
+
 export interface VegetationStats {
   mean: number;
   min: number;
@@ -37,19 +218,51 @@ export interface VegetationStats {
   stDev: number;
   sampleCount?: number;
   noDataCount?: number;
+  /** Fraction (0..1) of the AOI's data pixels hidden by cloud, cloud shadow or snow (SCL mask). */
+  maskedFraction?: number;
+  /** Single-date stats: distribution of the valid pixels. */
+  percentiles?: IndexPercentiles;
+  /** Single-date stats: HISTOGRAM_BIN_WIDTH bins over the index's valid range, empty bins omitted. */
+  histogram?: HistogramBin[];
+  /** Area of the valid (clear, in-range) pixels in hectares. */
+  validAreaHa?: number;
+  /** Greenness indices: hectares per vegetation density class. */
+  classAreas?: VegetationClassArea[];
 }
 
+/** Per-band stats as the Statistical API reports them; percentiles are keyed "10.0", "25.0", …. */
+type StatisticalBandStats = Omit<VegetationStats, "percentiles" | "histogram" | "validAreaHa" | "classAreas"> & {
+  percentiles?: Record<string, number>;
+};
+
+type StatisticalBand = {
+  stats?: StatisticalBandStats;
+  histogram?: {
+    bins?: Array<{ lowEdge: number; highEdge: number; count: number }>;
+    overflowCount?: number;
+    underflowCount?: number;
+  };
+};
+
+/** One Statistical API output with its per-band stats. */
+type StatisticalOutput = {
+  bands?: {
+    B0?: StatisticalBand;
+    [key: string]: StatisticalBand | undefined;
+  };
+};
+
 export interface VegetationStatsResponse {
   status: string;
+  /** Ground size (m) of the statistics grid's pixels, for areas; set by requestStatistics. */
+  resolutionMeters?: number;
   data: Array<{
     interval: { from: string; to: string };
+    /** Set instead of useful outputs when the interval failed server-side. */
+    error?: { type?: string; message?: string };
     outputs: {
-      ndvi?: {
-        bands?: {
-          B0?: { stats?: VegetationStats };
-          [key: string]: { stats?: VegetationStats } | undefined;
-        };
-      };
+      index?: StatisticalOutput;
+      masked?: StatisticalOutput;
       [key: string]: unknown;
     };
   }>;
@@ -61,204 +274,521 @@ export type GeoJsonPolygon = {
   coordinates: number[][][];
 };
 
-// Token cache: reuse until ~60s before exp to avoid race conditions
-let cachedToken: { access_token: string; exp: number } | null = null;
+/** GeoJSON MultiPolygon (WGS84), e.g. several drawn field parts. */
+export type GeoJsonMultiPolygon = {
+  type: "MultiPolygon";
+  coordinates: number[][][][];
+};
+
+/** Area of interest accepted by the Statistical API and for clipping imagery. */
+export type GeoJsonGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+/** A field for getZonalStats: its id comes from `id`, `properties.id` or `properties.name`. */
+export interface ZoneFeature {
+  type: "Feature";
+  id?: string | number;
+  properties?: { id?: string | number; name?: string; [key: string]: unknown } | null;
+  geometry: GeoJsonGeometry;
+}
+
+export interface ZoneFeatureCollection {
+  type: "FeatureCollection";
+  features: ZoneFeature[];
+}
+
+/** One row of the zonal stats table; `stats` is null when the field had no valid pixels. */
+export interface ZonalStatsRow {
+  id: string;
+  name?: string;
+  stats: VegetationStats | null;
+  /** Cloud/shadow/snow fraction, also reported when every pixel was masked. */
+  maskedFraction?: number;
+  /** Why this field has no stats (no acquisition, area too large); other fields are unaffected. */
+  error?: string;
+}
+
+/**
+ * 1. Authentication (OAuth2 Client Credentials)
+ * Access token of the active provider, cached until it expires.
+ */
+export async function getAccessToken(): Promise<string> {
+  return getEarthObservationProvider().getAccessToken();
+}
+
+/** Catalog search bounds as `from/to` with full timestamps. */
+function catalogDatetime(dateRange: DateRange): { from: string; to: string } {
+  return {
+    from: dateRange.from.includes("T") ? dateRange.from : `${dateRange.from}T00:00:00Z`,
+    to: dateRange.to.includes("T") ? dateRange.to : `${dateRange.to}T23:59:59Z`,
+  };
+}
+
+/**
+ * Catalog API search of `collection` following the `next` token across pages, so long date
+ * ranges and AOIs spanning several MGRS tiles return every feature rather than the first page.
+ * `filter` is a CQL2 JSON filter on feature properties. Throws InvalidRequestError rather than
+ * return a partial list when the search needs more than MAX_CATALOG_PAGES pages.
+ */
+async function fetchCatalogFeatures(
+  bbox: BBox,
+  datetime: { from: string; to: string },
+  collection: HostedCollection = SENTINEL2,
+  filter?: object
+): Promise<CatalogFeature[]> {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+
+  const payload: Record<string, unknown> = {
+    bbox: [minLon, minLat, maxLon, maxLat],
+    datetime: `${datetime.from}/${datetime.to}`,
+    collections: [collection.id],
+    limit: CATALOG_PAGE_LIMIT,
+  };
+  if (filter) {
+    payload["filter-lang"] = "cql2-json";
+    payload.filter = filter;
+  }
 
-function getClientCredentials(): { clientId: string; clientSecret: string } {
-  const clientId = process.env.SENTINEL_CLIENT_ID;
-  const clientSecret = process.env.SENTINEL_CLIENT_SECRET;
-  if (!clientId || !clientSecret) {
-    throw new Error(
-      "Missing SENTINEL_CLIENT_ID or SENTINEL_CLIENT_SECRET in environment"
+  const provider = getEarthObservationProvider(collection);
+  const features: CatalogFeature[] = [];
+  let next: number | undefined;
+  for (let page = 0; page < MAX_CATALOG_PAGES; page++) {
+    const data = await provider.searchCatalog(
+      next === undefined ? payload : { ...payload, next }
     );
+    features.push(...(data.features ?? []));
+    next = data.context?.next;
+    if (next === undefined) return features;
   }
-  return { clientId, clientSecret };
+  throw new InvalidRequestError(
+    `More than ${MAX_CATALOG_PAGES * CATALOG_PAGE_LIMIT} ${collection.id} scenes cover this area from ${datetime.from.slice(0, 10)} to ${datetime.to.slice(0, 10)}; narrow the date range or the area.`
+  );
 }
 
 /**
- * Decode JWT payload to read exp (seconds since epoch). No signature check.
+ * Tile id from a product id: the MGRS tile of Sentinel-2 and HLS ids (…_T32UQD_…, ….T32UQD.…)
+ * or the WRS-2 path/row of Landsat ids (LC09_L2SP_193023_…); null if the id has no tile part.
  */
-function getExpFromToken(token: string): number {
-  try {
-    const payload = token.split(".")[1];
-    if (!payload) return 0;
-    const raw =
-      typeof Buffer !== "undefined"
-        ? Buffer.from(payload, "base64url").toString("utf8")
-        : atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
-    const decoded = JSON.parse(raw) as { exp?: number };
-    return decoded.exp ?? 0;
-  } catch {
-    return 0;
+function tileFromId(id: string): string | null {
+  const match = id.match(/[._]T(\d{2}[A-Z]{3})[._]/) ?? id.match(/^L[COTE]0\d_\w{4}_(\d{6})_/);
+  return match ? match[1] : null;
+}
+
+/** Catalog features of one pass, before the collection is attached. */
+type CatalogPass = Omit<AcquisitionDate, "collection">;
+
+/** Merge catalog features by acquisition date (tiles of the same pass), newest first. */
+function groupByAcquisitionDate(features: CatalogFeature[]): CatalogPass[] {
+  const byDate = new Map<string, { entry: CatalogPass; clouds: number[] }>();
+  for (const feature of features) {
+    const timestamp = feature.properties?.datetime;
+    if (!timestamp) continue;
+    const date = timestamp.split("T")[0];
+    let group = byDate.get(date);
+    if (!group) {
+      group = { entry: { date, timestamp, featureIds: [], tileIds: [] }, clouds: [] };
+      byDate.set(date, group);
+    }
+    const { entry, clouds } = group;
+    if (timestamp < entry.timestamp) entry.timestamp = timestamp;
+    const id = feature.id ?? "";
+    if (id && !entry.featureIds.includes(id)) entry.featureIds.push(id);
+    const tile = tileFromId(id);
+    if (tile && !entry.tileIds.includes(tile)) entry.tileIds.push(tile);
+    const cloud = feature.properties?.["eo:cloud_cover"];
+    if (typeof cloud === "number") clouds.push(cloud);
   }
+
+  return [...byDate.values()]
+    .map(({ entry, clouds }) =>
+      clouds.length > 0
+        ? { ...entry, cloudCover: Math.round((clouds.reduce((a, b) => a + b, 0) / clouds.length) * 10) / 10 }
+        : entry
+    )
+    .sort(byDateDescending);
+}
+
+/** Optical collection as a Process / Statistical API input. */
+function opticalSource(collection: OpticalCollection, dataFilter?: Record<string, unknown>): DataSource {
+  return { type: collection.id, ...(dataFilter ? { dataFilter } : {}) };
+}
+
+/** Newest first; passes of different collections on the same date keep their relative order. */
+function byDateDescending(a: { date: string }, b: { date: string }): number {
+  return a.date < b.date ? 1 : a.date > b.date ? -1 : 0;
 }
 
 /**
- * 1. Authentication (OAuth2 Client Credentials)
- * Obtain an access token and cache it until it expires.
+ * 2a. Catalog API – every acquisition date over the AOI in the range (all pages, tiles of the
+ * same pass merged), newest first, with per-date tile cloud cover and tile ids. Several
+ * `collections` are searched together and merged into one list, each date tagged with its own.
  */
-export async function getAccessToken(): Promise<string> {
-  const now = Math.floor(Date.now() / 1000);
-  if (cachedToken && cachedToken.exp > now + 60) {
-    return cachedToken.access_token;
-  }
+export async function listAvailableDates(
+  bbox: BBox,
+  dateRange: DateRange,
+  collectionIds: OpticalCollectionId[] = [DEFAULT_OPTICAL_COLLECTION]
+): Promise<AcquisitionDate[]> {
+  const perCollection = await Promise.all(
+    collectionIds.map(async (id) => {
+      const collection = getOpticalCollection(id);
+      const features = await fetchCatalogFeatures(bbox, catalogDatetime(dateRange), collection);
+      return groupByAcquisitionDate(features).map((pass) => ({ ...pass, collection: collection.id }));
+    })
+  );
+  return perCollection.flat().sort(byDateDescending);
+}
 
-  const { clientId, clientSecret } = getClientCredentials();
-  const body = new URLSearchParams({
-    grant_type: "client_credentials",
-    client_id: clientId,
-    client_secret: clientSecret,
+/**
+ * 2c. Catalog API – Sentinel-1 GRD acquisitions (IW, VV + VH) over the AOI, newest first. Radar
+ * sees through clouds, so every date is usable: the fallback when searchSatelliteImages finds no
+ * clear Sentinel-2 scene.
+ */
+export async function listRadarDates(bbox: BBox, dateRange: DateRange): Promise<RadarAcquisitionDate[]> {
+  const features = await fetchCatalogFeatures(bbox, catalogDatetime(dateRange), SENTINEL1, {
+    op: "and",
+    args: [
+      { op: "=", args: [{ property: "sar:instrument_mode" }, "IW"] },
+      { op: "=", args: [{ property: "s1:polarization" }, "DV"] },
+    ],
   });
+  const orbits = new Map(
+    features.map((feature) => [feature.properties?.datetime?.split("T")[0], feature.properties?.["sat:orbit_state"]])
+  );
+  return groupByAcquisitionDate(features).map(({ date, timestamp, featureIds }) => {
+    const orbitState = orbits.get(date);
+    return { date, timestamp, featureIds, ...(orbitState ? { orbitState } : {}) };
+  });
+}
 
-  const res = await fetch(AUTH_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: body.toString(),
+/**
+ * Scenes of one collection under `maxCloudCover` inside the AOI, unranked, with the cache status
+ * of the AOI cloud request (null when no candidate date needed one).
+ */
+async function clearScenes(
+  bbox: BBox,
+  datetime: { from: string; to: string },
+  collection: OpticalCollection,
+  maxCloudCover: number
+): Promise<{ scenes: CatalogImageResult[]; cache: CacheStatus | undefined | null }> {
+  const source = opticalSource(collection, { mosaickingOrder: "leastCC" });
+  const features = await fetchCatalogFeatures(bbox, datetime, collection, {
+    op: "<",
+    args: [{ property: "eo:cloud_cover" }, TILE_CLOUD_PREFILTER_PERCENT],
   });
+  const dates = groupByAcquisitionDate(features);
+  if (dates.length === 0) return { scenes: [], cache: null };
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Sentinel Hub auth failed (${res.status}): ${text}`);
-  }
+  const aoiCloud = await getAoiCloudFractions(bboxToPolygon(bbox), datetime.from, datetime.to, collection, source);
 
-  const data = (await res.json()) as {
-    access_token: string;
-    expires_in?: number;
-  };
-  const exp = data.expires_in
-    ? now + data.expires_in
-    : getExpFromToken(data.access_token);
-  cachedToken = { access_token: data.access_token, exp };
-  return data.access_token;
+  const scenes: CatalogImageResult[] = [];
+  for (const acquisition of dates) {
+    const fraction = aoiCloud.get(acquisition.date);
+    // No entry: the acquisition has no data over the AOI (e.g. tile edge).
+    if (fraction === undefined) continue;
+    const aoiCloudCover = Math.round(fraction * 1000) / 10;
+    if (aoiCloudCover > maxCloudCover) continue;
+    scenes.push({
+      id: acquisition.featureIds[0] ?? "",
+      timestamp: acquisition.timestamp,
+      collection: collection.id,
+      tileIds: acquisition.tileIds,
+      cloudCover: acquisition.cloudCover,
+      aoiCloudCover,
+    });
+  }
+  return { scenes, cache: getCacheStatus(aoiCloud) };
 }
 
 /**
- * 2. Catalog API – search for Sentinel-2 L2A images with < 10% cloud cover.
- * Returns the most recent, cleanest scene (id + timestamp).
+ * 2b. Catalog API – find the best optical scene for an AOI (Sentinel-2 L2A unless
+ * `options.collections` adds or swaps in Landsat 8/9 and HLS).
+ * Tile-level `eo:cloud_cover` says little about a single field, so candidate dates are
+ * scored by the cloud fraction measured inside the AOI (Statistical API over the collection's
+ * cloud mask) and ranked by clarity, then recency, across every searched collection.
+ * Returns null when no date is under `maxCloudCover`.
  */
 export async function searchSatelliteImages(
   bbox: BBox,
-  dateRange: DateRange
+  dateRange: DateRange,
+  options: SceneSearchOptions = {}
 ): Promise<CatalogImageResult | null> {
-  const token = await getAccessToken();
-  const [minLon, minLat, maxLon, maxLat] = bbox;
-  const fromStr = dateRange.from.includes("T") ? dateRange.from : `${dateRange.from}T00:00:00Z`;
-  const toStr = dateRange.to.includes("T") ? dateRange.to : `${dateRange.to}T23:59:59Z`;
-  const datetime = `${fromStr}/${toStr}`;
-
-  const payload = {
-    bbox: [minLon, minLat, maxLon, maxLat],
-    datetime,
-    collections: [COLLECTION_S2L2A],
-    limit: 50,
-    "filter-lang": "cql2-json",
-    filter: {
-      op: "<",
-      args: [{ property: "eo:cloud_cover" }, MAX_CLOUD_COVER_PERCENT]
-    },
-  };
+  const maxCloudCover = options.maxCloudCover ?? DEFAULT_MAX_AOI_CLOUD_PERCENT;
+  const datetime = catalogDatetime(dateRange);
+  const collections = (options.collections ?? [DEFAULT_OPTICAL_COLLECTION]).map((id) => getOpticalCollection(id));
+  const searches = await Promise.all(
+    collections.map((collection) => clearScenes(bbox, datetime, collection, maxCloudCover))
+  );
+  const candidates = searches.flatMap((search) => search.scenes);
+  if (candidates.length === 0) return null;
 
-  const res = await fetch(CATALOG_SEARCH_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-      Accept: "application/geo+json",
-    },
-    body: JSON.stringify(payload),
+  candidates.sort((a, b) => {
+    const aBucket = Math.floor((a.aoiCloudCover ?? 0) / CLARITY_BUCKET_PERCENT);
+    const bBucket = Math.floor((b.aoiCloudCover ?? 0) / CLARITY_BUCKET_PERCENT);
+    if (aBucket !== bBucket) return aBucket - bBucket;
+    if (a.timestamp === b.timestamp) return 0;
+    // Newest first (descending)
+    return a.timestamp < b.timestamp ? 1 : -1;
   });
+  // A hit only when every AOI cloud request sent came from the cache.
+  const statuses = searches.filter((search) => search.cache !== null).map((search) => search.cache);
+  return recordCacheStatus(candidates[0], { hit: statuses.every((status) => status?.hit) });
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Sentinel Hub Catalog search failed (${res.status}): ${text}`);
-  }
+/** Evalscript helper shared by the Sentinel-2 scripts: SCL classes that hide the ground. */
+const SCL_MASK_FUNCTION = SENTINEL2.maskFunction;
 
-  const data = (await res.json()) as {
-    features?: Array<{
-      id?: string;
-      properties?: { datetime?: string; "eo:cloud_cover"?: number };
-    }>;
+/**
+ * True Color evalscript: B04 (R), B03 (G), B02 (B) with brightness boost.
+ * No-data pixels are transparent (black without alpha). The cloud mask is deliberately not applied:
+ * this is the "real photo" view, so users should see the clouds that the index products grey out.
+ */
+function buildTrueColorEvalscript(alpha = true, collection: OpticalCollection = SENTINEL2): string {
+  const [blue, green, red] = collectionBands(collection, ["B02", "B03", "B04"]);
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: ${JSON.stringify([blue, green, red, "dataMask"])},
+    output: { bands: ${alpha ? 4 : 3}, sampleType: "AUTO" }
   };
+}
+function evaluatePixel(sample) {
+  // Multiply by 2.5 to increase brightness
+  return [2.5 * sample.${red}, 2.5 * sample.${green}, 2.5 * sample.${blue}${alpha ? ", sample.dataMask" : ""}];
+}
+`.trim();
+}
 
-  const features = (data.features ?? []).slice().sort((a, b) => {
-    const aTime = a.properties?.datetime ?? "";
-    const bTime = b.properties?.datetime ?? "";
-    if (aTime === bTime) return 0;
-    // Newest first (descending)
-    return aTime < bTime ? 1 : -1;
-  });
-  if (features.length === 0) return null;
+/**
+ * Declare one evalscript variable per Sentinel-2 band name, read from the collection's band,
+ * so index formulas reference bands by name whatever the sensor.
+ */
+function bandVariables(bands: string[], collection: OpticalCollection = SENTINEL2): string {
+  const mapped = collectionBands(collection, bands);
+  return `const ${bands.map((b, i) => `${b} = sample.${mapped[i]}`).join(", ")};`;
+}
+
+/** Input bands of an index evalscript: the index's bands in `collection`, its mask band and dataMask. */
+function indexInputBands(index: SpectralIndex, collection: OpticalCollection): string[] {
+  return [...new Set(collectionBands(collection, index.bands)), collection.maskBand, "dataMask"];
+}
 
-  const best = features[0];
+/**
+ * Index image evalscript: evaluates the index formula and maps it onto a color ramp (by default
+ * the index's color classes). No-data pixels are transparent and SCL-masked pixels (cloud,
+ * shadow, snow) are grey, so clouds are never painted as low-vegetation classes.
+ */
+function buildIndexImageEvalscript(
+  index: SpectralIndex,
+  alpha = true,
+  ramp: ResolvedColorRamp = resolveColorRamp(index),
+  collection: OpticalCollection = SENTINEL2
+): string {
+  return `
+//VERSION=3
+function setup() {
   return {
-    id: best.id ?? "",
-    timestamp: best.properties?.datetime ?? "",
-    cloudCover: best.properties?.["eo:cloud_cover"],
+    input: [{ bands: ${JSON.stringify(indexInputBands(index, collection))} }],
+    output: { id: "default", bands: ${alpha ? 4 : 3} }
   };
 }
+${collection.maskFunction}
+${colorRampFunction(ramp, alpha)}
+function evaluatePixel(sample) {
+  if (sample.dataMask === 0) return ${JSON.stringify(alpha ? [0, 0, 0, 0] : OPAQUE_NO_DATA_COLOR)};
+  if (isMasked(sample)) return ${JSON.stringify(alpha ? [...MASKED_PIXEL_COLOR, 1] : MASKED_PIXEL_COLOR)};
+  ${bandVariables(index.bands, collection)}
+  const raw = ${index.formula};
+  return colorFor(isFinite(raw) ? raw : 0);
+}
+`.trim();
+}
+
+/** Composites read Sentinel-2 scene metadata (tile cloud cover, SCL), so they are Sentinel-2 only. */
+export function assertCompositeCollection(collection: OpticalCollection): void {
+  if (collection.id !== COLLECTION_S2L2A) {
+    throw new InvalidRequestError(`Composites are only available for Sentinel-2 L2A, not ${collection.name}; pass a single date.`);
+  }
+}
+
+/** Validate a composite window and return its length in days. */
+function compositeDays(composite: Composite): number {
+  if (!COMPOSITE_MODES.includes(composite.mode)) {
+    throw new InvalidRequestError(`Unknown composite mode "${composite.mode}"; use one of ${COMPOSITE_MODES.join(", ")}.`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(composite.from) || !/^\d{4}-\d{2}-\d{2}$/.test(composite.to)) {
+    throw new InvalidRequestError("Composite dates must be YYYY-MM-DD.");
+  }
+  const days = Math.round((Date.parse(composite.to) - Date.parse(composite.from)) / 86_400_000) + 1;
+  if (!(days >= 1 && days <= MAX_COMPOSITE_DAYS)) {
+    throw new InvalidRequestError(`A composite spans 1 to ${MAX_COMPOSITE_DAYS} days, from its first to its last date.`);
+  }
+  return days;
+}
+
+/** The composite of the `days` days ending on `date`, like the look-back window of map tiles. */
+export function compositeEndingOn(date: string, days: number, mode: CompositeMode): Composite {
+  const from = new Date(Date.parse(`${date}T00:00:00Z`) - (days - 1) * 86_400_000);
+  return { from: from.toISOString().slice(0, 10), to: date, mode };
+}
+
+/** Input bands of a composite script: the value's bands plus B04 / B08 (NDVI), SCL and dataMask. */
+function compositeBands(bands: string[]): string[] {
+  return [...new Set([...bands, "B04", "B08", "SCL", "dataMask"])];
+}
 
-/** True Color evalscript: B04 (R), B03 (G), B02 (B) with brightness boost. */
-const TRUE_COLOR_EVALSCRIPT = `
+/**
+ * Evalscript part shared by the composite scripts (ORBIT mosaicking). `pick(samples, scenes)`
+ * returns the position of the one observation a pixel takes, so bands stay consistent and every
+ * pixel has a single source date; PICK_NONE_CLEAR when each observation with data is SCL-masked
+ * or invalid, PICK_NO_DATA without data. `valueOf` is the index (NDVI for true color); median
+ * takes the observation with the median value, the lower one of an even count.
+ */
+function compositeFunctions(composite: Composite, index?: SpectralIndex): string {
+  const valueOf = index
+    ? `function valueOf(sample) {
+  ${bandVariables(index.bands)}
+  const value = ${index.formula};
+  return isFinite(value) && value >= ${index.validRange[0]} && value <= ${index.validRange[1]} ? value : NaN;
+}`
+    : `function valueOf(sample) {
+  return ndviOf(sample);
+}`;
+  return `
+const MODE = "${composite.mode}";
+const PICK_NONE_CLEAR = -1;
+const PICK_NO_DATA = -2;
+${SCL_MASK_FUNCTION}
+function ndviOf(sample) {
+  const value = (sample.B08 - sample.B04) / (sample.B08 + sample.B04);
+  return isFinite(value) ? value : NaN;
+}
+${valueOf}
+function cloudCoverOf(orbit) {
+  let sum = 0;
+  for (let t = 0; t < orbit.tiles.length; t++) {
+    const cover = orbit.tiles[t].cloudCoverage;
+    sum += cover >= 0 ? cover : 100;
+  }
+  return orbit.tiles.length ? sum / orbit.tiles.length : 100;
+}
+function pick(samples, scenes) {
+  const clear = [];
+  let hasData = false;
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i].dataMask === 0) continue;
+    hasData = true;
+    if (!isMasked(samples[i]) && !isNaN(valueOf(samples[i]))) clear.push(i);
+  }
+  if (clear.length === 0) return hasData ? PICK_NONE_CLEAR : PICK_NO_DATA;
+  // Newest first, so ties go to the more recent acquisition.
+  clear.sort(function (a, b) { return scenes.orbits[a].dateFrom < scenes.orbits[b].dateFrom ? 1 : -1; });
+  if (MODE === "most-recent") return clear[0];
+  if (MODE === "median") {
+    const byValue = clear.slice().sort(function (a, b) { return valueOf(samples[a]) - valueOf(samples[b]); });
+    return byValue[(byValue.length - 1) >> 1];
+  }
+  let best = clear[0];
+  for (let c = 1; c < clear.length; c++) {
+    const i = clear[c];
+    const better = MODE === "least-cloud"
+      ? cloudCoverOf(scenes.orbits[i]) < cloudCoverOf(scenes.orbits[best])
+      : ndviOf(samples[i]) > ndviOf(samples[best]);
+    if (better) best = i;
+  }
+  return best;
+}
+`.trim();
+}
+
+/** Composite index map: like buildIndexImageEvalscript, grey where no observation was clear. */
+function buildCompositeIndexImageEvalscript(
+  index: SpectralIndex,
+  composite: Composite,
+  alpha = true,
+  ramp: ResolvedColorRamp = resolveColorRamp(index)
+): string {
+  return `
 //VERSION=3
 function setup() {
   return {
-    input: ["B02", "B03", "B04"],
-    output: { bands: 3, sampleType: "AUTO" }
+    input: [{ bands: ${JSON.stringify(compositeBands(index.bands))} }],
+    output: { id: "default", bands: ${alpha ? 4 : 3} },
+    mosaicking: "ORBIT"
   };
 }
-function evaluatePixel(sample) {
-  // Multiply by 2.5 to increase brightness
-  return [2.5 * sample.B04, 2.5 * sample.B03, 2.5 * sample.B02];
+${compositeFunctions(composite, index)}
+${colorRampFunction(ramp, alpha)}
+function evaluatePixel(samples, scenes) {
+  const i = pick(samples, scenes);
+  if (i === PICK_NO_DATA) return ${JSON.stringify(alpha ? [0, 0, 0, 0] : OPAQUE_NO_DATA_COLOR)};
+  if (i === PICK_NONE_CLEAR) return ${JSON.stringify(alpha ? [...MASKED_PIXEL_COLOR, 1] : MASKED_PIXEL_COLOR)};
+  return colorFor(valueOf(samples[i]));
 }
 `.trim();
+}
 
-/** NDVI evalscript: (B08 - B04) / (B08 + B04), mapped to Red (low) -> Green (high) PNG. */
-const NDVI_EVALSCRIPT_IMAGE = `
+/**
+ * Composite true color: the picked clear observation per pixel; pixels never clear in the window
+ * show their most recent observation, clouds included.
+ */
+function buildCompositeTrueColorEvalscript(composite: Composite, alpha = true): string {
+  return `
 //VERSION=3
 function setup() {
   return {
-    input: [{ bands: ["B04", "B08"] }],
-    output: { id: "default", bands: 3 }
+    input: [{ bands: ${JSON.stringify(compositeBands(["B02", "B03", "B04"]))} }],
+    output: { bands: ${alpha ? 4 : 3}, sampleType: "AUTO" },
+    mosaicking: "ORBIT"
   };
 }
-function evaluatePixel(sample) {
-  const sum = sample.B08 + sample.B04;
-  const ndvi = sum === 0 ? 0 : (sample.B08 - sample.B04) / sum;
-  // Red (low/barren) -> Green (high/healthy)
-  if (ndvi < -0.2) return [0.8, 0.2, 0.2];
-  if (ndvi < 0) return [0.9, 0.5, 0.3];
-  if (ndvi < 0.2) return [0.85, 0.6, 0.2];
-  if (ndvi < 0.4) return [0.5, 0.7, 0.2];
-  if (ndvi < 0.6) return [0.2, 0.75, 0.2];
-  return [0.1, 0.6, 0.1];
+${compositeFunctions(composite)}
+function newestWithData(samples, scenes) {
+  let newest = -1;
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i].dataMask === 0) continue;
+    if (newest === -1 || scenes.orbits[i].dateFrom > scenes.orbits[newest].dateFrom) newest = i;
+  }
+  return newest;
+}
+function evaluatePixel(samples, scenes) {
+  let i = pick(samples, scenes);
+  if (i === PICK_NO_DATA) return ${JSON.stringify(alpha ? [0, 0, 0, 0] : [0, 0, 0])};
+  if (i === PICK_NONE_CLEAR) i = newestWithData(samples, scenes);
+  const sample = samples[i];
+  return [2.5 * sample.B04, 2.5 * sample.B03, 2.5 * sample.B02${alpha ? ", 1" : ""}];
 }
 `.trim();
+}
 
 /**
- * 3. Process API – generate NDVI Health Map as PNG (Red = low, Green = high).
+ * Process API request body for an image of `bbox` on `date` (or the days of a range, for
+ * multi-temporal scripts). With `clipTo`, pixels outside the geometry get dataMask 0, so the
+ * evalscripts render them as no-data (transparent).
  */
-export async function generateNDVIImage(
+function imageRequest(
   bbox: BBox,
-  date: string,
+  date: string | DateRange,
   width: number,
-  height: number
-): Promise<ArrayBuffer> {
-  const token = await getAccessToken();
-  const [minLon, minLat, maxLon, maxLat] = bbox;
-
-  const requestBody = {
+  height: number,
+  mimeType: string,
+  clipTo?: GeoJsonGeometry,
+  source: DataSource = S2L2A_SOURCE
+) {
+  return {
     input: {
       bounds: {
         properties: { crs: CRS_WGS84 },
-        bbox: [minLon, minLat, maxLon, maxLat],
+        bbox: [...bbox],
+        ...(clipTo ? { geometry: clipTo } : {}),
       },
       data: [
         {
-          type: COLLECTION_S2L2A,
+          ...source,
           dataFilter: {
+            ...source.dataFilter,
             timeRange: {
-              from: `${date}T00:00:00Z`,
-              to: `${date}T23:59:59Z`,
+              from: `${typeof date === "string" ? date : date.from}T00:00:00Z`,
+              to: `${typeof date === "string" ? date : date.to}T23:59:59Z`,
             },
           },
         },
@@ -267,179 +797,1478 @@ export async function generateNDVIImage(
     output: {
       width,
       height,
-      responses: [{ identifier: "default", format: { type: "image/png" } }],
+      responses: [{ identifier: "default", format: { type: mimeType } }],
     },
   };
+}
 
-  const form = new FormData();
-  form.append("request", JSON.stringify(requestBody));
-  form.append("evalscript", NDVI_EVALSCRIPT_IMAGE);
+/** Map `items` through `fn` with at most `limit` calls in flight, keeping their order. */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-  const res = await fetch(PROCESS_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "image/png",
-    },
-    body: form,
-  });
+/** Refuse AOIs above the configured maximum area, suggesting a zoomed-in bbox instead. */
+function assertAoiWithinLimit(bbox: BBox): void {
+  const area = bboxAreaKm2(bbox);
+  const limit = maxAoiAreaKm2();
+  if (area <= limit) return;
+  throw new AreaTooLargeError(
+    `The area is about ${Math.round(area).toLocaleString("en-US")} km², above the ${limit.toLocaleString("en-US")} km² limit for imagery and statistics. Zoom in to a smaller area.`,
+    area,
+    limit,
+    suggestZoomIn(bbox, limit)
+  );
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Sentinel Hub Process API failed (${res.status}): ${text}`);
+/**
+ * Render `evalscript` over `bbox` on `date` as one image (Sentinel-2 unless `source` says
+ * otherwise). PNGs wider or taller than MAX_TILE_PX
+ * are fetched as tiles, TILE_CONCURRENCY at a time, and stitched; each tile is cached on its own,
+ * and the stitched image counts as a cache hit only when every tile was one. JPEG and WebP
+ * cannot be stitched here, so they are limited to one Process API request (MAX_PROCESS_PX).
+ */
+async function renderImage(
+  bbox: BBox,
+  date: string | DateRange,
+  width: number,
+  height: number,
+  evalscript: string,
+  format: ImageFormat,
+  clipTo?: GeoJsonGeometry,
+  source: DataSource = S2L2A_SOURCE
+): Promise<ArrayBuffer> {
+  assertAoiWithinLimit(bbox);
+  const provider = providerFor(source);
+  const mimeType = IMAGE_MIME_TYPES[format];
+  if (width <= MAX_TILE_PX && height <= MAX_TILE_PX) {
+    return provider.process(imageRequest(bbox, date, width, height, mimeType, clipTo, source), evalscript, mimeType);
+  }
+  if (format !== "png") {
+    if (width > MAX_PROCESS_PX || height > MAX_PROCESS_PX) {
+      throw new InvalidRequestError(
+        `${format.toUpperCase()} images are limited to ${MAX_PROCESS_PX} px per side; use PNG for larger images.`
+      );
+    }
+    return provider.process(imageRequest(bbox, date, width, height, mimeType, clipTo, source), evalscript, mimeType);
   }
 
-  return res.arrayBuffer();
+  const tiles = splitIntoTiles(bbox, width, height);
+  const pngs = await mapConcurrently(tiles, TILE_CONCURRENCY, (tile) =>
+    provider.process(
+      imageRequest(tile.bbox, date, tile.width, tile.height, mimeType, clipTo, source),
+      evalscript,
+      mimeType
+    )
+  );
+
+  const stitched = stitchPngTiles(
+    width,
+    height,
+    tiles.map((tile, i) => ({ x: tile.x, y: tile.y, png: pngs[i] }))
+  );
+  const image = stitched.buffer.slice(
+    stitched.byteOffset,
+    stitched.byteOffset + stitched.byteLength
+  ) as ArrayBuffer;
+  const statuses = pngs.map((png) => getCacheStatus(png));
+  if (statuses.every((status) => status !== undefined)) {
+    recordCacheStatus(image, { hit: statuses.every((status) => status?.hit) });
+  }
+  return image;
 }
 
 /**
- * Process API – generate True Color (RGB) satellite image as PNG.
+ * 3. Process API – generate a spectral index map (PNG by default), colored by the index's ramp
+ * or a named ramp from color-ramps.ts. Defaults to the NDVI health map (Red = low, Green = high).
+ * Size the output with sizeImage or planImage so pixels are square on the ground; `clipTo`
+ * (e.g. a drawn field polygon) leaves everything outside it transparent. A Composite instead of
+ * a date mosaics every acquisition of its window per pixel (see compositeFunctions); composites
+ * are Sentinel-2 only, while a single date can come from any optical `collectionId`.
  */
-export async function generateTrueColorImage(
+export async function generateNDVIImage(
   bbox: BBox,
-  date: string,
+  date: string | Composite,
   width: number,
-  height: number
+  height: number,
+  indexId: SpectralIndexId = "NDVI",
+  format: ImageFormat = "png",
+  colorRamp: ColorRampOptions = {},
+  clipTo?: GeoJsonGeometry,
+  collectionId: OpticalCollectionId = DEFAULT_OPTICAL_COLLECTION
 ): Promise<ArrayBuffer> {
-  const token = await getAccessToken();
-  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const index = getSpectralIndex(indexId);
+  const ramp = resolveColorRamp(index, colorRamp);
+  const collection = getOpticalCollection(collectionId);
+  if (typeof date !== "string") {
+    assertCompositeCollection(collection);
+    compositeDays(date);
+    const evalscript = buildCompositeIndexImageEvalscript(index, date, hasAlpha(format), ramp);
+    return renderImage(bbox, date, width, height, evalscript, format, clipTo);
+  }
+  const evalscript = buildIndexImageEvalscript(index, hasAlpha(format), ramp, collection);
+  return renderImage(bbox, date, width, height, evalscript, format, clipTo, opticalSource(collection));
+}
 
-  const requestBody = {
+/** Map tile layer id of the true color view; every other layer is a spectral index id. */
+export const TRUE_COLOR_LAYER = "TRUE-COLOR";
+export type MapTileLayer = SpectralIndexId | typeof TRUE_COLOR_LAYER;
+
+/** Longest look-back window (days) of a map tile. */
+export const MAX_MAP_TILE_LOOKBACK_DAYS = 90;
+
+/**
+ * Process API – one 256 px XYZ tile (Web Mercator) of an index map or the true color view, for
+ * Leaflet overlays. With `lookbackDays` above 1 the tile mosaics the least cloudy acquisition in
+ * the window ending on `date`, so a map overlay is filled even where `date` had no overpass.
+ * Output size is fixed, so the AOI area limit does not apply; the zoom range is limited instead.
+ */
+export async function generateMapTile(
+  layer: MapTileLayer,
+  date: string,
+  z: number,
+  x: number,
+  y: number,
+  lookbackDays = 1
+): Promise<ArrayBuffer> {
+  if (!isValidMapTile(z, x, y)) throw new InvalidRequestError(`Invalid map tile ${z}/${x}/${y}`);
+  if (!(Number.isInteger(lookbackDays) && lookbackDays >= 1 && lookbackDays <= MAX_MAP_TILE_LOOKBACK_DAYS)) {
+    throw new InvalidRequestError(`lookbackDays must be an integer from 1 to ${MAX_MAP_TILE_LOOKBACK_DAYS}`);
+  }
+  const from = new Date(Date.parse(`${date}T00:00:00Z`) - (lookbackDays - 1) * 86_400_000);
+  const evalscript =
+    layer === TRUE_COLOR_LAYER
+      ? buildTrueColorEvalscript()
+      : buildIndexImageEvalscript(getSpectralIndex(layer));
+  const request = {
     input: {
       bounds: {
-        properties: { crs: CRS_WGS84 },
-        bbox: [minLon, minLat, maxLon, maxLat],
+        properties: { crs: WEB_MERCATOR_CRS },
+        bbox: mapTileBoundsMeters(z, x, y),
       },
       data: [
         {
           type: COLLECTION_S2L2A,
           dataFilter: {
-            timeRange: {
-              from: `${date}T00:00:00Z`,
-              to: `${date}T23:59:59Z`,
-            },
+            timeRange: { from: from.toISOString(), to: `${date}T23:59:59Z` },
+            ...(lookbackDays > 1 ? { mosaickingOrder: "leastCC" as const } : {}),
           },
         },
       ],
     },
     output: {
-      width,
-      height,
-      responses: [{ identifier: "default", format: { type: "image/png" } }],
+      width: MAP_TILE_PX,
+      height: MAP_TILE_PX,
+      responses: [{ identifier: "default", format: { type: IMAGE_MIME_TYPES.png } }],
     },
   };
+  return getEarthObservationProvider(SENTINEL2).process(request, evalscript, IMAGE_MIME_TYPES.png);
+}
 
-  const form = new FormData();
-  form.append("request", JSON.stringify(requestBody));
-  form.append("evalscript", TRUE_COLOR_EVALSCRIPT);
+/**
+ * Process API – generate True Color (RGB) satellite image (PNG by default), optionally clipped
+ * to `clipTo`, for one date of any optical collection or a Sentinel-2 Composite (picked by NDVI
+ * for max-ndvi and median).
+ */
+export async function generateTrueColorImage(
+  bbox: BBox,
+  date: string | Composite,
+  width: number,
+  height: number,
+  format: ImageFormat = "png",
+  clipTo?: GeoJsonGeometry,
+  collectionId: OpticalCollectionId = DEFAULT_OPTICAL_COLLECTION
+): Promise<ArrayBuffer> {
+  const collection = getOpticalCollection(collectionId);
+  if (typeof date !== "string") {
+    assertCompositeCollection(collection);
+    compositeDays(date);
+    const evalscript = buildCompositeTrueColorEvalscript(date, hasAlpha(format));
+    return renderImage(bbox, date, width, height, evalscript, format, clipTo);
+  }
+  const evalscript = buildTrueColorEvalscript(hasAlpha(format), collection);
+  return renderImage(bbox, date, width, height, evalscript, format, clipTo, opticalSource(collection));
+}
 
-  const res = await fetch(PROCESS_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "image/png",
-    },
-    body: form,
-  });
+/** No-data value of GeoTIFF exports: no data, SCL-masked or out-of-range pixels. */
+export const GEOTIFF_NO_DATA = -9999;
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Sentinel Hub Process API failed (${res.status}): ${text}`);
-  }
+/** Raw index evalscript for GeoTIFF export: one FLOAT32 band, GEOTIFF_NO_DATA where invalid. */
+function buildIndexValueEvalscript(index: SpectralIndex, collection: OpticalCollection = SENTINEL2): string {
+  const [lo, hi] = index.validRange;
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ${JSON.stringify(indexInputBands(index, collection))} }],
+    output: { id: "default", bands: 1, sampleType: "FLOAT32" }
+  };
+}
+${collection.maskFunction}
+function evaluatePixel(sample) {
+  if (sample.dataMask === 0 || isMasked(sample)) return [${GEOTIFF_NO_DATA}];
+  ${bandVariables(index.bands, collection)}
+  const value = ${index.formula};
+  return [isFinite(value) && value >= ${lo} && value <= ${hi} ? value : ${GEOTIFF_NO_DATA}];
+}
+`.trim();
+}
 
-  return res.arrayBuffer();
+/**
+ * Process API – raw index values as a FLOAT32 GeoTIFF in EPSG:4326 for GIS tools. No-data,
+ * cloud-masked and out-of-range pixels are GEOTIFF_NO_DATA; the GDAL no-data and metadata tags
+ * (index id and name, acquisition date, source collection) are added to the file. Limited to
+ * one Process API request (MAX_PROCESS_PX per side).
+ */
+export async function generateIndexGeoTiff(
+  bbox: BBox,
+  date: string,
+  width: number,
+  height: number,
+  indexId: SpectralIndexId = "NDVI",
+  collectionId: OpticalCollectionId = DEFAULT_OPTICAL_COLLECTION
+): Promise<ArrayBuffer> {
+  assertAoiWithinLimit(bbox);
+  if (width > MAX_PROCESS_PX || height > MAX_PROCESS_PX) {
+    throw new InvalidRequestError(`GeoTIFF exports are limited to ${MAX_PROCESS_PX} px per side; choose a coarser resolution.`);
+  }
+  const index = getSpectralIndex(indexId);
+  const collection = getOpticalCollection(collectionId);
+  const evalscript = buildIndexValueEvalscript(index, collection);
+  const source = opticalSource(collection);
+  const tiff = await providerFor(source).process(
+    imageRequest(bbox, date, width, height, GEOTIFF_MIME_TYPE, undefined, source),
+    evalscript,
+    GEOTIFF_MIME_TYPE
+  );
+  const tagged = tagGeoTiff(tiff, GEOTIFF_NO_DATA, {
+    INDEX: index.id,
+    INDEX_NAME: index.name,
+    ACQUISITION_DATE: date,
+    SOURCE: collection.name,
+  });
+  const status = getCacheStatus(tiff);
+  if (status) recordCacheStatus(tagged, status);
+  return tagged;
 }
 
-/** Evalscript for Statistical API: single-band NDVI + dataMask for valid pixels. */
-const NDVI_EVALSCRIPT_STATS = `
+/**
+ * Evalscript for Statistical API: single-band index value, SCL mask flag, and dataMask.
+ * dataMask only drops pixels without data so the mean of "masked" is the cloud/shadow/snow
+ * fraction of the AOI; masked or invalid index pixels are NaN, which the API excludes from stats.
+ */
+function buildIndexStatsEvalscript(index: SpectralIndex, collection: OpticalCollection = SENTINEL2): string {
+  const [lo, hi] = index.validRange;
+  return `
 //VERSION=3
 function setup() {
   return {
-    input: [{ bands: ["B04", "B08", "dataMask"] }],
+    input: [{ bands: ${JSON.stringify(indexInputBands(index, collection))} }],
     output: [
-      { id: "ndvi", bands: 1, sampleType: "FLOAT32" },
+      { id: "index", bands: 1, sampleType: "FLOAT32" },
+      { id: "masked", bands: 1, sampleType: "UINT8" },
       { id: "dataMask", bands: 1 }
     ]
   };
 }
-function evaluatePixel(samples) {
-  const B04 = samples.B04, B08 = samples.B08;
-  const sum = B08 + B04;
-  const ndvi = sum === 0 ? 0 : (B08 - B04) / sum;
-  const valid = samples.dataMask === 1 && sum > 0 ? 1 : 0;
-  return { ndvi: [ndvi], dataMask: [valid] };
+${collection.maskFunction}
+function evaluatePixel(sample) {
+  ${bandVariables(index.bands, collection)}
+  const masked = isMasked(sample) ? 1 : 0;
+  const value = ${index.formula};
+  const valid = !masked && isFinite(value) && value >= ${lo} && value <= ${hi};
+  return { index: [valid ? value : NaN], masked: [masked], dataMask: [sample.dataMask] };
 }
 `.trim();
+}
 
 /**
- * 4. Statistical API – NDVI stats (Mean, Min, Max, StDev) for AI/LLM consumption.
- * geometry: GeoJSON Polygon in WGS84 (coordinates in lon/lat).
+ * Composite statistics evalscript: the picked observation's index value, its acquisition as days
+ * since the window's first day ("source", histogrammed into contributing dates), and the share
+ * of pixels with data but no clear observation in the window ("masked").
  */
-export async function getVegetationStats(
-  geometry: GeoJsonPolygon,
-  date: string
-): Promise<VegetationStatsResponse> {
-  const token = await getAccessToken();
-  const from = `${date}T00:00:00Z`;
-  const to = `${date}T23:59:59Z`;
+function buildCompositeStatsEvalscript(index: SpectralIndex, composite: Composite): string {
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ${JSON.stringify(compositeBands(index.bands))} }],
+    output: [
+      { id: "index", bands: 1, sampleType: "FLOAT32" },
+      { id: "source", bands: 1, sampleType: "FLOAT32" },
+      { id: "masked", bands: 1, sampleType: "UINT8" },
+      { id: "dataMask", bands: 1 }
+    ],
+    mosaicking: "ORBIT"
+  };
+}
+${compositeFunctions(composite, index)}
+const FIRST_DAY = Date.parse("${composite.from}T00:00:00Z");
+function evaluatePixel(samples, scenes) {
+  const i = pick(samples, scenes);
+  const clear = i >= 0;
+  return {
+    index: [clear ? valueOf(samples[i]) : NaN],
+    source: [clear ? Math.floor((Date.parse(scenes.orbits[i].dateFrom) - FIRST_DAY) / 86400000) : NaN],
+    masked: [i === PICK_NONE_CLEAR ? 1 : 0],
+    dataMask: [i === PICK_NO_DATA ? 0 : 1]
+  };
+}
+`.trim();
+}
 
-  const payload = {
-    input: {
-      bounds: {
-        geometry,
-        properties: { crs: CRS_WGS84 },
+/** Aggregation intervals accepted by getVegetationTimeSeries (ISO-8601 durations). */
+export const TIME_SERIES_INTERVALS = ["P1D", "P5D", "P10D", "P1M"] as const;
+export type TimeSeriesInterval = (typeof TIME_SERIES_INTERVALS)[number];
+
+/** One time-series row: index stats for a single aggregation interval. */
+export interface VegetationTimeSeriesPoint extends VegetationStats {
+  /** Interval start date (YYYY-MM-DD). */
+  date: string;
+  interval: { from: string; to: string };
+}
+
+/** Bounding box of a polygon's or multipolygon's outer rings. */
+export function geometryBBox(geometry: GeoJsonGeometry): BBox {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  const ring = polygons.flatMap((polygon) => polygon[0] ?? []);
+  const lons = ring.map(([lon]) => lon);
+  const lats = ring.map(([, lat]) => lat);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+}
+
+/** Percentiles requested for single-date index stats. */
+const STATS_PERCENTILES = [10, 25, 50, 75, 90] as const;
+/** Histogram bin width; class limits and thresholds such as 0.3 fall on bin edges. */
+const HISTOGRAM_BIN_WIDTH = 0.05;
+
+const DEFAULT_CALCULATIONS = { default: { statistics: { default: {} } } };
+
+/** Statistical API calculations adding percentiles and a histogram of the "index" output. */
+function indexDistributionCalculations(index: SpectralIndex) {
+  const [lowEdge, highEdge] = index.validRange;
+  return {
+    index: {
+      histograms: { default: { binWidth: HISTOGRAM_BIN_WIDTH, lowEdge, highEdge } },
+      statistics: { default: { percentiles: { k: [...STATS_PERCENTILES] } } },
+    },
+    ...DEFAULT_CALCULATIONS,
+  };
+}
+
+/**
+ * Statistical API request for an evalscript over a geometry, aggregated per `aggregationInterval`.
+ * Defaults to Sentinel-2, mosaicked least cloudy first.
+ */
+async function requestStatistics(
+  geometry: GeoJsonGeometry,
+  timeRange: { from: string; to: string },
+  aggregationInterval: string,
+  evalscript: string,
+  calculations: object = DEFAULT_CALCULATIONS,
+  source: DataSource = { type: COLLECTION_S2L2A, dataFilter: { mosaickingOrder: "leastCC" } }
+): Promise<VegetationStatsResponse> {
+  const bbox = geometryBBox(geometry);
+  assertAoiWithinLimit(bbox);
+  const { resx, resy } = statisticsResolutionDegrees(bbox);
+  const payload = {
+    input: {
+      bounds: {
+        geometry,
+        properties: { crs: CRS_WGS84 },
       },
-      data: [
-        {
-          type: COLLECTION_S2L2A,
-          dataFilter: { mosaickingOrder: "leastCC" as const },
-        },
-      ],
+      data: [source],
     },
     aggregation: {
-      timeRange: { from, to },
-      aggregationInterval: { of: "P1D" },
-      evalscript: NDVI_EVALSCRIPT_STATS,
-      resx: 100,
-      resy: 100,
+      timeRange,
+      aggregationInterval: { of: aggregationInterval },
+      lastIntervalBehavior: "SHORTEN",
+      evalscript,
+      resx,
+      resy,
     },
-    calculations: {
-      default: {
-        statistics: {
-          default: {},
-        },
+    calculations,
+  };
+
+  const data = await providerFor(source).statistics(payload);
+  const intervals = data.data ?? [];
+  const failed = intervals.filter((entry) => entry.error);
+  if (intervals.length > 0 && failed.length === intervals.length) {
+    const reason = failed[0].error?.message ?? failed[0].error?.type ?? "unknown error";
+    throw new SentinelHubError(`Sentinel Hub Statistical API failed for every interval: ${reason}`);
+  }
+  const result = { ...data, resolutionMeters: statisticsResolutionMeters(bbox) };
+  const cache = getCacheStatus(data);
+  return cache ? recordCacheStatus(result, cache) : result;
+}
+
+/**
+ * 4. Statistical API – index stats (Mean, Min, Max, StDev, percentiles, histogram) for AI/LLM
+ * consumption; extractIndexStatsForLLM adds hectares per histogram bin and vegetation class.
+ * geometry: GeoJSON Polygon or MultiPolygon in WGS84 (coordinates in lon/lat). Defaults to NDVI.
+ * For a Composite (Sentinel-2 only) the stats cover its picked pixels, and extractCompositeDates
+ * lists the acquisitions they came from.
+ */
+export async function getVegetationStats(
+  geometry: GeoJsonGeometry,
+  date: string | Composite,
+  indexId: SpectralIndexId = "NDVI",
+  collectionId: OpticalCollectionId = DEFAULT_OPTICAL_COLLECTION
+): Promise<VegetationStatsResponse> {
+  const index = getSpectralIndex(indexId);
+  const collection = getOpticalCollection(collectionId);
+  if (typeof date !== "string") {
+    assertCompositeCollection(collection);
+    return getCompositeStats(geometry, date, index);
+  }
+  const evalscript = buildIndexStatsEvalscript(index, collection);
+  const response = await requestStatistics(
+    geometry,
+    { from: `${date}T00:00:00Z`, to: `${date}T23:59:59Z` },
+    "P1D",
+    evalscript,
+    indexDistributionCalculations(index),
+    opticalSource(collection, { mosaickingOrder: "leastCC" })
+  );
+  if (!response.data?.length) {
+    const coverage =
+      Number(date.slice(0, 4)) < collection.availableFrom
+        ? ` ${collection.name} data starts in ${collection.availableFrom}.`
+        : "";
+    throw new NoDataError(`No ${collection.name} acquisition covers this area on ${date}.${coverage}`);
+  }
+  return response;
+}
+
+async function getCompositeStats(
+  geometry: GeoJsonGeometry,
+  composite: Composite,
+  index: SpectralIndex
+): Promise<VegetationStatsResponse> {
+  const days = compositeDays(composite);
+  const response = await requestStatistics(
+    geometry,
+    { from: `${composite.from}T00:00:00Z`, to: `${composite.to}T23:59:59Z` },
+    `P${days}D`,
+    buildCompositeStatsEvalscript(index, composite),
+    {
+      source: { histograms: { default: { binWidth: 1, lowEdge: 0, highEdge: days } } },
+      ...indexDistributionCalculations(index),
+    }
+  );
+  if (!response.data?.length) {
+    throw new NoDataError(`No Sentinel-2 acquisition covers this area from ${composite.from} to ${composite.to}.`);
+  }
+  return response;
+}
+
+/**
+ * Statistical API – the acquisitions a composite over `geometry` takes its clear pixels from,
+ * for composite images. Uses the composite stats request, so it shares the result cache with
+ * getVegetationStats on the same composite.
+ */
+export async function getCompositeDates(
+  geometry: GeoJsonGeometry,
+  composite: Composite,
+  indexId: SpectralIndexId = "NDVI"
+): Promise<CompositeDate[]> {
+  const response = await getVegetationStats(geometry, composite, indexId);
+  const dates = extractCompositeDates(response);
+  const cache = getCacheStatus(response);
+  return cache ? recordCacheStatus(dates, cache) : dates;
+}
+
+function isGeoJsonGeometry(value: unknown): value is GeoJsonGeometry {
+  const geometry = value as { type?: unknown; coordinates?: unknown } | null;
+  return (
+    (geometry?.type === "Polygon" || geometry?.type === "MultiPolygon") && Array.isArray(geometry.coordinates)
+  );
+}
+
+/** Id of a zone feature: `id`, then `properties.id`, then `properties.name`, else its position. */
+function zoneFeatureId(feature: ZoneFeature, position: number): string {
+  const id = feature.id ?? feature.properties?.id ?? feature.properties?.name;
+  return id !== undefined && id !== "" ? String(id) : `feature-${position + 1}`;
+}
+
+/**
+ * Validate a GeoJSON FeatureCollection of Polygon / MultiPolygon fields for getZonalStats.
+ * Throws with a user-facing message when it is malformed, empty, too large or has duplicate ids.
+ */
+export function parseZoneFeatureCollection(value: unknown): ZoneFeatureCollection {
+  const collection = value as { type?: unknown; features?: unknown } | null;
+  if (collection?.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new InvalidRequestError("Expected a GeoJSON FeatureCollection.");
+  }
+  const features = collection.features as ZoneFeature[];
+  if (features.length === 0 || features.length > MAX_ZONAL_FEATURES) {
+    throw new InvalidRequestError(`A FeatureCollection needs 1-${MAX_ZONAL_FEATURES} features.`);
+  }
+  const ids = new Set<string>();
+  features.forEach((feature, i) => {
+    if (feature?.type !== "Feature" || !isGeoJsonGeometry(feature.geometry)) {
+      throw new InvalidRequestError(`Feature ${i + 1} must be a Feature with a Polygon or MultiPolygon geometry.`);
+    }
+    const id = zoneFeatureId(feature, i);
+    if (ids.has(id)) throw new InvalidRequestError(`Duplicate feature id "${id}".`);
+    ids.add(id);
+  });
+  return { type: "FeatureCollection", features };
+}
+
+/**
+ * 4b. Statistical API – index stats per field of a FeatureCollection, as a table keyed by
+ * feature id. Requests run STATS_CONCURRENCY at a time with one shared evalscript, so repeated
+ * fields come from the result cache; a field without data or above the AOI limit gets an `error`
+ * row while rate limits, quota and auth failures still fail the whole call.
+ */
+export async function getZonalStats(
+  collection: ZoneFeatureCollection,
+  date: string,
+  indexId: SpectralIndexId = "NDVI"
+): Promise<ZonalStatsRow[]> {
+  const { features } = parseZoneFeatureCollection(collection);
+  const statuses: Array<CacheStatus | undefined> = [];
+  const rows = await mapConcurrently(features, STATS_CONCURRENCY, async (feature, i) => {
+    const name = feature.properties?.name;
+    const row: ZonalStatsRow = { id: zoneFeatureId(feature, i), ...(name ? { name } : {}), stats: null };
+    try {
+      const response = await getVegetationStats(feature.geometry, date, indexId);
+      statuses.push(getCacheStatus(response));
+      const maskedFraction = extractMaskedFraction(response);
+      return {
+        ...row,
+        stats: extractIndexStatsForLLM(response, indexId),
+        ...(maskedFraction !== null ? { maskedFraction } : {}),
+      };
+    } catch (err) {
+      if (err instanceof NoDataError || err instanceof AreaTooLargeError) return { ...row, error: err.message };
+      throw err;
+    }
+  });
+  if (statuses.length > 0 && statuses.every((status) => status !== undefined)) {
+    recordCacheStatus(rows, { hit: statuses.every((status) => status?.hit) });
+  }
+  return rows;
+}
+
+/**
+ * 5. Statistical API – index time series across a season, one stats row per interval.
+ * With interval P1D each row is a single acquisition day; days without valid pixels
+ * (no overpass, fully masked) are dropped so the series only holds real observations.
+ */
+export async function getVegetationTimeSeries(
+  geometry: GeoJsonGeometry,
+  from: string,
+  to: string,
+  interval: TimeSeriesInterval = "P1D",
+  indexId: SpectralIndexId = "NDVI",
+  collectionId: OpticalCollectionId = DEFAULT_OPTICAL_COLLECTION
+): Promise<VegetationTimeSeriesPoint[]> {
+  const collection = getOpticalCollection(collectionId);
+  const evalscript = buildIndexStatsEvalscript(getSpectralIndex(indexId), collection);
+  const response = await requestStatistics(
+    geometry,
+    { from: `${from}T00:00:00Z`, to: `${to}T23:59:59Z` },
+    interval,
+    evalscript,
+    DEFAULT_CALCULATIONS,
+    opticalSource(collection, { mosaickingOrder: "leastCC" })
+  );
+
+  const points: VegetationTimeSeriesPoint[] = [];
+  for (const entry of response.data ?? []) {
+    const stats = statsFromInterval(entry);
+    if (!stats) continue;
+    points.push({
+      ...stats,
+      date: entry.interval.from.split("T")[0],
+      interval: entry.interval,
+    });
+  }
+  points.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  const cache = getCacheStatus(response);
+  return cache ? recordCacheStatus(points, cache) : points;
+}
+
+/** Default index change (|after − before|) counted as significant gain or loss. */
+export const DEFAULT_CHANGE_THRESHOLD = 0.1;
+
+/** Index change between two acquisitions over the pixels clear on both dates. */
+export interface IndexChange {
+  index: SpectralIndexId;
+  before: { date: string; mean: number; median?: number };
+  after: { date: string; mean: number; median?: number };
+  /** after − before. */
+  meanChange: number;
+  medianChange?: number;
+  /** Area clear (unmasked, valid) on both dates, in hectares. */
+  comparedAreaHa: number;
+  /** Area whose index rose / fell by at least `threshold`, and the rest. */
+  gainAreaHa: number;
+  lossAreaHa: number;
+  stableAreaHa: number;
+  threshold: number;
+  /** Fraction (0..1) of the area with data on both dates that was masked on either. */
+  maskedFraction?: number;
+}
+
+function assertDateOrder(before: string, after: string): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(before) || !/^\d{4}-\d{2}-\d{2}$/.test(after)) {
+    throw new InvalidRequestError("Comparison dates must be YYYY-MM-DD.");
+  }
+  if (before >= after) throw new InvalidRequestError("The before date must be earlier than the after date.");
+}
+
+/**
+ * Evalscript part shared by the two-date scripts (ORBIT mosaicking): keeps only the scenes of
+ * the two dates, and `indexOn(samples, scenes, date)` returns the index on that date – NaN when
+ * SCL-masked or out of range, undefined without data.
+ */
+function twoDateFunctions(index: SpectralIndex, before: string, after: string): string {
+  const [lo, hi] = index.validRange;
+  return `
+const BEFORE = "${before}";
+const AFTER = "${after}";
+function preProcessScenes(collections) {
+  collections.scenes.orbits = collections.scenes.orbits.filter(function (orbit) {
+    const day = orbit.dateFrom.slice(0, 10);
+    return day === BEFORE || day === AFTER;
+  });
+  return collections;
+}
+${SCL_MASK_FUNCTION}
+function indexOn(samples, scenes, date) {
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    if (scenes.orbits[i].dateFrom.slice(0, 10) !== date || sample.dataMask === 0) continue;
+    if (isMasked(sample)) return NaN;
+    ${bandVariables(index.bands)}
+    const value = ${index.formula};
+    return isFinite(value) && value >= ${lo} && value <= ${hi} ? value : NaN;
+  }
+  return undefined;
+}
+`.trim();
+}
+
+/**
+ * Difference map evalscript: after − before on the diverging change ramp. Pixels without data on
+ * either date are transparent; pixels masked on either date are grey.
+ */
+function buildDifferenceImageEvalscript(
+  index: SpectralIndex,
+  before: string,
+  after: string,
+  ramp: ResolvedColorRamp
+): string {
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ${JSON.stringify([...index.bands, "SCL", "dataMask"])} }],
+    output: { id: "default", bands: 4 },
+    mosaicking: "ORBIT"
+  };
+}
+${twoDateFunctions(index, before, after)}
+${colorRampFunction(ramp, true)}
+function evaluatePixel(samples, scenes) {
+  const before = indexOn(samples, scenes, BEFORE);
+  const after = indexOn(samples, scenes, AFTER);
+  if (before === undefined || after === undefined) return [0, 0, 0, 0];
+  if (isNaN(before) || isNaN(after)) return ${JSON.stringify([...MASKED_PIXEL_COLOR, 1])};
+  return colorFor(after - before);
+}
+`.trim();
+}
+
+/**
+ * Change statistics evalscript: before, after and difference values of the pixels clear on both
+ * dates, gain / loss flags against `threshold`, and the masked share; dataMask keeps pixels with
+ * data on both dates.
+ */
+function buildChangeStatsEvalscript(index: SpectralIndex, before: string, after: string, threshold: number): string {
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ${JSON.stringify([...index.bands, "SCL", "dataMask"])} }],
+    output: [
+      { id: "before", bands: 1, sampleType: "FLOAT32" },
+      { id: "after", bands: 1, sampleType: "FLOAT32" },
+      { id: "difference", bands: 1, sampleType: "FLOAT32" },
+      { id: "gain", bands: 1, sampleType: "FLOAT32" },
+      { id: "loss", bands: 1, sampleType: "FLOAT32" },
+      { id: "masked", bands: 1, sampleType: "UINT8" },
+      { id: "dataMask", bands: 1 }
+    ],
+    mosaicking: "ORBIT"
+  };
+}
+${twoDateFunctions(index, before, after)}
+function evaluatePixel(samples, scenes) {
+  const before = indexOn(samples, scenes, BEFORE);
+  const after = indexOn(samples, scenes, AFTER);
+  const hasData = before !== undefined && after !== undefined;
+  const valid = hasData && !isNaN(before) && !isNaN(after);
+  const difference = valid ? after - before : NaN;
+  return {
+    before: [valid ? before : NaN],
+    after: [valid ? after : NaN],
+    difference: [difference],
+    gain: [valid ? (difference >= ${threshold} ? 1 : 0) : NaN],
+    loss: [valid ? (difference <= ${-threshold} ? 1 : 0) : NaN],
+    masked: [hasData && !valid ? 1 : 0],
+    dataMask: [hasData ? 1 : 0]
+  };
+}
+`.trim();
+}
+
+/**
+ * 6. Process API – per-pixel index difference map (after − before) as a PNG on the diverging
+ * change ramp (changeColorRamp, ±maxChange). One multi-temporal request reads both dates.
+ */
+export async function generateDifferenceImage(
+  bbox: BBox,
+  before: string,
+  after: string,
+  width: number,
+  height: number,
+  indexId: SpectralIndexId = "NDVI",
+  maxChange = 0.5,
+  clipTo?: GeoJsonGeometry
+): Promise<ArrayBuffer> {
+  assertDateOrder(before, after);
+  const evalscript = buildDifferenceImageEvalscript(getSpectralIndex(indexId), before, after, changeColorRamp(maxChange));
+  return renderImage(bbox, { from: before, to: after }, width, height, evalscript, "png", clipTo);
+}
+
+/**
+ * 7. Statistical API – compare two acquisitions: mean and median of each date and their change,
+ * plus hectares of significant gain and loss (|change| ≥ threshold), all over the pixels clear on
+ * both dates. Throws NoDataError when no pixel has data, or none is clear, on both dates.
+ */
+export async function compareDates(
+  geometry: GeoJsonGeometry,
+  before: string,
+  after: string,
+  indexId: SpectralIndexId = "NDVI",
+  threshold = DEFAULT_CHANGE_THRESHOLD
+): Promise<IndexChange> {
+  assertDateOrder(before, after);
+  if (!(Number.isFinite(threshold) && threshold > 0)) throw new InvalidRequestError("The change threshold must be positive.");
+  const days = Math.round((Date.parse(after) - Date.parse(before)) / 86_400_000) + 1;
+  const percentiles = { statistics: { default: { percentiles: { k: [50] } } } };
+  const response = await requestStatistics(
+    geometry,
+    { from: `${before}T00:00:00Z`, to: `${after}T23:59:59Z` },
+    `P${days}D`,
+    buildChangeStatsEvalscript(getSpectralIndex(indexId), before, after, threshold),
+    { before: percentiles, after: percentiles, difference: percentiles, ...DEFAULT_CALCULATIONS }
+  );
+  const entry = response.data?.[0];
+  const band = (id: string) => firstBandStats(entry?.outputs?.[id] as StatisticalOutput | undefined);
+  const [beforeStats, afterStats, difference, gain, loss] = ["before", "after", "difference", "gain", "loss"].map(band);
+  const maskedFraction = maskedFractionFromInterval(entry);
+  const valid = (stats: StatisticalBandStats | undefined): stats is StatisticalBandStats =>
+    stats !== undefined && Number.isFinite(Number(stats.mean)) && stats.sampleCount !== stats.noDataCount;
+  if (!valid(beforeStats) || !valid(afterStats) || !valid(difference) || !valid(gain) || !valid(loss)) {
+    throw new NoDataError(
+      maskedFraction !== null && maskedFraction > 0
+        ? `No pixels are clear on both ${before} and ${after}: ${Math.round(maskedFraction * 100)}% of the area is cloud, shadow or snow covered on either date.`
+        : `Sentinel-2 acquisitions on both ${before} and ${after} are needed to compare them; use searchScenes to pick dates.`
+    );
+  }
+
+  const median = (stats: StatisticalBandStats) => percentilesFrom(stats.percentiles, [50])?.[0];
+  const pixelAreaHa = ((response.resolutionMeters ?? 10) ** 2) / 10_000;
+  const comparedAreaHa = ((difference.sampleCount ?? 0) - (difference.noDataCount ?? 0)) * pixelAreaHa;
+  const gainAreaHa = gain.mean * comparedAreaHa;
+  const lossAreaHa = loss.mean * comparedAreaHa;
+  const [beforeMedian, afterMedian] = [median(beforeStats), median(afterStats)];
+  const change: IndexChange = {
+    index: indexId,
+    before: { date: before, mean: beforeStats.mean, ...(beforeMedian !== undefined ? { median: beforeMedian } : {}) },
+    after: { date: after, mean: afterStats.mean, ...(afterMedian !== undefined ? { median: afterMedian } : {}) },
+    meanChange: difference.mean,
+    ...(beforeMedian !== undefined && afterMedian !== undefined ? { medianChange: afterMedian - beforeMedian } : {}),
+    comparedAreaHa: toHectares(comparedAreaHa),
+    gainAreaHa: toHectares(gainAreaHa),
+    lossAreaHa: toHectares(lossAreaHa),
+    stableAreaHa: toHectares(comparedAreaHa - gainAreaHa - lossAreaHa),
+    threshold,
+    ...(maskedFraction !== null ? { maskedFraction } : {}),
+  };
+  const cache = getCacheStatus(response);
+  return cache ? recordCacheStatus(change, cache) : change;
+}
+
+/** Default number of previous years in an anomaly baseline, and the most accepted. */
+export const DEFAULT_BASELINE_YEARS = 5;
+export const MAX_BASELINE_YEARS = 10;
+/** Default calendar window (days, ending on the date) compared across years. */
+export const DEFAULT_ANOMALY_WINDOW_DAYS = 15;
+
+/** Mean index of one year's calendar window (median composite). */
+export interface BaselineYear {
+  year: number;
+  from: string;
+  to: string;
+  mean: number;
+}
+
+/** Index of a window compared with the same calendar window in previous years. */
+export interface IndexAnomaly {
+  index: SpectralIndexId;
+  current: BaselineYear;
+  /** Years with a clear value, oldest first; years without one are listed in `missingYears`. */
+  baseline: BaselineYear[];
+  missingYears: number[];
+  baselineMean?: number;
+  /** Sample standard deviation of the baseline years. */
+  baselineStDev?: number;
+  /** (current − baseline mean) / baseline stDev; needs two baseline years that differ. */
+  zScore?: number;
+  /** Percentile rank (0..100) of the current value among the baseline years (ties count half). */
+  percentile?: number;
+  /** Fraction (0..1) of the current window's area without a clear observation. */
+  maskedFraction?: number;
+}
+
+/** `date` (YYYY-MM-DD) moved by whole years; 29 February falls back to the 28th. */
+function shiftYears(date: string, years: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year + years, month - 1, day));
+  if (shifted.getUTCDate() !== day) shifted.setUTCDate(0);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/** The composite windows of an anomaly request: the current one first, then one per previous year. */
+function anomalyWindows(date: string, years: number, windowDays: number): Composite[] {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error("The anomaly date must be YYYY-MM-DD.");
+  if (!(Number.isInteger(years) && years >= 1 && years <= MAX_BASELINE_YEARS)) {
+    throw new Error(`The baseline spans 1 to ${MAX_BASELINE_YEARS} previous years.`);
+  }
+  return Array.from({ length: years + 1 }, (_, back) => compositeEndingOn(shiftYears(date, -back), windowDays, "median"));
+}
+
+/**
+ * 8. Statistical API – how unusual an index is for the time of year: the mean of the
+ * `windowDays` days ending on `date` against the same calendar window in each of the previous
+ * `years` years, as a z-score and percentile rank. Each window is a median composite
+ * (getVegetationStats), so a cloudy day does not count as a low value; requests run
+ * STATS_CONCURRENCY at a time and years without a clear value are skipped. Throws NoDataError
+ * when the current window has none.
+ */
+export async function getIndexAnomaly(
+  geometry: GeoJsonGeometry,
+  date: string,
+  indexId: SpectralIndexId = "NDVI",
+  years = DEFAULT_BASELINE_YEARS,
+  windowDays = DEFAULT_ANOMALY_WINDOW_DAYS
+): Promise<IndexAnomaly> {
+  const windows = anomalyWindows(date, years, windowDays);
+  const responses = await mapConcurrently(windows, STATS_CONCURRENCY, async (window) => {
+    try {
+      return await getVegetationStats(geometry, window, indexId);
+    } catch (err) {
+      if (err instanceof NoDataError) return undefined;
+      throw err;
+    }
+  });
+  const means = responses.map((response) => {
+    const mean = Number(response && extractIndexStatsForLLM(response, indexId)?.mean);
+    return Number.isFinite(mean) ? mean : undefined;
+  });
+  const yearOf = (window: Composite, mean: number): BaselineYear => ({
+    year: Number(window.to.slice(0, 4)),
+    from: window.from,
+    to: window.to,
+    mean,
+  });
+
+  const [currentWindow, ...previousWindows] = windows;
+  const [currentMean, ...previousMeans] = means;
+  const maskedFraction = responses[0] ? extractMaskedFraction(responses[0]) : null;
+  if (currentMean === undefined) {
+    throw new NoDataError(
+      maskedFraction !== null && maskedFraction > 0
+        ? `No clear ${indexId} value from ${currentWindow.from} to ${currentWindow.to}: the area was cloud, shadow or snow covered on every acquisition.`
+        : `No Sentinel-2 acquisition covers this area from ${currentWindow.from} to ${currentWindow.to}.`
+    );
+  }
+  const baseline = previousWindows
+    .flatMap((window, i) => (previousMeans[i] === undefined ? [] : [yearOf(window, previousMeans[i])]))
+    .reverse();
+  const missingYears = previousWindows
+    .filter((_, i) => previousMeans[i] === undefined)
+    .map((window) => Number(window.to.slice(0, 4)))
+    .reverse();
+  const anomaly: IndexAnomaly = {
+    index: indexId,
+    current: yearOf(currentWindow, currentMean),
+    baseline,
+    missingYears,
+    ...(maskedFraction !== null ? { maskedFraction } : {}),
+  };
+  if (baseline.length > 0) {
+    const baselineMeans = baseline.map((year) => year.mean);
+    const baselineMean = baselineMeans.reduce((sum, mean) => sum + mean, 0) / baselineMeans.length;
+    const below = baselineMeans.filter((mean) => mean < currentMean).length;
+    const ties = baselineMeans.filter((mean) => mean === currentMean).length;
+    anomaly.baselineMean = baselineMean;
+    anomaly.percentile = Math.round(((below + ties / 2) / baselineMeans.length) * 100);
+    if (baselineMeans.length >= 2) {
+      const variance = baselineMeans.reduce((sum, mean) => sum + (mean - baselineMean) ** 2, 0) / (baselineMeans.length - 1);
+      anomaly.baselineStDev = Math.sqrt(variance);
+      if (anomaly.baselineStDev > 0) anomaly.zScore = (currentMean - baselineMean) / anomaly.baselineStDev;
+    }
+  }
+  const statuses = responses.filter((response) => response !== undefined).map((response) => getCacheStatus(response));
+  if (statuses.every((status) => status !== undefined)) {
+    recordCacheStatus(anomaly, { hit: statuses.every((status) => status?.hit) });
+  }
+  return anomaly;
+}
+
+/** Sentinel-1 image products: backscatter of one polarisation, the radar vegetation index, or both bands as RGB. */
+export const RADAR_PRODUCTS = ["VV", "VH", "RVI", "false-color"] as const;
+export type RadarProduct = (typeof RADAR_PRODUCTS)[number];
+
+/** Backscatter (dB) spanned by the VV and VH image ramps: water and smooth soil low, canopy and buildings high. */
+export const BACKSCATTER_DB_RANGE: [number, number] = [-25, 0];
+/** RVI values kept in statistics; 4·VH/(VV+VH) stays below 2 wherever VH is weaker than VV. */
+const RVI_VALID_RANGE: [number, number] = [0, 2];
+/** Span of the RVI image ramp: about 0.2 over bare soil to 0.8–1 over a closed canopy. */
+const RVI_IMAGE_RANGE: [number, number] = [0, 1];
+/** Sentinel-1 orthorectification and terrain flattening each double the PU cost. */
+const S1_PROCESSING_FACTOR = 4;
+
+/** Evalscript helpers for linear gamma0: dB conversion (floored at -50 dB) and the radar vegetation index. */
+const RADAR_FUNCTIONS = `
+function toDb(linear) {
+  return 10 * Math.log(Math.max(linear, 1e-5)) / Math.LN10;
+}
+function rvi(sample) {
+  return 4 * sample.VH / (sample.VV + sample.VH);
+}
+`.trim();
+
+/** Color ramp of a radar image product; null for false-color, which has no legend. */
+export function radarImageRamp(product: RadarProduct): ResolvedColorRamp | null {
+  if (product === "false-color") return null;
+  return product === "RVI"
+    ? radarColorRamp("vegetation", ...RVI_IMAGE_RANGE)
+    : radarColorRamp("backscatter", ...BACKSCATTER_DB_RANGE);
+}
+
+/**
+ * Radar image evalscript. VV and VH are backscatter in dB on a grey ramp, RVI on RdYlGn, and
+ * false-color puts VV (red), VH (green) and the VV/VH ratio (blue) together: bare soil turns
+ * red-magenta, crops green-yellow, water black. There is no cloud mask.
+ */
+function buildRadarImageEvalscript(product: RadarProduct, alpha = true): string {
+  const ramp = radarImageRamp(product);
+  const [lo, hi] = BACKSCATTER_DB_RANGE;
+  const noData = JSON.stringify(alpha ? [0, 0, 0, 0] : OPAQUE_NO_DATA_COLOR);
+  const pixel = ramp
+    ? `const value = ${product === "RVI" ? "rvi(sample)" : `toDb(sample.${product})`};
+  return colorFor(isFinite(value) ? value : 0);`
+    : `const vv = toDb(sample.VV);
+  const vh = toDb(sample.VH);
+  return [scale(vv, ${lo}, ${hi}), scale(vh, ${lo - 5}, ${hi - 5}), scale(vv - vh, 0, 15)${alpha ? ", 1" : ""}];`;
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ["VV", "VH", "dataMask"] }],
+    output: { id: "default", bands: ${alpha ? 4 : 3} }
+  };
+}
+${RADAR_FUNCTIONS}
+${ramp ? colorRampFunction(ramp, alpha) : "function scale(value, min, max) {\n  return Math.max(0, Math.min(1, (value - min) / (max - min)));\n}"}
+function evaluatePixel(sample) {
+  if (sample.dataMask === 0) return ${noData};
+  ${pixel}
+}
+`.trim();
+}
+
+/**
+ * 9. Process API – Sentinel-1 radar image of one acquisition date (from listRadarDates), for
+ * when clouds hide the field from Sentinel-2. Sized and clipped like generateNDVIImage.
+ */
+export async function generateRadarImage(
+  bbox: BBox,
+  date: string,
+  width: number,
+  height: number,
+  product: RadarProduct = "RVI",
+  format: ImageFormat = "png",
+  clipTo?: GeoJsonGeometry
+): Promise<ArrayBuffer> {
+  if (!RADAR_PRODUCTS.includes(product)) {
+    throw new Error(`Unknown radar product "${String(product)}". Supported: ${RADAR_PRODUCTS.join(", ")}`);
+  }
+  const evalscript = buildRadarImageEvalscript(product, hasAlpha(format));
+  return renderImage(bbox, date, width, height, evalscript, format, clipTo, S1GRD_SOURCE);
+}
+
+/** Radar statistics evalscript: RVI ("index") plus linear VV and VH, whose means are converted to dB. */
+function buildRadarStatsEvalscript(): string {
+  const [lo, hi] = RVI_VALID_RANGE;
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ["VV", "VH", "dataMask"] }],
+    output: [
+      { id: "index", bands: 1, sampleType: "FLOAT32" },
+      { id: "vv", bands: 1, sampleType: "FLOAT32" },
+      { id: "vh", bands: 1, sampleType: "FLOAT32" },
+      { id: "dataMask", bands: 1 }
+    ]
+  };
+}
+${RADAR_FUNCTIONS}
+function evaluatePixel(sample) {
+  const value = rvi(sample);
+  const valid = isFinite(value) && value >= ${lo} && value <= ${hi};
+  return { index: [valid ? value : NaN], vv: [sample.VV], vh: [sample.VH], dataMask: [sample.dataMask] };
+}
+`.trim();
+}
+
+/**
+ * 10. Statistical API – radar vegetation index (RVI) stats of a Sentinel-1 acquisition, with the
+ * mean VV and VH backscatter; read them with extractRadarStatsForLLM. RVI follows canopy
+ * structure and biomass rather than greenness, so it is not comparable with NDVI values.
+ */
+export async function getRadarStats(geometry: GeoJsonGeometry, date: string): Promise<VegetationStatsResponse> {
+  const [lowEdge, highEdge] = RVI_VALID_RANGE;
+  const response = await requestStatistics(
+    geometry,
+    { from: `${date}T00:00:00Z`, to: `${date}T23:59:59Z` },
+    "P1D",
+    buildRadarStatsEvalscript(),
+    {
+      index: {
+        histograms: { default: { binWidth: HISTOGRAM_BIN_WIDTH, lowEdge, highEdge } },
+        statistics: { default: { percentiles: { k: [...STATS_PERCENTILES] } } },
       },
+      ...DEFAULT_CALCULATIONS,
     },
+    S1GRD_SOURCE
+  );
+  if (!response.data?.length) {
+    throw new NoDataError(`No Sentinel-1 acquisition covers this area on ${date}.`);
+  }
+  return response;
+}
+
+function firstBand(output: StatisticalOutput | undefined): StatisticalBand | undefined {
+  const bands = output?.bands;
+  if (!bands) return undefined;
+  return bands.B0 ?? bands[Object.keys(bands)[0]];
+}
+
+function firstBandStats(output: StatisticalOutput | undefined): StatisticalBandStats | undefined {
+  return firstBand(output)?.stats;
+}
+
+/** Mean of the SCL "masked" output, i.e. the cloud/shadow/snow fraction; null if not reported. */
+function maskedFractionFromInterval(
+  entry: VegetationStatsResponse["data"][number] | undefined
+): number | null {
+  const mean = Number(firstBandStats(entry?.outputs?.masked)?.mean);
+  return Number.isFinite(mean) ? mean : null;
+}
+
+/**
+ * Evalscript for Statistical API: 1 where the collection's cloud mask (SCL on Sentinel-2) marks
+ * cloud, shadow or snow; dataMask keeps data pixels.
+ */
+function buildAoiCloudEvalscript(collection: OpticalCollection): string {
+  return `
+//VERSION=3
+function setup() {
+  return {
+    input: [{ bands: ${JSON.stringify([collection.maskBand, "dataMask"])} }],
+    output: [
+      { id: "masked", bands: 1, sampleType: "UINT8" },
+      { id: "dataMask", bands: 1 }
+    ]
   };
+}
+${collection.maskFunction}
+function evaluatePixel(sample) {
+  return { masked: [isMasked(sample) ? 1 : 0], dataMask: [sample.dataMask] };
+}
+`.trim();
+}
 
-  const res = await fetch(STATISTICS_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify(payload),
+/**
+ * Cloud / shadow / snow fraction (0..1) inside the AOI per acquisition date (YYYY-MM-DD).
+ * A single P1D-aggregated request covers every candidate date; dates without data are absent.
+ */
+async function getAoiCloudFractions(
+  geometry: GeoJsonGeometry,
+  from: string,
+  to: string,
+  collection: OpticalCollection = SENTINEL2,
+  source?: DataSource
+): Promise<Map<string, number>> {
+  const response = await requestStatistics(
+    geometry,
+    { from, to },
+    "P1D",
+    buildAoiCloudEvalscript(collection),
+    DEFAULT_CALCULATIONS,
+    source
+  );
+  const fractions = new Map<string, number>();
+  for (const entry of response.data ?? []) {
+    const stats = firstBandStats(entry.outputs?.masked);
+    const fraction = maskedFractionFromInterval(entry);
+    if (fraction === null || (stats?.sampleCount !== undefined && stats.sampleCount === stats.noDataCount)) {
+      continue;
+    }
+    fractions.set(entry.interval.from.split("T")[0], fraction);
+  }
+  const cache = getCacheStatus(response);
+  return cache ? recordCacheStatus(fractions, cache) : fractions;
+}
+
+/** The `ks` percentiles from the API's "10.0"-style keys; undefined unless all were reported. */
+function percentilesFrom(raw: Record<string, number> | undefined, ks: readonly number[]): number[] | undefined {
+  if (!raw) return undefined;
+  const byK = new Map(Object.entries(raw).map(([k, v]) => [Number(k), Number(v)]));
+  const values = ks.map((k) => byK.get(k));
+  return values.every((v) => v !== undefined && Number.isFinite(v)) ? (values as number[]) : undefined;
+}
+
+function indexPercentilesFrom(raw: Record<string, number> | undefined): IndexPercentiles | undefined {
+  const values = percentilesFrom(raw, STATS_PERCENTILES);
+  if (!values) return undefined;
+  const [p10, p25, p50, p75, p90] = values;
+  return { p10, p25, p50, p75, p90 };
+}
+
+const roundEdge = (value: number) => Math.round(value * 1e6) / 1e6;
+const toHectares = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Histogram (empty bins dropped) and hectares per vegetation class from the API histogram.
+ * Values past the histogram's edges count towards the first / last class.
+ */
+function distributionFrom(
+  band: StatisticalBand,
+  index: SpectralIndex | undefined,
+  pixelAreaHa: number
+): Pick<VegetationStats, "histogram" | "validAreaHa" | "classAreas"> {
+  const raw = band.histogram;
+  if (!raw?.bins?.length) return {};
+  const bins = raw.bins.map((b) => ({ lowEdge: roundEdge(b.lowEdge), highEdge: roundEdge(b.highEdge), count: b.count }));
+  const underflow = raw.underflowCount ?? 0;
+  const overflow = raw.overflowCount ?? 0;
+  const total = bins.reduce((sum, b) => sum + b.count, underflow + overflow);
+  const histogram = bins
+    .filter((b) => b.count > 0)
+    .map((b) => ({ ...b, areaHa: toHectares(b.count * pixelAreaHa) }));
+  const result = { histogram, validAreaHa: toHectares(total * pixelAreaHa) };
+  const classes = index?.vegetationClasses;
+  if (!classes || total === 0) return result;
+
+  const classAreas = classes.map((c, i) => {
+    const min = classes[i - 1]?.below;
+    const count =
+      bins
+        .filter((b) => (min === undefined || b.lowEdge >= min) && (c.below === undefined || b.highEdge <= c.below))
+        .reduce((sum, b) => sum + b.count, 0) +
+      (min === undefined ? underflow : 0) +
+      (c.below === undefined ? overflow : 0);
+    return {
+      id: c.id,
+      label: c.label,
+      ...(min !== undefined ? { min } : {}),
+      ...(c.below !== undefined ? { max: c.below } : {}),
+      areaHa: toHectares(count * pixelAreaHa),
+      fraction: Math.round((count / total) * 1000) / 1000,
+    };
   });
+  return { ...result, classAreas };
+}
+
+/**
+ * Stats of the single-band index output for one interval; null when it holds no valid pixels.
+ * Percentiles, histogram and class areas are added when the request asked for them.
+ */
+function statsFromInterval(
+  entry: VegetationStatsResponse["data"][number] | undefined,
+  index?: SpectralIndex,
+  resolutionMeters?: number
+): VegetationStats | null {
+  const band = firstBand(entry?.outputs?.index);
+  const raw = band?.stats;
+  // The Statistical API reports "NaN" stats for intervals without valid pixels.
+  if (!band || !raw || !Number.isFinite(Number(raw.mean))) return null;
+  if (raw.sampleCount !== undefined && raw.sampleCount === raw.noDataCount) return null;
+  const { percentiles: rawPercentiles, ...stats } = raw;
+  const percentiles = indexPercentilesFrom(rawPercentiles);
+  const maskedFraction = maskedFractionFromInterval(entry);
+  return {
+    ...stats,
+    ...(maskedFraction !== null ? { maskedFraction } : {}),
+    ...(percentiles ? { percentiles } : {}),
+    ...(resolutionMeters ? distributionFrom(band, index, (resolutionMeters * resolutionMeters) / 10_000) : {}),
+  };
+}
+
+/**
+ * Helper: extract first-interval index stats from Statistical API response for LLM.
+ * Band key is typically "B0" for single-band output. Pass the index the stats were requested
+ * for, so the hectare breakdown uses its vegetation classes.
+ */
+export function extractIndexStatsForLLM(
+  response: VegetationStatsResponse,
+  indexId: SpectralIndexId = "NDVI"
+): VegetationStats | null {
+  return statsFromInterval(response.data?.[0], getSpectralIndex(indexId), response.resolutionMeters);
+}
+
+/** Contributing acquisitions of a composite stats response, oldest first; empty for single dates. */
+export function extractCompositeDates(response: VegetationStatsResponse): CompositeDate[] {
+  const entry = response.data?.[0];
+  const bins = firstBand(entry?.outputs?.source as StatisticalOutput | undefined)?.histogram?.bins ?? [];
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (!entry || total === 0) return [];
+  const firstDay = Date.parse(entry.interval.from.slice(0, 10));
+  return bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({
+      date: new Date(firstDay + Math.round(bin.lowEdge) * 86_400_000).toISOString().slice(0, 10),
+      pixelFraction: Math.round((bin.count / total) * 1000) / 1000,
+    }));
+}
+
+/** RVI stats of a Sentinel-1 acquisition and the mean backscatter of each polarisation. */
+export interface RadarStats extends Omit<VegetationStats, "maskedFraction" | "classAreas"> {
+  /** dB of the mean linear gamma0 over the valid pixels. */
+  meanVvDb?: number;
+  meanVhDb?: number;
+}
+
+/** Helper: RVI stats and mean VV / VH (dB) of a getRadarStats response; null without data. */
+export function extractRadarStatsForLLM(response: VegetationStatsResponse): RadarStats | null {
+  const entry = response.data?.[0];
+  const stats = statsFromInterval(entry, undefined, response.resolutionMeters);
+  if (!stats) return null;
+  const meanDb = (output: unknown) => {
+    const mean = Number(firstBandStats(output as StatisticalOutput | undefined)?.mean);
+    return mean > 0 ? Math.round(100 * 10 * Math.log10(mean)) / 100 : undefined;
+  };
+  const [meanVvDb, meanVhDb] = [meanDb(entry?.outputs.vv), meanDb(entry?.outputs.vh)];
+  return {
+    ...stats,
+    ...(meanVvDb !== undefined ? { meanVvDb } : {}),
+    ...(meanVhDb !== undefined ? { meanVhDb } : {}),
+  };
+}
+
+/**
+ * Helper: cloud/shadow/snow fraction of the first interval, available even when every
+ * pixel was masked and extractIndexStatsForLLM returns null.
+ */
+export function extractMaskedFraction(response: VegetationStatsResponse): number | null {
+  return maskedFractionFromInterval(response.data?.[0]);
+}
+
+// ---------------------------------------------------------------------------
+// Processing-unit estimates, mirroring the requests built above
+// ---------------------------------------------------------------------------
+
+/** Output grid (px) of a Statistical API request over `geometry`. */
+function statisticsGridSize(geometry: GeoJsonGeometry): { width: number; height: number } {
+  const [minLon, minLat, maxLon, maxLat] = geometryBBox(geometry);
+  const { resx, resy } = statisticsResolutionDegrees([minLon, minLat, maxLon, maxLat]);
+  return {
+    width: Math.max(1, Math.ceil((maxLon - minLon) / resx)),
+    height: Math.max(1, Math.ceil((maxLat - minLat) / resy)),
+  };
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Sentinel Hub Statistical API failed (${res.status}): ${text}`);
+/** Number of aggregation intervals between two dates (YYYY-MM-DD, inclusive). */
+function countIntervals(from: string, to: string, interval: TimeSeriesInterval): number {
+  const days = Math.floor((Date.parse(to) - Date.parse(from)) / 86_400_000) + 1;
+  if (!(days > 0)) return 1;
+  if (interval === "P1M") {
+    const [fy, fm] = from.split("-").map(Number);
+    const [ty, tm] = to.split("-").map(Number);
+    return (ty - fy) * 12 + (tm - fm) + 1;
   }
+  return Math.ceil(days / Number(interval.slice(1, -1)));
+}
+
+/** Expected acquisitions in a composite window, one per revisit. */
+function compositeSamples(composite: Composite): number {
+  return Math.max(1, Math.ceil(compositeDays(composite) / SENTINEL2_REVISIT_DAYS));
+}
+
+/** PU estimate of generateNDVIImage: index bands plus SCL for the cloud mask. */
+export function estimateIndexImageUnits(
+  width: number,
+  height: number,
+  indexId: SpectralIndexId = "NDVI",
+  composite?: Composite
+): number {
+  const index = getSpectralIndex(indexId);
+  if (!composite) return estimateProcessingUnits({ width, height, inputBands: index.bands.length + 1 });
+  return estimateProcessingUnits({
+    width,
+    height,
+    inputBands: compositeBands(index.bands).length - 1,
+    dataSamples: compositeSamples(composite),
+  });
+}
+
+/** PU estimate of generateIndexGeoTiff: index bands plus SCL, FLOAT32 output. */
+export function estimateIndexGeoTiffUnits(width: number, height: number, indexId: SpectralIndexId = "NDVI"): number {
+  const index = getSpectralIndex(indexId);
+  return estimateProcessingUnits({ width, height, inputBands: index.bands.length + 1, float32Output: true });
+}
+
+/** PU estimate of generateMapTile: one fixed-size index or true color tile. */
+export function estimateMapTileUnits(layer: MapTileLayer): number {
+  return layer === TRUE_COLOR_LAYER
+    ? estimateTrueColorUnits(MAP_TILE_PX, MAP_TILE_PX)
+    : estimateIndexImageUnits(MAP_TILE_PX, MAP_TILE_PX, layer);
+}
+
+/** PU estimate of generateTrueColorImage (B02, B03, B04; composites add B08 and SCL). */
+export function estimateTrueColorUnits(width: number, height: number, composite?: Composite): number {
+  if (!composite) return estimateProcessingUnits({ width, height, inputBands: 3 });
+  return estimateProcessingUnits({ width, height, inputBands: 5, dataSamples: compositeSamples(composite) });
+}
+
+/** PU estimate of getVegetationStats (one interval) or getVegetationTimeSeries (one per interval). */
+export function estimateIndexStatsUnits(
+  geometry: GeoJsonGeometry,
+  indexId: SpectralIndexId = "NDVI",
+  intervals = 1
+): number {
+  const index = getSpectralIndex(indexId);
+  return estimateProcessingUnits({
+    ...statisticsGridSize(geometry),
+    inputBands: index.bands.length + 1,
+    dataSamples: intervals,
+    float32Output: true,
+  });
+}
+
+/** PU estimate of generateDifferenceImage: index bands plus SCL on two dates. */
+export function estimateDifferenceImageUnits(
+  width: number,
+  height: number,
+  indexId: SpectralIndexId = "NDVI"
+): number {
+  const index = getSpectralIndex(indexId);
+  return estimateProcessingUnits({ width, height, inputBands: index.bands.length + 1, dataSamples: 2 });
+}
+
+/** PU estimate of compareDates: FLOAT32 stats of two dates. */
+export function estimateDateComparisonUnits(geometry: GeoJsonGeometry, indexId: SpectralIndexId = "NDVI"): number {
+  return estimateIndexStatsUnits(geometry, indexId, 2);
+}
+
+/** PU estimate of getVegetationStats or getCompositeDates on a composite. */
+export function estimateCompositeStatsUnits(
+  geometry: GeoJsonGeometry,
+  composite: Composite,
+  indexId: SpectralIndexId = "NDVI"
+): number {
+  const index = getSpectralIndex(indexId);
+  return estimateProcessingUnits({
+    ...statisticsGridSize(geometry),
+    inputBands: compositeBands(index.bands).length - 1,
+    dataSamples: compositeSamples(composite),
+    float32Output: true,
+  });
+}
 
-  return res.json() as Promise<VegetationStatsResponse>;
+/** PU estimate of getIndexAnomaly: one composite stats request per window. */
+export function estimateIndexAnomalyUnits(
+  geometry: GeoJsonGeometry,
+  date: string,
+  indexId: SpectralIndexId = "NDVI",
+  years = DEFAULT_BASELINE_YEARS,
+  windowDays = DEFAULT_ANOMALY_WINDOW_DAYS
+): number {
+  return anomalyWindows(date, years, windowDays).reduce(
+    (sum, window) => sum + estimateCompositeStatsUnits(geometry, window, indexId),
+    0
+  );
+}
+
+/** PU estimate of getZonalStats: one single-interval stats request per feature. */
+export function estimateZonalStatsUnits(
+  collection: ZoneFeatureCollection,
+  indexId: SpectralIndexId = "NDVI"
+): number {
+  return collection.features.reduce((sum, feature) => sum + estimateIndexStatsUnits(feature.geometry, indexId), 0);
+}
+
+export function estimateTimeSeriesUnits(
+  geometry: GeoJsonGeometry,
+  from: string,
+  to: string,
+  interval: TimeSeriesInterval = "P1D",
+  indexId: SpectralIndexId = "NDVI"
+): number {
+  return estimateIndexStatsUnits(geometry, indexId, countIntervals(from, to, interval));
+}
+
+/** PU estimate of generateRadarImage: VV and VH, orthorectified and terrain-flattened. */
+export function estimateRadarImageUnits(width: number, height: number): number {
+  return estimateProcessingUnits({ width, height, inputBands: 2, processingFactor: S1_PROCESSING_FACTOR });
+}
+
+/** PU estimate of getRadarStats. */
+export function estimateRadarStatsUnits(geometry: GeoJsonGeometry): number {
+  return estimateProcessingUnits({
+    ...statisticsGridSize(geometry),
+    inputBands: 2,
+    float32Output: true,
+    processingFactor: S1_PROCESSING_FACTOR,
+  });
 }
 
 /**
- * Helper: extract first-interval NDVI stats from Statistical API response for LLM.
- * Band key is typically "B0" for single-band output.
+ * PU estimate of searchSatelliteImages: one cloud-mask fraction interval per day of the range,
+ * for each searched collection.
  */
-export function extractNDVIStatsForLLM(
-  response: VegetationStatsResponse
-): VegetationStats | null {
-  const first = response.data?.[0];
-  const bands = first?.outputs?.ndvi?.bands;
-  if (!bands) return null;
-  const stats = bands.B0?.stats ?? bands[Object.keys(bands)[0]]?.stats;
-  return stats ?? null;
+export function estimateSceneSearchUnits(
+  bbox: BBox,
+  dateRange: DateRange,
+  collectionIds: OpticalCollectionId[] = [DEFAULT_OPTICAL_COLLECTION]
+): number {
+  const perCollection = estimateProcessingUnits({
+    ...statisticsGridSize(bboxToPolygon(bbox)),
+    inputBands: 1,
+    dataSamples: countIntervals(dateRange.from.slice(0, 10), dateRange.to.slice(0, 10), "P1D"),
+  });
+  return perCollection * collectionIds.length;
 }
@@ -0,0 +1,53 @@
+/**
+ * TerraVision AI – Web Mercator (EPSG:3857) XYZ tile math for map overlays.
+ * Tiles follow the Leaflet / OSM scheme: 256 px, origin at the top-left, y growing southwards.
+ */
+
+import type { BBox } from "./sentinel";
+
+export const WEB_MERCATOR_CRS = "http://www.opengis.net/def/crs/EPSG/0/3857";
+export const MAP_TILE_PX = 256;
+/**
+ * Zoom levels served by the tile endpoint. Below MIN_MAP_TILE_ZOOM a tile spans more than the
+ * Process API renders from Sentinel-2 (about 1.5 km / px); above MAX_NATIVE_TILE_ZOOM (about
+ * 10 m / px) clients should upscale instead of paying for finer tiles.
+ */
+export const MIN_MAP_TILE_ZOOM = 8;
+export const MAX_NATIVE_TILE_ZOOM = 14;
+export const MAX_MAP_TILE_ZOOM = 18;
+
+const EARTH_RADIUS_M = 6378137;
+/** Half the width of the Web Mercator plane (m). */
+const ORIGIN_SHIFT = Math.PI * EARTH_RADIUS_M;
+
+/** True for a tile address that exists at zoom `z` within the served zoom range. */
+export function isValidMapTile(z: number, x: number, y: number): boolean {
+  if (![z, x, y].every(Number.isInteger)) return false;
+  if (z < MIN_MAP_TILE_ZOOM || z > MAX_MAP_TILE_ZOOM) return false;
+  const count = 2 ** z;
+  return x >= 0 && x < count && y >= 0 && y < count;
+}
+
+/** Tile bounds in EPSG:3857 metres: [minX, minY, maxX, maxY]. */
+export function mapTileBoundsMeters(z: number, x: number, y: number): BBox {
+  const size = (2 * ORIGIN_SHIFT) / 2 ** z;
+  return [
+    -ORIGIN_SHIFT + x * size,
+    ORIGIN_SHIFT - (y + 1) * size,
+    -ORIGIN_SHIFT + (x + 1) * size,
+    ORIGIN_SHIFT - y * size,
+  ];
+}
+
+/** Lon/lat (degrees) of an EPSG:3857 point. */
+export function metersToLonLat(mx: number, my: number): [number, number] {
+  const lon = (mx / EARTH_RADIUS_M) * (180 / Math.PI);
+  const lat = Math.atan(Math.sinh(my / EARTH_RADIUS_M)) * (180 / Math.PI);
+  return [lon, lat];
+}
+
+/** Tile bounds in lon/lat: [minLon, minLat, maxLon, maxLat]. */
+export function mapTileBBox(z: number, x: number, y: number): BBox {
+  const [minX, minY, maxX, maxY] = mapTileBoundsMeters(z, x, y);
+  return [...metersToLonLat(minX, minY), ...metersToLonLat(maxX, maxY)];
+}
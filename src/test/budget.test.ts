@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { budgetPrincipal, createProcessingUnitBudget, type BudgetLedger } from "@/lib/services/budget";
+import { BudgetExceededError } from "@/lib/services/errors";
+import { estimateProcessingUnits } from "@/lib/services/processing-units";
+
+const PRINCIPAL = { userId: "alice", workspaceId: "farm" };
+
+describe("processing-unit estimation", () => {
+  it("scales with output area, bands, samples and FLOAT32 output", () => {
+    expect(estimateProcessingUnits({ width: 512, height: 512, inputBands: 3 })).toBe(1);
+    expect(estimateProcessingUnits({ width: 1024, height: 512, inputBands: 3 })).toBe(2);
+    expect(estimateProcessingUnits({ width: 512, height: 512, inputBands: 6, dataSamples: 2 })).toBe(4);
+    expect(estimateProcessingUnits({ width: 512, height: 512, inputBands: 3, float32Output: true })).toBe(2);
+  });
+
+  it("bills tiny outputs at the minimum area factor", () => {
+    expect(estimateProcessingUnits({ width: 1, height: 1, inputBands: 3 })).toBe(0.01);
+  });
+});
+
+describe("processing-unit budgets", () => {
+  it("is unlimited without configured limits", () => {
+    const budget = createProcessingUnitBudget(PRINCIPAL, {}, new Map());
+    expect(budget.remaining()).toBe(Infinity);
+    expect(() => budget.check(1e6)).not.toThrow();
+  });
+
+  it("refuses requests beyond the tightest limit", () => {
+    const ledger: BudgetLedger = new Map();
+    const budget = createProcessingUnitBudget(
+      PRINCIPAL,
+      { user: { daily: 5 }, workspace: { monthly: 100 } },
+      ledger
+    );
+    budget.charge(4);
+    expect(budget.remaining()).toBe(1);
+    expect(() => budget.check(0.5)).not.toThrow();
+    expect(() => budget.check(2)).toThrow(BudgetExceededError);
+  });
+
+  it("reserves checked estimates until they are charged or released", () => {
+    const ledger: BudgetLedger = new Map();
+    const limits = { user: { daily: 5 } };
+    const first = createProcessingUnitBudget(PRINCIPAL, limits, ledger);
+    const second = createProcessingUnitBudget(PRINCIPAL, limits, ledger);
+    first.check(3);
+    expect(() => second.check(3)).toThrow(BudgetExceededError);
+
+    first.charge(0, 3); // cache hit: the reservation is refunded
+    second.check(3);
+    expect(first.remaining()).toBe(2);
+    second.release();
+    expect(first.remaining()).toBe(5);
+  });
+
+  it("shares workspace usage between users and resets daily limits per UTC day", () => {
+    const ledger: BudgetLedger = new Map();
+    let now = new Date("2024-07-10T12:00:00Z");
+    const limits = { user: { daily: 10 }, workspace: { daily: 15 } };
+    createProcessingUnitBudget(PRINCIPAL, limits, ledger, () => now).charge(8);
+    const bob = createProcessingUnitBudget({ userId: "bob", workspaceId: "farm" }, limits, ledger, () => now);
+    expect(bob.remaining()).toBe(7);
+
+    now = new Date("2024-07-11T00:00:01Z");
+    expect(bob.remaining()).toBe(10);
+  });
+});
+
+describe("budget principals", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("shares one budget when no proxy is trusted, so spoofed headers do not reset it", () => {
+    const ledger: BudgetLedger = new Map();
+    const limits = { user: { daily: 5 } };
+    const spoofed = (ip: string) =>
+      createProcessingUnitBudget(budgetPrincipal(new Headers({ "x-real-ip": ip, "x-user-id": ip })), limits, ledger);
+    spoofed("192.0.2.1").charge(5);
+    expect(spoofed("192.0.2.2").remaining()).toBe(0);
+    expect(() => spoofed("192.0.2.3").check(1)).toThrow(BudgetExceededError);
+  });
+
+  it("bills by client IP behind a trusted reverse proxy", () => {
+    vi.stubEnv("PU_BUDGET_TRUSTED_PROXY", "true");
+    const headers = new Headers({ "x-user-id": "fresh-id", "x-forwarded-for": "198.51.100.7, 203.0.113.9" });
+    expect(budgetPrincipal(headers)).toEqual({ userId: "ip:203.0.113.9", workspaceId: "default" });
+    expect(budgetPrincipal(new Headers({ "x-real-ip": "192.0.2.1" })).userId).toBe("ip:192.0.2.1");
+  });
+
+  it("trusts identity headers behind an auth proxy", () => {
+    vi.stubEnv("PU_BUDGET_TRUST_IDENTITY_HEADERS", "true");
+    const headers = new Headers({ "x-user-id": "alice", "x-workspace-id": "farm", "x-real-ip": "192.0.2.1" });
+    expect(budgetPrincipal(headers)).toEqual(PRINCIPAL);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  colorLegend,
+  colorRampFunction,
+  radarColorLegend,
+  radarColorRamp,
+  resolveColorRamp,
+} from "@/lib/services/color-ramps";
+import { SPECTRAL_INDICES } from "@/lib/services/indices";
+
+const NDVI = SPECTRAL_INDICES.NDVI;
+
+/** Run the generated evalscript `colorFor` the way Sentinel Hub would. */
+function colorFor(source: string, value: number): number[] {
+  return new Function(`${source}\nreturn colorFor(${value});`)();
+}
+
+describe("resolveColorRamp", () => {
+  it("defaults to the index's own classes", () => {
+    expect(resolveColorRamp(NDVI)).toEqual({ id: "classes", kind: "classed", classes: NDVI.colorRamp });
+  });
+
+  it("overrides class limits with custom breakpoints", () => {
+    const ramp = resolveColorRamp(NDVI, { ramp: "agronomic", breakpoints: [0.1, 0.3, 0.5, 0.7] });
+    expect(ramp.kind === "classed" && ramp.classes.map((c) => c.below)).toEqual([0.1, 0.3, 0.5, 0.7, undefined]);
+  });
+
+  it("spreads continuous stops over [min, max] or takes one value per stop", () => {
+    const spread = resolveColorRamp(NDVI, { ramp: "viridis", breakpoints: [0, 1] });
+    expect(spread.kind === "continuous" && spread.stops.map((s) => s.value)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    const exact = resolveColorRamp(NDVI, { ramp: "RdYlGn", breakpoints: [0, 0.2, 0.3, 0.5, 0.9] });
+    expect(exact.kind === "continuous" && exact.stops.map((s) => s.value)).toEqual([0, 0.2, 0.3, 0.5, 0.9]);
+  });
+
+  it("rejects malformed breakpoints", () => {
+    expect(() => resolveColorRamp(NDVI, { ramp: "agronomic", breakpoints: [0.2, 0.4] })).toThrow(/needs 4 breakpoints/);
+    expect(() => resolveColorRamp(NDVI, { ramp: "viridis", breakpoints: [1, 0] })).toThrow(/ascending/);
+    expect(() => resolveColorRamp(NDVI, { ramp: "RdYlGn", breakpoints: [0, 0.5, 1] })).toThrow(/2 breakpoints/);
+  });
+});
+
+describe("colorRampFunction", () => {
+  it("maps values onto classes", () => {
+    const source = colorRampFunction(resolveColorRamp(NDVI, { ramp: "agronomic" }), true);
+    expect(colorFor(source, 0.1)).toEqual([0.6, 0.4, 0.2, 1]);
+    expect(colorFor(source, 0.9)).toEqual([0.1, 0.5, 0.15, 1]);
+  });
+
+  it("interpolates continuous ramps between stops and clamps outside them", () => {
+    const ramp = resolveColorRamp(NDVI, { ramp: "RdYlGn", breakpoints: [0, 1] });
+    const source = colorRampFunction(ramp, false);
+    expect(colorFor(source, -5)).toEqual([0.843, 0.098, 0.11]);
+    expect(colorFor(source, 0.5)).toEqual([1, 1, 0.749]);
+    const between = colorFor(source, 0.125);
+    expect(between[0]).toBeCloseTo((0.843 + 0.992) / 2, 6);
+    expect(colorFor(source, 2)).toEqual([0.102, 0.588, 0.255]);
+  });
+});
+
+describe("colorLegend", () => {
+  it("labels classes with their value ranges", () => {
+    const legend = colorLegend(NDVI, resolveColorRamp(NDVI, { ramp: "agronomic" }));
+    expect(legend.entries.map((e) => e.label)).toEqual([
+      "Bare soil / no crop (< 0.2)",
+      "Stressed (0.2 – 0.4)",
+      "Moderate (0.4 – 0.6)",
+      "Healthy (0.6 – 0.8)",
+      "Vigorous (≥ 0.8)",
+    ]);
+    expect(legend.entries[0].color).toBe("#996633");
+    expect(legend.masked.color).toBe("#b3b3b3");
+  });
+
+  it("lists continuous stops low to high", () => {
+    const legend = colorLegend(NDVI, resolveColorRamp(NDVI, { ramp: "viridis" }));
+    expect(legend.kind).toBe("continuous");
+    expect(legend.entries.map((e) => e.value)).toEqual([-0.2, 0, 0.2, 0.4, 0.6]);
+  });
+
+  it("draws radar backscatter in greys without a masked swatch", () => {
+    const ramp = radarColorRamp("backscatter", -25, 0);
+    expect(colorFor(colorRampFunction(ramp, false), -12.5)).toEqual([0.5, 0.5, 0.5]);
+    const legend = radarColorLegend(ramp, "VV backscatter (dB)");
+    expect(legend.entries.map((e) => e.label)).toEqual(["-25", "0"]);
+    expect("masked" in legend).toBe(false);
+  });
+});
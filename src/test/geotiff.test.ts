@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { encodeGeoTiff, readTiffTags, tagGeoTiff, TIFF_TAGS } from "@/lib/services/geotiff";
+
+const raster = {
+  width: 3,
+  height: 2,
+  bands: 1,
+  values: new Float32Array([0.1, 0.2, 0.3, -9999, 0.5, 0.6]),
+  bbox: [10, 50, 10.3, 50.1] as [number, number, number, number],
+};
+
+describe("encodeGeoTiff", () => {
+  it("georeferences the raster's top-left corner and pixel size", () => {
+    const tags = readTiffTags(encodeGeoTiff(raster));
+    expect(tags.get(TIFF_TAGS.imageWidth)?.values).toEqual([3]);
+    expect(tags.get(TIFF_TAGS.imageLength)?.values).toEqual([2]);
+    expect(tags.get(TIFF_TAGS.modelTiepoint)?.values).toEqual([0, 0, 0, 10, 50.1, 0]);
+    const [scaleX, scaleY] = tags.get(TIFF_TAGS.modelPixelScale)?.values as number[];
+    expect(scaleX).toBeCloseTo(0.1, 10);
+    expect(scaleY).toBeCloseTo(0.05, 10);
+    expect((tags.get(TIFF_TAGS.geoKeyDirectory)?.values as number[]).slice(-4)).toEqual([2048, 0, 1, 4326]);
+  });
+});
+
+describe("tagGeoTiff", () => {
+  it("adds no-data and metadata tags without moving the pixel data", () => {
+    const original = encodeGeoTiff(raster);
+    const tagged = tagGeoTiff(original, -9999, { INDEX: "NDVI", INDEX_NAME: "Normalized <Difference>" });
+    const tags = readTiffTags(tagged);
+    expect(tags.get(TIFF_TAGS.gdalNoData)?.values).toBe("-9999");
+    expect(tags.get(TIFF_TAGS.gdalMetadata)?.values).toBe(
+      '<GDALMetadata><Item name="INDEX">NDVI</Item><Item name="INDEX_NAME">Normalized &lt;Difference&gt;</Item></GDALMetadata>'
+    );
+    const offset = (tags.get(TIFF_TAGS.stripOffsets)?.values as number[])[0];
+    const view = new DataView(tagged);
+    expect(Array.from({ length: 6 }, (_, i) => view.getFloat32(offset + i * 4, true))).toEqual(
+      Array.from(raster.values)
+    );
+  });
+
+  it("replaces existing tags instead of duplicating them", () => {
+    const twice = tagGeoTiff(tagGeoTiff(encodeGeoTiff(raster), 0, { INDEX: "EVI" }), -1, { INDEX: "NDVI" });
+    const view = new DataView(twice);
+    const ifd = view.getUint32(4, true);
+    const tags = Array.from({ length: view.getUint16(ifd, true) }, (_, i) => view.getUint16(ifd + 2 + i * 12, true));
+    expect(tags.filter((tag) => tag === TIFF_TAGS.gdalNoData)).toHaveLength(1);
+    expect(readTiffTags(twice).get(TIFF_TAGS.gdalNoData)?.values).toBe("-1");
+  });
+});
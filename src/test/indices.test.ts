@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { InvalidRequestError } from "@/lib/services/errors";
+import {
+  SPECTRAL_INDEX_IDS,
+  SPECTRAL_INDICES,
+  getSpectralIndex,
+  isSpectralIndexId,
+} from "@/lib/services/indices";
+
+/** Evaluate an index formula the way the evalscript does, with band values bound by name. */
+function evaluate(id: keyof typeof SPECTRAL_INDICES, sample: Record<string, number>): number {
+  const index = SPECTRAL_INDICES[id];
+  const fn = new Function(...index.bands, `return ${index.formula};`);
+  return fn(...index.bands.map((b) => sample[b]));
+}
+
+const VEGETATION = { B02: 0.03, B03: 0.06, B04: 0.04, B05: 0.12, B08: 0.4, B11: 0.18, B12: 0.09 };
+
+describe("spectral index registry", () => {
+  it("resolves ids case-insensitively and rejects unknown ones", () => {
+    expect(getSpectralIndex("ndmi").id).toBe("NDMI");
+    expect(isSpectralIndexId("NDVI")).toBe(true);
+    expect(isSpectralIndexId("FOO")).toBe(false);
+    expect(() => getSpectralIndex("FOO")).toThrow(/Unknown spectral index/);
+    expect(() => getSpectralIndex("FOO")).toThrow(InvalidRequestError);
+  });
+
+  it("yields in-range values for a healthy vegetation pixel", () => {
+    for (const id of SPECTRAL_INDEX_IDS) {
+      const value = evaluate(id, VEGETATION);
+      const [lo, hi] = SPECTRAL_INDICES[id].validRange;
+      expect(Number.isFinite(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(lo);
+      expect(value).toBeLessThanOrEqual(hi);
+    }
+    expect(evaluate("NDVI", VEGETATION)).toBeCloseTo(0.818, 3);
+    expect(evaluate("NDWI", VEGETATION)).toBeLessThan(0);
+  });
+
+  it("ends every color ramp with an unbounded class", () => {
+    for (const id of SPECTRAL_INDEX_IDS) {
+      const ramp = SPECTRAL_INDICES[id].colorRamp;
+      expect(ramp[ramp.length - 1].below).toBeUndefined();
+      ramp.slice(0, -1).forEach((c) => expect(c.below).toBeTypeOf("number"));
+    }
+  });
+});
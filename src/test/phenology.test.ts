@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractPhenology,
+  gapFillDaily,
+  MIN_PHENOLOGY_OBSERVATIONS,
+  observationDatePrecisionDays,
+  observationsFromTimeSeries,
+  savitzkyGolay,
+  type PhenologyPoint,
+} from "@/lib/analysis/phenology";
+import type { VegetationTimeSeriesPoint } from "@/lib/services/sentinel";
+
+const DAY_MS = 86_400_000;
+
+/** A season sampled every `step` days: base 0.2, +0.6 peak at `peakDay` (day 0 = 1 March 2024). */
+function season(step: number, peakDay = 120, widthDays = 30, noise = () => 0): PhenologyPoint[] {
+  const start = Date.parse("2024-03-01T00:00:00Z");
+  return Array.from({ length: Math.floor(240 / step) + 1 }, (_, k) => {
+    const day = k * step;
+    const value = 0.2 + 0.6 * Math.exp(-((day - peakDay) ** 2) / (2 * widthDays ** 2)) + noise();
+    return { date: new Date(start + day * DAY_MS).toISOString().slice(0, 10), value };
+  });
+}
+
+describe("phenology", () => {
+  it("gap-fills observations onto a daily grid, averaging same-day values", () => {
+    const daily = gapFillDaily([
+      { date: "2024-05-05", value: 0.6 },
+      { date: "2024-05-01", value: 0.2 },
+      { date: "2024-05-01", value: 0.4 },
+    ]);
+    expect(daily.map((p) => p.date)).toEqual(["2024-05-01", "2024-05-02", "2024-05-03", "2024-05-04", "2024-05-05"]);
+    expect(daily.map((p) => p.value)).toEqual([0.3, 0.375, 0.45, 0.525, 0.6].map((v) => expect.closeTo(v, 10)));
+  });
+
+  it("keeps quadratics exact and damps noise with Savitzky–Golay", () => {
+    const parabola = Array.from({ length: 50 }, (_, i) => 0.001 * (i - 20) ** 2);
+    savitzkyGolay(parabola, 7).forEach((value, i) => expect(value).toBeCloseTo(parabola[i], 10));
+    const zigzag = Array.from({ length: 50 }, (_, i) => 0.5 + (i % 2 ? 0.05 : -0.05));
+    const smoothed = savitzkyGolay(zigzag, 7).slice(7, -7);
+    smoothed.forEach((value) => expect(Math.abs(value - 0.5)).toBeLessThan(0.01));
+  });
+
+  it("derives start, peak and end of a 5-day season", () => {
+    const metrics = extractPhenology(season(5));
+    // Peak on day 120 (29 June); 20% of the amplitude is reached 1.79 widths (54 days) either side.
+    expect(metrics.peak.date).toBe("2024-06-29");
+    expect(metrics.peak.value).toBeCloseTo(0.8, 1);
+    expect(metrics.startOfSeason?.date).toMatch(/^2024-05-0[4-7]$/);
+    expect(metrics.endOfSeason?.date).toMatch(/^2024-08-2[0-4]$/);
+    expect(metrics.seasonLengthDays).toBeGreaterThanOrEqual(104);
+    expect(metrics.seasonLengthDays).toBeLessThanOrEqual(112);
+    expect(metrics.amplitude).toBeCloseTo(0.6, 1);
+    // Area under the Gaussian between the thresholds ≈ 0.6 × 30 × √(2π) × 0.93, above the 0.2 base.
+    expect(metrics.integratedAboveBase).toBeCloseTo(42, -1);
+    expect(metrics.integratedIndex! - metrics.integratedAboveBase!).toBeCloseTo(0.2 * (metrics.seasonLengthDays! + 1), 0);
+  });
+
+  it("is robust to noisy, irregular observations", () => {
+    let seed = 7;
+    const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5) * 0.06;
+    const observations = season(5, 120, 30, noise).filter((_, k) => k % 3 !== 1);
+    const metrics = extractPhenology(observations);
+    const peakDay = (Date.parse(metrics.peak.date) - Date.parse("2024-03-01")) / DAY_MS;
+    expect(Math.abs(peakDay - 120)).toBeLessThanOrEqual(6);
+    expect(metrics.startOfSeason).toBeDefined();
+    expect(metrics.endOfSeason).toBeDefined();
+  });
+
+  it("leaves the season open when the series starts after green-up or is flat", () => {
+    const lateStart = season(5).filter((p) => p.date >= "2024-06-01");
+    const metrics = extractPhenology(lateStart);
+    expect(metrics.startOfSeason).toBeUndefined();
+    expect(metrics.endOfSeason).toBeDefined();
+    expect(metrics.seasonLengthDays).toBeUndefined();
+
+    const flat = season(5).map((p) => ({ ...p, value: 0.3 }));
+    const flatMetrics = extractPhenology(flat);
+    expect(flatMetrics.startOfSeason ?? flatMetrics.endOfSeason).toBeUndefined();
+  });
+
+  it("needs enough observations and drops mostly masked rows", () => {
+    expect(() => extractPhenology(season(5).slice(0, MIN_PHENOLOGY_OBSERVATIONS - 1))).toThrow("at least");
+    const rows = [
+      { date: "2024-05-01", mean: 0.4, maskedFraction: 0.1 },
+      { date: "2024-05-06", mean: 0.2, maskedFraction: 0.8 },
+      { date: "2024-05-11", mean: Number.NaN },
+    ] as VegetationTimeSeriesPoint[];
+    expect(observationsFromTimeSeries(rows)).toEqual([{ date: "2024-05-01", value: 0.4 }]);
+  });
+
+  it("dates interval mosaics at the middle day and reports the precision", () => {
+    const rows = [
+      { date: "2024-05-01", interval: { from: "2024-05-01T00:00:00Z", to: "2024-05-06T00:00:00Z" }, mean: 0.4 },
+      { date: "2024-05-06", interval: { from: "2024-05-06T00:00:00Z", to: "2024-05-07T23:59:59Z" }, mean: 0.5 },
+    ] as VegetationTimeSeriesPoint[];
+    expect(observationsFromTimeSeries(rows)).toEqual([
+      { date: "2024-05-03", value: 0.4 },
+      { date: "2024-05-06", value: 0.5 },
+    ]);
+    expect(observationDatePrecisionDays(rows)).toBe(2);
+    expect(observationDatePrecisionDays(rows.slice(1))).toBe(1);
+    expect(observationDatePrecisionDays([])).toBe(0);
+  });
+});
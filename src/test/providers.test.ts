@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getEarthObservationProvider } from "@/lib/services/providers";
+import { getOpticalCollection } from "@/lib/services/collections";
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+}
+
+describe("earth observation providers", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("defaults to Sentinel Hub EU-Central-1", () => {
+    expect(getEarthObservationProvider().id).toBe("sentinel-hub");
+  });
+
+  it("routes CDSE requests to the Copernicus Data Space endpoints", async () => {
+    vi.stubEnv("EO_PROVIDER", "cdse");
+    vi.stubEnv("SENTINEL_CLIENT_ID", "id");
+    vi.stubEnv("SENTINEL_CLIENT_SECRET", "secret");
+    const urls: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string | URL | Request) => {
+        urls.push(String(url));
+        return String(url).includes("/token")
+          ? jsonResponse({ access_token: "token", expires_in: 3600 })
+          : jsonResponse({ features: [] });
+      })
+    );
+
+    const provider = getEarthObservationProvider();
+    await provider.searchCatalog({ collections: ["sentinel-2-l2a"] });
+
+    expect(provider.id).toBe("cdse");
+    expect(urls).toEqual([
+      "https://identity.dataspace.copernicus.eu/auth/realms/CDSE/protocol/openid-connect/token",
+      "https://sh.dataspace.copernicus.eu/api/v1/catalog/1.0.0/search",
+    ]);
+  });
+
+  it("routes each collection to a deployment hosting it", () => {
+    vi.stubEnv("EO_PROVIDER", "sentinel-hub-us-west");
+    expect(getEarthObservationProvider(getOpticalCollection("landsat-ot-l2")).id).toBe("sentinel-hub-us-west");
+    expect(getEarthObservationProvider(getOpticalCollection("sentinel-2-l2a")).id).toBe("sentinel-hub");
+
+    vi.stubEnv("EO_PROVIDER", "cdse");
+    expect(getEarthObservationProvider(getOpticalCollection("sentinel-2-l2a")).id).toBe("cdse");
+    expect(getEarthObservationProvider(getOpticalCollection("hls")).id).toBe("sentinel-hub-us-west");
+  });
+
+  it("rejects unknown providers", () => {
+    vi.stubEnv("EO_PROVIDER", "landsat-direct");
+    expect(() => getEarthObservationProvider()).toThrow(/Unknown EO_PROVIDER/);
+  });
+});
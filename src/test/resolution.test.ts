@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  bboxAreaKm2,
+  bboxExtentMeters,
+  MAX_TILE_PX,
+  planImage,
+  sizeImage,
+  splitIntoTiles,
+  suggestZoomIn,
+} from "@/lib/services/resolution";
+import type { BBox } from "@/lib/services/sentinel";
+
+const FIELD: BBox = [13.4, 52.5, 13.45, 52.53]; // ~3.4 × 3.3 km near Berlin
+const IOWA: BBox = [-96.64, 40.38, -90.14, 43.5];
+
+describe("resolution planning", () => {
+  it("measures bbox extent on the ground", () => {
+    const extent = bboxExtentMeters(FIELD);
+    expect(extent.width).toBeCloseTo(3387, -1);
+    expect(extent.height).toBeCloseTo(3317, -1);
+    expect(bboxAreaKm2(FIELD)).toBeCloseTo(11.2, 0);
+  });
+
+  it("renders fields at native 10 m with their aspect ratio", () => {
+    expect(planImage(FIELD)).toEqual({ width: 339, height: 332, resolution: 10 });
+    expect(planImage(FIELD, 60)).toMatchObject({ width: 56, height: 55, resolution: 60 });
+  });
+
+  it("keeps pixels square on the ground for explicit sizes", () => {
+    const highLatitude: BBox = [20, 60, 21, 61]; // a degree of longitude is half as long here
+    expect(sizeImage(highLatitude, 512)).toMatchObject({ width: 512, height: 1033 });
+    expect(sizeImage(highLatitude, undefined, 512)).toMatchObject({ width: 254, height: 512 });
+    expect(sizeImage(highLatitude, 512, 512)).toMatchObject({ width: 254, height: 512 });
+  });
+
+  it("coarsens past 60 m for regions", () => {
+    const plan = planImage(IOWA);
+    expect(plan.resolution).toBeGreaterThan(60);
+    expect(Math.max(plan.width, plan.height)).toBeLessThanOrEqual(2048);
+  });
+
+  it("splits large images into tiles that cover every pixel once", () => {
+    const tiles = splitIntoTiles(FIELD, 2500, 1100);
+    expect(tiles).toHaveLength(6);
+    expect(tiles.every((t) => t.width <= MAX_TILE_PX && t.height <= MAX_TILE_PX)).toBe(true);
+    expect(tiles.reduce((sum, t) => sum + t.width * t.height, 0)).toBe(2500 * 1100);
+    expect(tiles[0].bbox[3]).toBe(FIELD[3]); // first row is the northern edge
+    expect(tiles[tiles.length - 1].bbox[1]).toBeCloseTo(FIELD[1], 10);
+  });
+
+  it("suggests a zoomed-in bbox within the area limit", () => {
+    const suggestion = suggestZoomIn(IOWA, 10_000);
+    expect(bboxAreaKm2(suggestion)).toBeLessThanOrEqual(10_000);
+    expect(suggestion[0]).toBeGreaterThan(IOWA[0]);
+    expect(suggestion[2]).toBeLessThan(IOWA[2]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createDiskStore,
+  createMemoryStore,
+  createResultCache,
+  getCacheStatus,
+  resultTtlMs,
+  withResultCache,
+  type CacheEntry,
+} from "@/lib/services/result-cache";
+import type { EarthObservationProvider } from "@/lib/services/providers";
+import type { VegetationStatsResponse } from "@/lib/services/sentinel";
+
+function jsonEntry(data: unknown, ttlMs = 60_000): CacheEntry {
+  const storedAt = Date.now();
+  return { kind: "json", data, storedAt, expiresAt: storedAt + ttlMs };
+}
+
+describe("result cache", () => {
+  it("evicts the least recently used entry", async () => {
+    const store = createMemoryStore(2);
+    await store.set("a", jsonEntry(1));
+    await store.set("b", jsonEntry(2));
+    await store.get("a");
+    await store.set("c", jsonEntry(3));
+
+    expect(await store.get("a")).toBeDefined();
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBeDefined();
+  });
+
+  it("drops expired entries", async () => {
+    const store = createMemoryStore();
+    await store.set("old", jsonEntry(1, -1));
+    expect(await store.get("old")).toBeUndefined();
+  });
+
+  it("keeps historical ranges for long and ranges reaching today briefly", () => {
+    const now = new Date("2024-07-10T12:00:00Z");
+    const historical = resultTtlMs("2024-06-01T23:59:59Z", now);
+    const today = resultTtlMs("2024-07-10T23:59:59Z", now);
+    expect(historical).toBeGreaterThan(30 * 86_400_000);
+    expect(today).toBeLessThanOrEqual(3_600_000);
+    expect(resultTtlMs("2024-07-09T23:59:59Z", now)).toBe(today);
+  });
+
+  it("reads binary results back from disk and promotes them to memory", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "result-cache-"));
+    try {
+      const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+      const storedAt = Date.now();
+      const entry: CacheEntry = { kind: "binary", data: bytes.buffer, storedAt, expiresAt: storedAt + 60_000 };
+      await createDiskStore(directory).set("png", entry);
+
+      const cache = createResultCache(createMemoryStore(), createDiskStore(directory));
+      const fromDisk = await cache.get("png");
+      expect(fromDisk?.source).toBe("disk");
+      expect(fromDisk?.entry.kind === "binary" && Array.from(new Uint8Array(fromDisk.entry.data))).toEqual(
+        Array.from(bytes)
+      );
+      expect((await cache.get("png"))?.source).toBe("memory");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("does not store statistics with failed intervals", async () => {
+    const interval = { from: "2024-06-01T00:00:00Z", to: "2024-06-01T23:59:59Z" };
+    const responses: VegetationStatsResponse[] = [
+      { status: "OK", data: [{ interval, outputs: {}, error: { type: "EXECUTION_ERROR", message: "Temporary failure" } }] },
+      { status: "OK", data: [{ interval, outputs: {} }] },
+    ];
+    let calls = 0;
+    const cache = createResultCache(createMemoryStore());
+    const cachedProvider = withResultCache(
+      {
+        id: "sentinel-hub",
+        apiBase: "https://example.test",
+        statistics: async () => responses[calls++],
+      } as unknown as EarthObservationProvider,
+      () => cache
+    );
+    const payload = { aggregation: { timeRange: { from: interval.from, to: interval.to }, evalscript: "" } };
+
+    expect((await cachedProvider.statistics(payload)).data?.[0].error).toBeDefined();
+    const retried = await cachedProvider.statistics(payload);
+    expect(retried.data?.[0].error).toBeUndefined();
+    expect(getCacheStatus(retried)).toEqual({ hit: false });
+    expect(getCacheStatus(await cachedProvider.statistics(payload))).toMatchObject({ hit: true });
+    expect(calls).toBe(2);
+  });
+});
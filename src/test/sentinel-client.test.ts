@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createSentinelClient, type SentinelClient } from "@/lib/services/sentinel-client";
+import { AuthError, QuotaExceededError, RateLimitedError } from "@/lib/services/errors";
+
+function response(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/** fetch stub: the auth endpoint issues numbered tokens, API calls get the queued responses. */
+function stubFetch(apiResponses: Response[]) {
+  let issued = 0;
+  const apiCalls: RequestInit[] = [];
+  const fetchMock = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    if (String(url).includes("/auth/")) {
+      issued++;
+      return response(200, { access_token: `token-${issued}`, expires_in: 3600 });
+    }
+    apiCalls.push(init ?? {});
+    const next = apiResponses.shift();
+    if (!next) throw new Error("unexpected API call");
+    return next;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return { apiCalls, tokensIssued: () => issued };
+}
+
+const request = { url: "https://example.test/api/v1/process", label: "Process API", body: "{}" };
+
+describe("sentinel client", () => {
+  let client: SentinelClient;
+
+  beforeEach(() => {
+    client = createSentinelClient({
+      authUrl: "https://example.test/auth/token",
+      clientIdEnv: "SENTINEL_CLIENT_ID",
+      clientSecretEnv: "SENTINEL_CLIENT_SECRET",
+    });
+    vi.stubEnv("SENTINEL_CLIENT_ID", "id");
+    vi.stubEnv("SENTINEL_CLIENT_SECRET", "secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries 5xx responses honoring Retry-After", async () => {
+    const { apiCalls } = stubFetch([
+      response(503, { error: "busy" }, { "Retry-After": "0" }),
+      response(200, { ok: true }),
+    ]);
+    const res = await client.fetch(request);
+    expect(await res.json()).toEqual({ ok: true });
+    expect(apiCalls).toHaveLength(2);
+  });
+
+  it("refreshes a revoked token once on 401", async () => {
+    const { apiCalls, tokensIssued } = stubFetch([response(401), response(200)]);
+    await client.fetch(request);
+    expect(tokensIssued()).toBe(2);
+    const auth = apiCalls.map((c) => (c.headers as Record<string, string>).Authorization);
+    expect(auth).toEqual(["Bearer token-1", "Bearer token-2"]);
+  });
+
+  it("raises AuthError when the refreshed token is rejected too", async () => {
+    stubFetch([response(401), response(401, { error: "unauthorized" })]);
+    await expect(client.fetch(request)).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("raises RateLimitedError without waiting out a long Retry-After", async () => {
+    stubFetch([response(429, { error: "slow down" }, { "Retry-After": "120" })]);
+    const err = await client.fetch(request).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(RateLimitedError);
+    expect((err as RateLimitedError).retryAfterSeconds).toBe(120);
+  });
+
+  it("recognizes exhausted processing-unit quota", async () => {
+    stubFetch([response(403, { error: "Processing unit quota exceeded" })]);
+    await expect(client.fetch(request)).rejects.toBeInstanceOf(QuotaExceededError);
+  });
+});
@@ -0,0 +1,450 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { bboxToPolygon } from "@/lib/chat-parser";
+import {
+  compareDates,
+  extractIndexStatsForLLM,
+  generateDifferenceImage,
+  generateIndexGeoTiff,
+  generateMapTile,
+  generateNDVIImage,
+  getIndexAnomaly,
+  extractCompositeDates,
+  extractMaskedFraction,
+  extractRadarStatsForLLM,
+  generateRadarImage,
+  getCompositeDates,
+  getRadarStats,
+  GEOTIFF_NO_DATA,
+  getVegetationStats,
+  getVegetationTimeSeries,
+  getZonalStats,
+  listAvailableDates,
+  listRadarDates,
+  parseZoneFeatureCollection,
+  radarImageRamp,
+  searchSatelliteImages,
+} from "@/lib/services/sentinel";
+import { AreaTooLargeError, InvalidRequestError, NoDataError } from "@/lib/services/errors";
+import { changeColorRamp, colorRampFunction, resolveColorRamp } from "@/lib/services/color-ramps";
+import { readTiffTags, TIFF_TAGS } from "@/lib/services/geotiff";
+import { SPECTRAL_INDICES } from "@/lib/services/indices";
+import { decodePng } from "@/lib/services/png";
+import { getCacheStatus } from "@/lib/services/result-cache";
+import {
+  acquisitionsBetween,
+  ndviAt,
+  sarAcquisitionsBetween,
+  sarVegetationIndex,
+  type BBox,
+} from "../../scripts/sentinel-stub/scene";
+import { createSentinelStub, type SentinelStub } from "../../scripts/sentinel-stub/server";
+
+// End-to-end against the local stand-in: real evalscripts, real HTTP, no network.
+const FIELD: BBox = [13.4, 52.5, 13.45, 52.53];
+const CENTER: [number, number] = [(FIELD[0] + FIELD[2]) / 2, (FIELD[1] + FIELD[3]) / 2];
+const CLOUDY = "2024-07-06";
+const NO_DATA = "2024-07-11";
+
+describe("sentinel service against the local stand-in", () => {
+  let stub: SentinelStub;
+
+  beforeAll(async () => {
+    stub = await createSentinelStub({
+      scenario: {
+        firstAcquisition: "2024-07-01",
+        fields: [{ name: "Test field", bbox: FIELD, ndvi: 0.3 }],
+        clouds: [{ date: CLOUDY, center: CENTER, radius: 0.5 }],
+        noDataDates: [NO_DATA],
+      },
+    });
+    vi.stubEnv("SENTINEL_BASE_URL", stub.url);
+    vi.stubEnv("SENTINEL_CLIENT_ID", "stub");
+    vi.stubEnv("SENTINEL_CLIENT_SECRET", "stub");
+    vi.stubEnv("RESULT_CACHE", "off");
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await stub.close();
+  });
+
+  it("serves the scenario's acquisition calendar", () => {
+    expect(acquisitionsBetween(stub.scenario, "2024-07-01T00:00:00Z", "2024-07-15T23:59:59Z")).toEqual([
+      "2024-07-01",
+      CLOUDY,
+      NO_DATA,
+    ]);
+  });
+
+  it("picks the newest clear scene, skipping cloudy and no-data acquisitions", async () => {
+    const scene = await searchSatelliteImages(FIELD, { from: "2024-07-01", to: "2024-07-15" });
+    expect(scene?.timestamp.startsWith("2024-07-01")).toBe(true);
+    expect(scene?.aoiCloudCover).toBe(0);
+  });
+
+  it("computes the configured NDVI for a clear day", async () => {
+    const stats = extractIndexStatsForLLM(await getVegetationStats(bboxToPolygon(FIELD), "2024-07-01"));
+    expect(Number(stats?.mean)).toBeCloseTo(ndviAt(stub.scenario, CENTER[0], CENTER[1], "2024-07-01"), 3);
+    expect(stats?.maskedFraction).toBe(0);
+  });
+
+  it("reports percentiles, a histogram and hectares per vegetation class", async () => {
+    // Straddles the field's west edge: the western half is background, the eastern half field.
+    const edge: BBox = [FIELD[0] - 0.005, 52.51, FIELD[0] + 0.005, 52.515];
+    const stats = extractIndexStatsForLLM(await getVegetationStats(bboxToPolygon(edge), "2024-07-01"), "NDVI");
+    const fieldNdvi = ndviAt(stub.scenario, CENTER[0], CENTER[1], "2024-07-01");
+    const backgroundNdvi = ndviAt(stub.scenario, edge[0], edge[1], "2024-07-01");
+
+    expect(stats?.percentiles?.p10).toBeCloseTo(backgroundNdvi, 2);
+    expect(stats?.percentiles?.p90).toBeCloseTo(fieldNdvi, 2);
+    // 0.01° x 0.005° at 52.5° N is about 37.5 ha.
+    expect(stats?.validAreaHa).toBeGreaterThan(36);
+    expect(stats?.validAreaHa).toBeLessThan(39);
+    const histogramHa = stats!.histogram!.reduce((sum, bin) => sum + bin.areaHa, 0);
+    expect(histogramHa).toBeCloseTo(stats!.validAreaHa!, 0);
+    expect(stats?.classAreas?.map((c) => c.id)).toEqual(["bare", "sparse", "moderate", "dense"]);
+    const fieldClass = stats!.classAreas!.find(
+      (c) => (c.min === undefined || fieldNdvi >= c.min) && (c.max === undefined || fieldNdvi < c.max)
+    );
+    expect(fieldClass?.fraction).toBeGreaterThan(0.4);
+    expect(fieldClass?.fraction).toBeLessThan(0.6);
+  });
+
+  it("reports a cloud-covered day as fully masked", async () => {
+    const response = await getVegetationStats(bboxToPolygon(FIELD), CLOUDY);
+    expect(extractIndexStatsForLLM(response)).toBeNull();
+    expect(response.data[0].outputs.masked?.bands?.B0?.stats?.mean).toBe(1);
+  });
+
+  it("raises NoDataError on days without an overpass", async () => {
+    await expect(getVegetationStats(bboxToPolygon(FIELD), "2024-07-02")).rejects.toBeInstanceOf(NoDataError);
+  });
+
+  it("drops cloudy and no-data days from time series", async () => {
+    const series = await getVegetationTimeSeries(bboxToPolygon(FIELD), "2024-07-01", "2024-07-15");
+    expect(series.map((p) => p.date)).toEqual(["2024-07-01"]);
+  });
+
+  it("serves repeated statistics from the result cache", async () => {
+    vi.stubEnv("RESULT_CACHE", "memory");
+    const polygon = bboxToPolygon(FIELD);
+    const first = await getVegetationStats(polygon, "2024-07-16");
+    const served = stub.requests.length;
+    const second = await getVegetationStats(polygon, "2024-07-16");
+    const statsServed = stub.requests.length;
+    const range = { from: "2024-07-01", to: "2024-07-05" };
+    const firstScene = await searchSatelliteImages(FIELD, range);
+    const searchServed = stub.requests.length;
+    const secondScene = await searchSatelliteImages(FIELD, range);
+    vi.stubEnv("RESULT_CACHE", "off");
+
+    expect(getCacheStatus(first)).toEqual({ hit: false });
+    expect(getCacheStatus(second)).toMatchObject({ hit: true, source: "memory" });
+    expect(second).toEqual(first);
+    expect(statsServed).toBe(served);
+    // Only the catalog search is repeated; the AOI cloud statistics come from the cache.
+    expect(stub.requests.length - searchServed).toBe(1);
+    expect(getCacheStatus(firstScene!)).toEqual({ hit: false });
+    expect(getCacheStatus(secondScene!)).toEqual({ hit: true });
+  });
+
+  it("renders a PNG through the Process API", async () => {
+    const png = new Uint8Array(await generateNDVIImage(FIELD, "2024-07-01", 32, 32));
+    expect(Array.from(png.slice(1, 4))).toEqual([0x50, 0x4e, 0x47]); // "PNG"
+  });
+
+  it("colors index images with a continuous ramp", async () => {
+    const ramp = { ramp: "RdYlGn" as const, breakpoints: [0, 1] };
+    const png = await generateNDVIImage(FIELD, "2024-07-01", 16, 16, "NDVI", "png", ramp);
+    const { pixels } = decodePng(new Uint8Array(png));
+    const centre = (8 * 16 + 8) * 4;
+    const source = colorRampFunction(resolveColorRamp(SPECTRAL_INDICES.NDVI, ramp), true);
+    const ndvi = ndviAt(stub.scenario, CENTER[0], CENTER[1], "2024-07-01");
+    const expected: number[] = new Function(`${source}\nreturn colorFor(${ndvi});`)();
+    expected.forEach((channel, i) => expect(Math.abs(pixels[centre + i] - channel * 255)).toBeLessThanOrEqual(3));
+  });
+
+  it("clips images to a drawn polygon", async () => {
+    // Lower-left triangle of the field: pixels above the diagonal fall outside and stay transparent.
+    const [w, s, e, n] = FIELD;
+    const triangle = {
+      type: "Polygon" as const,
+      coordinates: [[[w, s], [e, s], [w, n], [w, s]]],
+    };
+    const png = await generateNDVIImage(FIELD, "2024-07-01", 16, 16, "NDVI", "png", {}, triangle);
+    const { pixels } = decodePng(new Uint8Array(png));
+    const alphaAt = (col: number, row: number) => pixels[(row * 16 + col) * 4 + 3];
+    expect(alphaAt(2, 13)).toBe(255);
+    expect(alphaAt(13, 2)).toBe(0);
+  });
+
+  it("computes statistics over a multipolygon", async () => {
+    const [w, s, e, n] = FIELD;
+    const midLon = (w + e) / 2;
+    const square = (x0: number, x1: number) => [[[x0, s], [x1, s], [x1, n], [x0, n], [x0, s]]];
+    const stats = extractIndexStatsForLLM(
+      await getVegetationStats(
+        { type: "MultiPolygon", coordinates: [square(w, midLon - 0.005), square(midLon + 0.005, e)] },
+        "2024-07-01"
+      )
+    );
+    expect(stats?.maskedFraction).toBe(0);
+    expect(Number(stats?.mean)).toBeGreaterThan(0);
+  });
+
+  it("computes zonal statistics per feature, keyed by id", async () => {
+    const rows = await getZonalStats(
+      {
+        type: "FeatureCollection",
+        features: [
+          { type: "Feature", id: "north", properties: { name: "North field" }, geometry: bboxToPolygon(FIELD) },
+          { type: "Feature", properties: { name: "Too large" }, geometry: bboxToPolygon([-96.64, 40.38, -90.14, 43.5]) },
+          { type: "Feature", properties: {}, geometry: bboxToPolygon(FIELD) },
+        ],
+      },
+      "2024-07-01"
+    );
+    expect(rows.map((r) => r.id)).toEqual(["north", "Too large", "feature-3"]);
+    expect(rows[0].name).toBe("North field");
+    expect(Number(rows[0].stats?.mean)).toBeCloseTo(ndviAt(stub.scenario, CENTER[0], CENTER[1], "2024-07-01"), 3);
+    expect(rows[1]).toMatchObject({ stats: null, error: expect.stringContaining("limit") });
+    expect(rows[2].stats).toEqual(rows[0].stats);
+  });
+
+  it("rejects malformed feature collections", () => {
+    const feature = { type: "Feature", id: "a", geometry: bboxToPolygon(FIELD) };
+    expect(() => parseZoneFeatureCollection({ type: "Feature" })).toThrow("FeatureCollection");
+    expect(() => parseZoneFeatureCollection({ type: "FeatureCollection", features: [] })).toThrow("1-100");
+    expect(() => parseZoneFeatureCollection({ type: "FeatureCollection", features: [feature, feature] })).toThrow(
+      'Duplicate feature id "a"'
+    );
+    expect(() =>
+      parseZoneFeatureCollection({ type: "FeatureCollection", features: [{ ...feature, geometry: { type: "Point" } }] })
+    ).toThrow("Polygon or MultiPolygon");
+  });
+
+  it("compares two dates: stats deltas and areas of significant loss", async () => {
+    // Past the seasonal peak the field's NDVI drops by about 0.17; the background is unchanged.
+    const [before, after] = ["2024-07-16", "2024-08-15"];
+    const expected = ndviAt(stub.scenario, CENTER[0], CENTER[1], after) - ndviAt(stub.scenario, CENTER[0], CENTER[1], before);
+    const change = await compareDates(bboxToPolygon(FIELD), before, after);
+    expect(change.meanChange).toBeCloseTo(expected, 3);
+    expect(change.after.mean - change.before.mean).toBeCloseTo(change.meanChange, 6);
+    expect(change.medianChange).toBeCloseTo(expected, 3);
+    expect(change.lossAreaHa).toBeCloseTo(change.comparedAreaHa, 0);
+    expect(change.gainAreaHa).toBe(0);
+    await expect(compareDates(bboxToPolygon(FIELD), before, CLOUDY)).rejects.toThrow("earlier");
+    await expect(compareDates(bboxToPolygon(FIELD), "2024-07-01", CLOUDY)).rejects.toBeInstanceOf(NoDataError);
+  });
+
+  it("renders the difference map on the diverging change ramp", async () => {
+    const [before, after] = ["2024-07-16", "2024-08-15"];
+    const png = await generateDifferenceImage(FIELD, before, after, 16, 16);
+    const { pixels } = decodePng(new Uint8Array(png));
+    const centre = (8 * 16 + 8) * 4;
+    const expected: number[] = new Function(
+      `${colorRampFunction(changeColorRamp(), true)}\nreturn colorFor(${
+        ndviAt(stub.scenario, CENTER[0], CENTER[1], after) - ndviAt(stub.scenario, CENTER[0], CENTER[1], before)
+      });`
+    )();
+    expected.forEach((channel, i) => expect(Math.abs(pixels[centre + i] - channel * 255)).toBeLessThanOrEqual(3));
+  });
+
+  it("composites a window per pixel and reports the contributing dates", async () => {
+    // The field's NDVI declines every acquisition from 2024-07-16 to 2024-08-15 (seven passes).
+    const window = { from: "2024-07-16", to: "2024-08-15" };
+    const ndviOn = (date: string) => ndviAt(stub.scenario, CENTER[0], CENTER[1], date);
+    const expected = { "max-ndvi": "2024-07-16", "most-recent": "2024-08-15", median: "2024-07-31" } as const;
+    for (const [mode, date] of Object.entries(expected)) {
+      const response = await getVegetationStats(bboxToPolygon(FIELD), { ...window, mode: mode as keyof typeof expected });
+      expect(Number(extractIndexStatsForLLM(response)?.mean)).toBeCloseTo(ndviOn(date), 3);
+      expect(extractCompositeDates(response)).toEqual([{ date, pixelFraction: 1 }]);
+    }
+    await expect(
+      getVegetationStats(bboxToPolygon(FIELD), { from: "2024-01-01", to: "2024-06-01", mode: "median" })
+    ).rejects.toThrow("1 to 90 days");
+  });
+
+  it("fills cloudy and no-data days from clear acquisitions of the composite window", async () => {
+    // Only 2024-07-01 is clear: CLOUDY is masked and NO_DATA has no pixels.
+    const composite = { from: "2024-07-01", to: "2024-07-15", mode: "least-cloud" } as const;
+    expect(await getCompositeDates(bboxToPolygon(FIELD), composite)).toEqual([{ date: "2024-07-01", pixelFraction: 1 }]);
+    const [clear, filled] = await Promise.all([
+      generateNDVIImage(FIELD, "2024-07-01", 16, 16),
+      generateNDVIImage(FIELD, composite, 16, 16),
+    ]);
+    expect(decodePng(new Uint8Array(filled)).pixels).toEqual(decodePng(new Uint8Array(clear)).pixels);
+  });
+
+  it("stitches images larger than one Process API tile", async () => {
+    const served = stub.requests.filter((p) => p === "/api/v1/process").length;
+    const png = await generateNDVIImage(FIELD, "2024-07-01", 1100, 40);
+    const image = decodePng(new Uint8Array(png));
+    expect([image.width, image.height, image.channels]).toEqual([1100, 40, 4]);
+    expect(stub.requests.filter((p) => p === "/api/v1/process").length - served).toBe(2);
+  });
+
+  it("exports raw index values as a georeferenced GeoTIFF", async () => {
+    const clear = await generateIndexGeoTiff(FIELD, "2024-07-01", 16, 16);
+    const tags = readTiffTags(clear);
+    expect(tags.get(TIFF_TAGS.modelTiepoint)?.values).toEqual([0, 0, 0, FIELD[0], FIELD[3], 0]);
+    expect(tags.get(TIFF_TAGS.sampleFormat)?.values).toEqual([3]);
+    expect(tags.get(TIFF_TAGS.gdalNoData)?.values).toBe(String(GEOTIFF_NO_DATA));
+    expect(tags.get(TIFF_TAGS.gdalMetadata)?.values).toContain('<Item name="INDEX">NDVI</Item>');
+    const centre = (tiff: ArrayBuffer) => {
+      const offset = (readTiffTags(tiff).get(TIFF_TAGS.stripOffsets)?.values as number[])[0];
+      return new DataView(tiff).getFloat32(offset + (8 * 16 + 8) * 4, true);
+    };
+    expect(centre(clear)).toBeCloseTo(ndviAt(stub.scenario, CENTER[0], CENTER[1], "2024-07-01"), 2);
+    expect(centre(await generateIndexGeoTiff(FIELD, CLOUDY, 16, 16))).toBe(GEOTIFF_NO_DATA);
+    await expect(generateIndexGeoTiff(FIELD, "2024-07-01", 4096, 16)).rejects.toThrow(InvalidRequestError);
+  });
+
+  it("renders Web Mercator map tiles, filling from the look-back window", async () => {
+    // z12 tile containing the field centre; the field spans several pixels of it.
+    const z = 12;
+    const x = Math.floor(((CENTER[0] + 180) / 360) * 2 ** z);
+    const latRad = (CENTER[1] * Math.PI) / 180;
+    const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * 2 ** z);
+    const alpha = (png: ArrayBuffer) => {
+      const image = decodePng(new Uint8Array(png));
+      expect([image.width, image.height]).toEqual([256, 256]);
+      return Array.from({ length: 256 * 256 }, (_, i) => image.pixels[i * 4 + 3]);
+    };
+    // No overpass that day: transparent unless the look-back reaches an acquisition.
+    expect(alpha(await generateMapTile("NDVI", "2024-07-02", z, x, y)).every((a) => a === 0)).toBe(true);
+    expect(alpha(await generateMapTile("NDVI", "2024-07-02", z, x, y, 2)).every((a) => a === 255)).toBe(true);
+    await expect(generateMapTile("NDVI", "2024-07-01", 7, 68, 41)).rejects.toThrow("Invalid map tile");
+  });
+
+  it("falls back to Sentinel-1 radar, which clouds do not hide", async () => {
+    const cloudyWeek = { from: "2024-07-04", to: "2024-07-09" };
+    expect(await searchSatelliteImages(FIELD, cloudyWeek)).toBeNull();
+    const radarDates = await listRadarDates(FIELD, cloudyWeek);
+    const expected = sarAcquisitionsBetween(stub.scenario, "2024-07-04T00:00:00Z", "2024-07-09T23:59:59Z");
+    expect(radarDates.map((d) => d.date)).toEqual([...expected].reverse());
+    expect(radarDates[0].orbitState).toBe("descending");
+
+    const { date } = radarDates[0];
+    const ndvi = ndviAt(stub.scenario, CENTER[0], CENTER[1], date);
+    const stats = extractRadarStatsForLLM(await getRadarStats(bboxToPolygon(FIELD), date));
+    expect(stats?.mean).toBeCloseTo(sarVegetationIndex(ndvi), 3);
+    expect(stats?.meanVvDb).toBeCloseTo(10 * Math.log10(0.08 + 0.06 * ndvi), 1);
+    expect(stats?.histogram?.length).toBeGreaterThan(0);
+  });
+
+  it("renders radar images on their own ramps, through clouds", async () => {
+    const [{ date }] = await listRadarDates(FIELD, { from: "2024-07-04", to: "2024-07-09" });
+    const png = await generateRadarImage(FIELD, date, 16, 16, "RVI");
+    const { pixels } = decodePng(new Uint8Array(png));
+    const centre = (8 * 16 + 8) * 4;
+    const source = colorRampFunction(radarImageRamp("RVI")!, true);
+    const rvi = sarVegetationIndex(ndviAt(stub.scenario, CENTER[0], CENTER[1], date));
+    const expected: number[] = new Function(`${source}\nreturn colorFor(${rvi});`)();
+    expected.forEach((channel, i) => expect(Math.abs(pixels[centre + i] - channel * 255)).toBeLessThanOrEqual(3));
+    await expect(getRadarStats(bboxToPolygon(FIELD), "2024-07-06")).rejects.toThrow(NoDataError);
+  });
+
+  it("refuses areas above the maximum AOI size", async () => {
+    await expect(
+      getVegetationStats(bboxToPolygon([-96.64, 40.38, -90.14, 43.5]), "2024-07-01")
+    ).rejects.toBeInstanceOf(AreaTooLargeError);
+  });
+});
+
+describe("historical baseline anomaly against the local stand-in", () => {
+  let stub: SentinelStub;
+  // A small patch of the field keeps the seven multi-year composites quick.
+  const PATCH: BBox = [CENTER[0] - 0.0025, CENTER[1] - 0.0025, CENTER[0] + 0.0025, CENTER[1] + 0.0025];
+
+  beforeAll(async () => {
+    stub = await createSentinelStub({
+      scenario: {
+        firstAcquisition: "2019-01-02",
+        fields: [{ name: "Test field", bbox: FIELD, ndvi: 0.3 }],
+        yearOffsets: { "2020": 0.04, "2021": -0.03, "2022": 0.02, "2023": -0.01, "2024": 0, "2025": -0.2 },
+      },
+    });
+    vi.stubEnv("SENTINEL_BASE_URL", stub.url);
+    vi.stubEnv("SENTINEL_CLIENT_ID", "stub");
+    vi.stubEnv("SENTINEL_CLIENT_SECRET", "stub");
+    vi.stubEnv("RESULT_CACHE", "off");
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await stub.close();
+  });
+
+  it("scores a drought year against the same window in previous years", async () => {
+    const anomaly = await getIndexAnomaly(bboxToPolygon(PATCH), "2025-07-15", "NDVI", 7);
+    expect(anomaly.current).toMatchObject({ year: 2025, from: "2025-07-01", to: "2025-07-15" });
+    expect(anomaly.baseline.map((year) => year.year)).toEqual([2019, 2020, 2021, 2022, 2023, 2024]);
+    // No acquisitions before 2019.
+    expect(anomaly.missingYears).toEqual([2018]);
+    expect(anomaly.baseline[1].mean - anomaly.baseline[2].mean).toBeGreaterThan(0.05);
+    expect(anomaly.percentile).toBe(0);
+    expect(anomaly.zScore).toBeLessThan(-3);
+    await expect(getIndexAnomaly(bboxToPolygon(PATCH), "2018-07-15")).rejects.toBeInstanceOf(NoDataError);
+  });
+});
+
+describe("Landsat 8/9 and HLS against the local stand-in", () => {
+  let stub: SentinelStub;
+  const CLOUDY_S2 = "2017-07-11";
+
+  beforeAll(async () => {
+    stub = await createSentinelStub({
+      scenario: {
+        fields: [{ name: "Test field", bbox: FIELD, ndvi: 0.3 }],
+        clouds: [{ date: CLOUDY_S2, center: CENTER, radius: 0.5 }],
+        landsat: { firstAcquisition: "2015-06-01", revisitDays: 8 },
+      },
+    });
+    vi.stubEnv("EO_PROVIDER", "sentinel-hub-us-west");
+    vi.stubEnv("SENTINEL_BASE_URL", stub.url);
+    vi.stubEnv("SENTINEL_CLIENT_ID", "stub");
+    vi.stubEnv("SENTINEL_CLIENT_SECRET", "stub");
+    vi.stubEnv("RESULT_CACHE", "off");
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await stub.close();
+  });
+
+  it("reaches before Sentinel-2 through Landsat, with index formulas on mapped bands", async () => {
+    const dates = await listAvailableDates(FIELD, { from: "2015-06-01", to: "2015-06-20" }, [
+      "sentinel-2-l2a",
+      "landsat-ot-l2",
+    ]);
+    expect(dates.map((d) => d.date)).toEqual(["2015-06-17", "2015-06-09", "2015-06-01"]);
+    expect(dates[0]).toMatchObject({ collection: "landsat-ot-l2", tileIds: ["193023"] });
+
+    const field = bboxToPolygon(FIELD);
+    const stats = extractIndexStatsForLLM(await getVegetationStats(field, "2015-06-09", "NDVI", "landsat-ot-l2"));
+    expect(stats?.mean).toBeCloseTo(ndviAt(stub.scenario, CENTER[0], CENTER[1], "2015-06-09"), 3);
+    await expect(getVegetationStats(field, "2015-06-09")).rejects.toThrow("data starts in 2017");
+    await expect(getVegetationStats(field, "2015-06-09", "NDRE", "landsat-ot-l2")).rejects.toThrow("B05");
+    await expect(getVegetationStats(field, "2015-06-09", "NDRE", "landsat-ot-l2")).rejects.toThrow(InvalidRequestError);
+  });
+
+  it("merges clear scenes across sensors and masks clouds from each collection's QA band", async () => {
+    const week = { from: "2017-07-01", to: "2017-07-14" };
+    expect((await searchSatelliteImages(FIELD, week))?.timestamp.slice(0, 10)).toBe("2017-07-06");
+    const merged = await searchSatelliteImages(FIELD, week, { collections: ["sentinel-2-l2a", "landsat-ot-l2"] });
+    expect(merged).toMatchObject({ collection: "landsat-ot-l2", aoiCloudCover: 0 });
+    expect(merged?.timestamp.slice(0, 10)).toBe("2017-07-08");
+
+    const hls = await listAvailableDates(FIELD, week, ["hls"]);
+    expect(hls.map((d) => d.date)).toEqual(["2017-07-11", "2017-07-08", "2017-07-06", "2017-07-01"]);
+    expect(hls[0].tileIds).toEqual(["33UUU"]);
+    const cloudy = await getVegetationStats(bboxToPolygon(FIELD), CLOUDY_S2, "NDVI", "hls");
+    expect(extractMaskedFraction(cloudy)).toBe(1);
+
+    // HLS is routed to US-West-2 whichever deployment EO_PROVIDER prefers.
+    vi.stubEnv("EO_PROVIDER", "sentinel-hub");
+    expect(await listAvailableDates(FIELD, week, ["hls"])).toEqual(hls);
+    vi.stubEnv("EO_PROVIDER", "sentinel-hub-us-west");
+  });
+});
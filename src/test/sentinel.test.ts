@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  getVegetationTimeSeries,
+  listAvailableDates,
+  searchSatelliteImages,
+} from "@/lib/services/sentinel";
+import { InvalidRequestError } from "@/lib/services/errors";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function statsRow(
+  from: string,
+  mean: number | string,
+  sampleCount = 100,
+  noDataCount = 0,
+  maskedMean = 0
+) {
+  return {
+    interval: { from: `${from}T00:00:00Z`, to: `${from}T23:59:59Z` },
+    outputs: {
+      index: {
+        bands: { B0: { stats: { mean, min: 0, max: 1, stDev: 0.1, sampleCount, noDataCount } } },
+      },
+      masked: {
+        bands: { B0: { stats: { mean: maskedMean, min: 0, max: 1, stDev: 0, sampleCount, noDataCount: 0 } } },
+      },
+    },
+  };
+}
+
+const POLYGON = {
+  type: "Polygon" as const,
+  coordinates: [[[13.4, 52.5], [13.5, 52.5], [13.5, 52.6], [13.4, 52.6], [13.4, 52.5]]],
+};
+
+describe("sentinel service", () => {
+  beforeEach(() => {
+    vi.stubEnv("SENTINEL_CLIENT_ID", "id");
+    vi.stubEnv("SENTINEL_CLIENT_SECRET", "secret");
+    vi.stubEnv("RESULT_CACHE", "off");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("returns a sorted time series without empty intervals", async () => {
+    const fetchMock = vi.fn(async (url: string | URL | Request, _init?: RequestInit) => {
+      if (String(url).includes("/auth/")) {
+        return jsonResponse({ access_token: "token", expires_in: 3600 });
+      }
+      return jsonResponse({
+        status: "OK",
+        data: [
+          statsRow("2024-06-11", 0.62, 100, 32, 0.32),
+          statsRow("2024-06-01", 0.41),
+          statsRow("2024-06-06", "NaN", 100, 100),
+        ],
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const series = await getVegetationTimeSeries(POLYGON, "2024-06-01", "2024-06-15", "P1D", "NDMI");
+
+    expect(series.map((p) => p.date)).toEqual(["2024-06-01", "2024-06-11"]);
+    expect(series[1].mean).toBe(0.62);
+    expect(series[1].maskedFraction).toBe(0.32);
+    const statsCall = fetchMock.mock.calls.find(([url]) => String(url).includes("/statistics"));
+    const payload = JSON.parse(String(statsCall?.[1]?.body));
+    expect(payload.aggregation.aggregationInterval).toEqual({ of: "P1D" });
+    expect(payload.aggregation.evalscript).toContain("B11");
+    expect(payload.aggregation.evalscript).toContain("SCL");
+  });
+
+  it("ranks scenes by cloud cover inside the AOI, then recency", async () => {
+    const feature = (id: string, date: string, cloud: number) => ({
+      id,
+      properties: { datetime: `${date}T10:30:00Z`, "eo:cloud_cover": cloud },
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string | URL | Request) => {
+        const u = String(url);
+        if (u.includes("/auth/")) return jsonResponse({ access_token: "token", expires_in: 3600 });
+        if (u.includes("/catalog/")) {
+          return jsonResponse({
+            features: [
+              feature("newest-cloudy-aoi", "2024-06-20", 2),
+              feature("clear-aoi", "2024-06-15", 60),
+              feature("older-clear-aoi", "2024-06-05", 5),
+            ],
+          });
+        }
+        return jsonResponse({
+          status: "OK",
+          data: [
+            { interval: { from: "2024-06-20T00:00:00Z", to: "2024-06-21T00:00:00Z" }, outputs: { masked: { bands: { B0: { stats: { mean: 0.4, sampleCount: 100, noDataCount: 0 } } } } } },
+            { interval: { from: "2024-06-15T00:00:00Z", to: "2024-06-16T00:00:00Z" }, outputs: { masked: { bands: { B0: { stats: { mean: 0.01, sampleCount: 100, noDataCount: 0 } } } } } },
+            { interval: { from: "2024-06-05T00:00:00Z", to: "2024-06-06T00:00:00Z" }, outputs: { masked: { bands: { B0: { stats: { mean: 0, sampleCount: 100, noDataCount: 0 } } } } } },
+          ],
+        });
+      })
+    );
+
+    const bbox: [number, number, number, number] = [13.4, 52.5, 13.5, 52.6];
+    const scene = await searchSatelliteImages(bbox, { from: "2024-06-01", to: "2024-06-30" });
+    expect(scene?.id).toBe("clear-aoi");
+    expect(scene?.aoiCloudCover).toBe(1);
+
+    const strict = await searchSatelliteImages(bbox, { from: "2024-06-01", to: "2024-06-30" }, { maxCloudCover: 0 });
+    expect(strict?.id).toBe("older-clear-aoi");
+  });
+
+  it("follows catalog pages and merges tiles of the same pass", async () => {
+    const pages = [
+      {
+        features: [
+          { id: "S2A_MSIL2A_20240601T102031_N0510_R065_T32UQD_20240601T161406", properties: { datetime: "2024-06-01T10:30:00Z", "eo:cloud_cover": 10 } },
+          { id: "S2A_MSIL2A_20240601T102031_N0510_R065_T33UUU_20240601T161406", properties: { datetime: "2024-06-01T10:29:50Z", "eo:cloud_cover": 30 } },
+        ],
+        context: { next: 2 },
+      },
+      {
+        features: [
+          { id: "S2B_MSIL2A_20240606T102029_N0510_R065_T32UQD_20240606T131542", properties: { datetime: "2024-06-06T10:30:00Z", "eo:cloud_cover": 0 } },
+        ],
+        context: {},
+      },
+    ];
+    const bodies: Array<Record<string, unknown>> = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+        if (String(url).includes("/auth/")) return jsonResponse({ access_token: "token", expires_in: 3600 });
+        bodies.push(JSON.parse(String(init?.body)));
+        return jsonResponse(pages[bodies.length - 1]);
+      })
+    );
+
+    const dates = await listAvailableDates([13.4, 52.5, 13.5, 52.6], { from: "2024-06-01", to: "2024-06-30" });
+
+    expect(bodies.map((b) => b.next)).toEqual([undefined, 2]);
+    expect(dates.map((d) => d.date)).toEqual(["2024-06-06", "2024-06-01"]);
+    expect(dates[1]).toMatchObject({
+      timestamp: "2024-06-01T10:29:50Z",
+      tileIds: ["32UQD", "33UUU"],
+      cloudCover: 20,
+    });
+  });
+
+  it("refuses catalog searches too long to list in full", async () => {
+    let pages = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string | URL | Request) => {
+        if (String(url).includes("/auth/")) return jsonResponse({ access_token: "token", expires_in: 3600 });
+        pages++;
+        return jsonResponse({ features: [], context: { next: pages * 100 } });
+      })
+    );
+
+    await expect(
+      listAvailableDates([13.4, 52.5, 13.5, 52.6], { from: "2017-01-01", to: "2024-12-31" })
+    ).rejects.toThrow(InvalidRequestError);
+    expect(pages).toBe(20);
+  });
+});
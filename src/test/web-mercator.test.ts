@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { isValidMapTile, mapTileBBox, mapTileBoundsMeters, metersToLonLat } from "@/lib/services/web-mercator";
+
+describe("mapTileBoundsMeters", () => {
+  it("splits the Web Mercator plane into 2^z × 2^z tiles from the top-left", () => {
+    const [minX, minY, maxX, maxY] = mapTileBoundsMeters(8, 0, 0);
+    expect(minX).toBeCloseTo(-20037508.34, 1);
+    expect(maxY).toBeCloseTo(20037508.34, 1);
+    expect(maxX - minX).toBeCloseTo(156543.03, 1);
+    expect(maxY - minY).toBeCloseTo(156543.03, 1);
+  });
+});
+
+describe("mapTileBBox", () => {
+  it("returns the lon/lat bounds of an OSM tile", () => {
+    // z10 tile 550/335 covers Berlin.
+    const [minLon, minLat, maxLon, maxLat] = mapTileBBox(10, 550, 335);
+    expect(minLon).toBeCloseTo(13.359, 3);
+    expect(maxLon).toBeCloseTo(13.711, 3);
+    expect(minLat).toBeCloseTo(52.483, 3);
+    expect(maxLat).toBeCloseTo(52.696, 3);
+  });
+
+  it("round-trips the equator and prime meridian", () => {
+    expect(metersToLonLat(0, 0)).toEqual([0, 0]);
+  });
+});
+
+describe("isValidMapTile", () => {
+  it("accepts served zooms and tiles inside the grid only", () => {
+    expect(isValidMapTile(12, 2200, 1343)).toBe(true);
+    expect(isValidMapTile(7, 68, 41)).toBe(false);
+    expect(isValidMapTile(19, 0, 0)).toBe(false);
+    expect(isValidMapTile(8, 256, 0)).toBe(false);
+    expect(isValidMapTile(8, 1.5, 0)).toBe(false);
+  });
+});